@@ -0,0 +1,47 @@
+/// <reference types="node" />
+/**
+ * generate_next_call as a Vercel function, run by the cron in vercel.json so next calls keep
+ * coming while the app is closed. Needs SUPABASE_SERVICE_ROLE_KEY and CRON_SECRET in the
+ * project's environment, next to the VITE_SUPABASE_URL the app already uses. Vercel Cron
+ * sends the secret as a bearer token by itself.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { consoleSchedulingLogger, handleGenerateNextCall } from '../src/features/scheduling/server/generateNextCall';
+import { createSupabaseSchedulingStore } from '../src/features/scheduling/server/supabaseStore';
+
+// Edge functions are bundled with esbuild, which resolves the shared code's '@/' imports
+// through the paths in tsconfig.json
+export const config = { runtime: 'edge' };
+
+const supabaseUrl = process.env['SUPABASE_URL'] || process.env['VITE_SUPABASE_URL'];
+const serviceRoleKey = process.env['SUPABASE_SERVICE_ROLE_KEY'];
+const secret = process.env['CRON_SECRET'];
+
+const store = supabaseUrl && serviceRoleKey
+  ? createSupabaseSchedulingStore(createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  }))
+  : null;
+
+export default async function generateNextCall(request: Request): Promise<Response> {
+  // Without a secret anyone could run the batch, so refuse rather than run open
+  if (!store || !secret) {
+    consoleSchedulingLogger.error('generate_next_call is not configured', {
+      component: 'generateNextCall',
+      action: 'handleRequest',
+      metadata: { hasDatabase: !!store, hasSecret: !!secret },
+    });
+    return new Response(JSON.stringify({ error: 'Server-side scheduling is not configured' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Vercel Cron sends a GET without a body: run a batch of due users
+  const batchRequest = request.method === 'GET'
+    ? new Request(request.url, { method: 'POST', headers: request.headers, body: '{}' })
+    : request;
+
+  return handleGenerateNextCall(batchRequest, store, { secret, logger: consoleSchedulingLogger });
+}
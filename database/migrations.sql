@@ -0,0 +1,255 @@
+-- SpontaneousConnect Database Migrations
+-- Brings a database created from an earlier database/setup.sql up to date. New installs
+-- only need setup.sql. Every statement is guarded, so the file is safe to run again after
+-- each update.
+
+-- ==========================================
+-- CUSTOM TYPES
+-- ==========================================
+
+-- Date override type enumeration
+DO $$ BEGIN
+  CREATE TYPE date_override_enum AS ENUM (
+    'unavailable',
+    'available'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ==========================================
+-- USERS
+-- ==========================================
+
+-- Weekly availability templates: migrate profiles created before the column existed
+CREATE OR REPLACE FUNCTION legacy_weekly_availability(days TEXT, window_start TIME, window_end TIME)
+RETURNS JSONB AS $$
+  SELECT jsonb_object_agg(
+    day,
+    CASE WHEN day = ANY(string_to_array(days, ','))
+      THEN jsonb_build_array(jsonb_build_object(
+        'start', to_char(window_start, 'HH24:MI'),
+        'end', to_char(window_end, 'HH24:MI')
+      ))
+      ELSE '[]'::jsonb
+    END
+  )
+  FROM unnest(ARRAY['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']) AS day;
+$$ language 'sql' IMMUTABLE;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS weekly_availability JSONB;
+UPDATE users
+SET weekly_availability = legacy_weekly_availability(active_days, morning_start, evening_end)
+WHERE weekly_availability IS NULL;
+
+-- Scheduling pause
+ALTER TABLE users ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS paused_until TIMESTAMPTZ;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT valid_pause
+    CHECK (paused_until IS NULL OR (paused_at IS NOT NULL AND paused_until > paused_at));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Weekly cadence
+ALTER TABLE users ADD COLUMN IF NOT EXISTS weekly_call_target INTEGER;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS max_silence_days INTEGER;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT users_weekly_call_target_check
+    CHECK (weekly_call_target > 0 AND weekly_call_target <= 70);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT users_max_silence_days_check
+    CHECK (max_silence_days >= 0 AND max_silence_days <= 14);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Spontaneity level
+ALTER TABLE users ADD COLUMN IF NOT EXISTS spontaneity_level TEXT DEFAULT 'balanced' NOT NULL;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT users_spontaneity_level_check
+    CHECK (spontaneity_level IN ('predictable', 'balanced', 'spontaneous', 'wild'));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Surprise mode
+ALTER TABLE users ADD COLUMN IF NOT EXISTS surprise_mode BOOLEAN DEFAULT false NOT NULL;
+
+-- Missed-call policy
+ALTER TABLE users ADD COLUMN IF NOT EXISTS missed_call_grace_minutes INTEGER DEFAULT 30 NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS missed_call_follow_up TEXT DEFAULT 'regenerate' NOT NULL;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT users_missed_call_grace_minutes_check
+    CHECK (missed_call_grace_minutes >= 5 AND missed_call_grace_minutes <= 240);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT users_missed_call_follow_up_check
+    CHECK (missed_call_follow_up IN ('regenerate', 'nudge', 'tomorrow'));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Partner availability
+ALTER TABLE users ADD COLUMN IF NOT EXISTS partner_timezone TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS partner_morning_start TIME DEFAULT '09:00' NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS partner_evening_end TIME DEFAULT '21:00' NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS partner_active_days TEXT DEFAULT 'Mon,Tue,Wed,Thu,Fri,Sat,Sun' NOT NULL;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT valid_partner_time_window
+    CHECK (partner_morning_start < partner_evening_end);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT valid_partner_timezone CHECK (partner_timezone IS NULL OR partner_timezone IN (
+    'UTC', 'America/New_York', 'America/Chicago', 'America/Denver',
+    'America/Los_Angeles', 'Europe/London', 'Europe/Paris',
+    'Asia/Tokyo', 'Australia/Sydney'
+  ));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ==========================================
+-- BLOCKED TIMES
+-- ==========================================
+
+-- Date ranges and one-time blocks. One-time blocks saved before they took a date are left
+-- as they are (NOT VALID); new and updated rows need one.
+ALTER TABLE blocked_times ADD COLUMN IF NOT EXISTS start_date DATE;
+ALTER TABLE blocked_times ADD COLUMN IF NOT EXISTS end_date DATE;
+DO $$ BEGIN
+  ALTER TABLE blocked_times ADD CONSTRAINT once_date_required
+    CHECK (repeat_type != 'once' OR start_date IS NOT NULL) NOT VALID;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+DO $$ BEGIN
+  ALTER TABLE blocked_times ADD CONSTRAINT valid_date_range
+    CHECK (start_date IS NULL OR end_date IS NULL OR start_date <= end_date);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+CREATE INDEX IF NOT EXISTS idx_blocked_times_end_date ON blocked_times USING btree (user_id, end_date) WHERE end_date IS NOT NULL;
+
+-- Overnight blocks: start_time > end_time wraps past midnight
+ALTER TABLE blocked_times DROP CONSTRAINT IF EXISTS valid_time_range;
+ALTER TABLE blocked_times ADD CONSTRAINT valid_time_range CHECK (start_time <> end_time);
+
+-- ==========================================
+-- DATE OVERRIDES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS date_overrides (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  override_type date_override_enum NOT NULL,
+  -- [{"start": "HH:mm", "end": "HH:mm"}, ...] for 'available'; NULL or empty means all day
+  windows JSONB,
+  label TEXT CHECK (label IS NULL OR length(label) <= 100),
+  holiday_country TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT one_override_per_date UNIQUE (user_id, date),
+  CONSTRAINT windows_only_when_available CHECK (
+    override_type = 'available' OR windows IS NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_date_overrides_holiday ON date_overrides USING btree (user_id, holiday_country) WHERE holiday_country IS NOT NULL;
+
+ALTER TABLE date_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE date_overrides FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "users_own_date_overrides" ON date_overrides;
+CREATE POLICY "users_own_date_overrides" ON date_overrides
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = date_overrides.user_id
+      AND auth.uid()::text = users.id::text
+    )
+  );
+GRANT ALL ON date_overrides TO authenticated;
+
+-- ==========================================
+-- SCHEDULE HELPER
+-- ==========================================
+
+-- Week-ahead plan
+ALTER TABLE schedule_helper ADD COLUMN IF NOT EXISTS week_plan JSONB;
+
+-- Snooze limits
+ALTER TABLE schedule_helper ADD COLUMN IF NOT EXISTS snooze_count INTEGER DEFAULT 0 NOT NULL;
+DO $$ BEGIN
+  ALTER TABLE schedule_helper ADD CONSTRAINT schedule_helper_snooze_count_check
+    CHECK (snooze_count >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- ==========================================
+-- FUNCTIONS AND VIEWS
+-- ==========================================
+
+-- Daily reset at each user's local midnight, without logging a history row per reset
+CREATE OR REPLACE FUNCTION reset_daily_call_counts()
+RETURNS void AS $$
+BEGIN
+  UPDATE schedule_helper sh
+  SET calls_today = 0,
+      daily_reset_date = (NOW() AT TIME ZONE COALESCE(u.timezone, 'UTC'))::date
+  FROM users u
+  WHERE u.id = sh.user_id
+    AND sh.daily_reset_date < (NOW() AT TIME ZONE COALESCE(u.timezone, 'UTC'))::date;
+END;
+$$ language 'plpgsql';
+
+-- Cleanup deactivates blocks by their date range
+CREATE OR REPLACE FUNCTION cleanup_old_data()
+RETURNS void AS $$
+BEGIN
+  -- Delete call history older than 1 year
+  DELETE FROM call_history
+  WHERE created_at < NOW() - INTERVAL '1 year';
+
+  -- Deactivate blocked times whose date range has passed (could move to archive table)
+  UPDATE blocked_times
+  SET is_active = false
+  WHERE is_active = true
+    AND COALESCE(end_date, CASE WHEN repeat_type = 'once' THEN start_date END) < CURRENT_DATE - 1;
+END;
+$$ language 'plpgsql';
+
+-- User statistics leave out paused users
+DROP MATERIALIZED VIEW IF EXISTS user_stats;
+CREATE MATERIALIZED VIEW user_stats AS
+SELECT
+  u.id,
+  u.name,
+  u.daily_call_limit,
+  COUNT(ch.id) as total_calls,
+  COUNT(ch.id) FILTER (WHERE ch.status = 'called') as successful_calls,
+  ROUND(
+    COUNT(ch.id) FILTER (WHERE ch.status = 'called')::numeric /
+    NULLIF(COUNT(ch.id), 0) * 100, 2
+  ) as success_rate,
+  AVG(ch.success_rating) FILTER (WHERE ch.success_rating IS NOT NULL) as avg_rating,
+  COUNT(DISTINCT DATE(ch.created_at)) as active_days,
+  MAX(ch.created_at) as last_call_date
+FROM users u
+LEFT JOIN call_history ch ON u.id = ch.user_id
+WHERE u.is_active = true
+  -- Paused users aren't expected to call, so they would only drag the numbers down
+  AND (u.paused_at IS NULL OR u.paused_until <= NOW())
+GROUP BY u.id, u.name, u.daily_call_limit;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_stats_id ON user_stats (id);
@@ -38,6 +38,16 @@ EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+-- Date override type enumeration
+DO $$ BEGIN
+    CREATE TYPE date_override_enum AS ENUM (
+      'unavailable',
+      'available'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 -- Platform enumeration
 DO $$ BEGIN
     CREATE TYPE platform_enum AS ENUM (
@@ -63,12 +73,25 @@ CREATE TABLE IF NOT EXISTS users (
   partner_name TEXT NOT NULL,
   partner_phone TEXT,
   daily_call_limit INTEGER DEFAULT 3,
+  weekly_call_target INTEGER,
+  max_silence_days INTEGER,
+  spontaneity_level TEXT DEFAULT 'balanced' NOT NULL,
+  surprise_mode BOOLEAN DEFAULT false NOT NULL,
+  missed_call_grace_minutes INTEGER DEFAULT 30 NOT NULL,
+  missed_call_follow_up TEXT DEFAULT 'regenerate' NOT NULL,
   active_days TEXT DEFAULT 'Mon,Tue,Wed,Thu,Fri,Sat,Sun' NOT NULL,
   morning_start TIME DEFAULT '09:00' NOT NULL,
   evening_end TIME DEFAULT '21:00' NOT NULL,
+  weekly_availability JSONB,
   preferred_platforms TEXT DEFAULT 'phone,whatsapp' NOT NULL,
   timezone TEXT DEFAULT 'UTC' NOT NULL,
+  partner_timezone TEXT,
+  partner_morning_start TIME DEFAULT '09:00' NOT NULL,
+  partner_evening_end TIME DEFAULT '21:00' NOT NULL,
+  partner_active_days TEXT DEFAULT 'Mon,Tue,Wed,Thu,Fri,Sat,Sun' NOT NULL,
   is_active BOOLEAN DEFAULT true NOT NULL,
+  paused_at TIMESTAMPTZ,
+  paused_until TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   version INTEGER DEFAULT 1 NOT NULL
@@ -97,11 +120,26 @@ CREATE TABLE IF NOT EXISTS blocked_times (
   end_time TIME NOT NULL,
   repeat_type block_repeat_enum NOT NULL,
   days_of_week TEXT,
+  start_date DATE,
+  end_date DATE,
   is_active BOOLEAN DEFAULT true NOT NULL,
   priority INTEGER DEFAULT 0 NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
+-- Date overrides table
+CREATE TABLE IF NOT EXISTS date_overrides (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  override_type date_override_enum NOT NULL,
+  windows JSONB,
+  label TEXT,
+  holiday_country TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, date)
+);
+
 -- Schedule helper table
 CREATE TABLE IF NOT EXISTS schedule_helper (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -113,6 +151,8 @@ CREATE TABLE IF NOT EXISTS schedule_helper (
   last_generated TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   lock_version INTEGER DEFAULT 1 NOT NULL,
+  week_plan JSONB,
+  snooze_count INTEGER DEFAULT 0 NOT NULL,
   UNIQUE(user_id)
 );
 
@@ -142,6 +182,7 @@ CREATE INDEX IF NOT EXISTS idx_schedule_helper_next_call ON schedule_helper (nex
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE call_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE blocked_times ENABLE ROW LEVEL SECURITY;
+ALTER TABLE date_overrides ENABLE ROW LEVEL SECURITY;
 ALTER TABLE schedule_helper ENABLE ROW LEVEL SECURITY;
 
 -- Users policies
@@ -171,6 +212,17 @@ CREATE POLICY "users_own_blocked_times" ON blocked_times
     )
   );
 
+-- Date overrides policies
+DROP POLICY IF EXISTS "users_own_date_overrides" ON date_overrides;
+CREATE POLICY "users_own_date_overrides" ON date_overrides
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = date_overrides.user_id
+      AND auth.uid()::text = users.id::text
+    )
+  );
+
 -- Schedule helper policies
 DROP POLICY IF EXISTS "users_own_schedule_helper" ON schedule_helper;
 CREATE POLICY "users_own_schedule_helper" ON schedule_helper
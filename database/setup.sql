@@ -1,5 +1,7 @@
 -- SpontaneousConnect Database Schema
 -- Enterprise-grade PostgreSQL setup with optimizations, indexing, and security
+-- For a new database. To upgrade a database created from an earlier version of this file,
+-- run database/migrations.sql instead.
 
 -- ==========================================
 -- EXTENSIONS AND CONFIGURATION
@@ -15,31 +17,53 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- ==========================================
 
 -- Call status enumeration
-CREATE TYPE call_status_enum AS ENUM (
-  'suggested',
-  'called',
-  'skipped',
-  'later',
-  'failed'
-);
+DO $$ BEGIN
+  CREATE TYPE call_status_enum AS ENUM (
+    'suggested',
+    'called',
+    'skipped',
+    'later',
+    'failed'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
 
 -- Blocked time repeat type enumeration
-CREATE TYPE block_repeat_enum AS ENUM (
-  'daily',
-  'weekdays',
-  'weekends',
-  'custom',
-  'once'
-);
+DO $$ BEGIN
+  CREATE TYPE block_repeat_enum AS ENUM (
+    'daily',
+    'weekdays',
+    'weekends',
+    'custom',
+    'once'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Date override type enumeration
+DO $$ BEGIN
+  CREATE TYPE date_override_enum AS ENUM (
+    'unavailable',
+    'available'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
 
 -- Platform enumeration
-CREATE TYPE platform_enum AS ENUM (
-  'phone',
-  'whatsapp',
-  'sms',
-  'telegram',
-  'discord'
-);
+DO $$ BEGIN
+  CREATE TYPE platform_enum AS ENUM (
+    'phone',
+    'whatsapp',
+    'sms',
+    'telegram',
+    'discord'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
 
 -- ==========================================
 -- CORE TABLES
@@ -53,22 +77,53 @@ CREATE TABLE users (
   partner_name TEXT NOT NULL CHECK (length(partner_name) >= 1 AND length(partner_name) <= 100),
   partner_phone TEXT CHECK (partner_phone ~ '^\+?[\d\s\-\(\)]+$'),
   daily_call_limit INTEGER DEFAULT 3 CHECK (daily_call_limit > 0 AND daily_call_limit <= 10),
+  -- Weekly cadence: calls to aim for per local week, and most days in a row without a call (NULL = none)
+  weekly_call_target INTEGER CHECK (weekly_call_target > 0 AND weekly_call_target <= 70),
+  max_silence_days INTEGER CHECK (max_silence_days >= 0 AND max_silence_days <= 14),
+  -- How random call times are: gap spread, jitter, round-time snapping and repeat avoidance
+  spontaneity_level TEXT DEFAULT 'balanced' NOT NULL
+    CHECK (spontaneity_level IN ('predictable', 'balanced', 'spontaneous', 'wild')),
+  -- Surprise mode: only a fuzzy window is shown until shortly before each call
+  surprise_mode BOOLEAN DEFAULT false NOT NULL,
+  -- Missed calls: minutes past due before a call counts as missed, and what to do next
+  missed_call_grace_minutes INTEGER DEFAULT 30 NOT NULL
+    CHECK (missed_call_grace_minutes >= 5 AND missed_call_grace_minutes <= 240),
+  missed_call_follow_up TEXT DEFAULT 'regenerate' NOT NULL
+    CHECK (missed_call_follow_up IN ('regenerate', 'nudge', 'tomorrow')),
   active_days TEXT DEFAULT 'Mon,Tue,Wed,Thu,Fri,Sat,Sun' NOT NULL,
   morning_start TIME DEFAULT '09:00' NOT NULL,
   evening_end TIME DEFAULT '21:00' NOT NULL,
+  -- Call windows per weekday: {"Mon": [{"start": "12:00", "end": "13:00"}, ...], ...}.
+  -- active_days/morning_start/evening_end are kept as a summary; NULL falls back to them.
+  weekly_availability JSONB,
   preferred_platforms TEXT DEFAULT 'phone,whatsapp' NOT NULL,
   timezone TEXT DEFAULT 'UTC' NOT NULL,
+  -- Partner availability, evaluated in the partner's own timezone (NULL timezone = not enforced)
+  partner_timezone TEXT,
+  partner_morning_start TIME DEFAULT '09:00' NOT NULL,
+  partner_evening_end TIME DEFAULT '21:00' NOT NULL,
+  partner_active_days TEXT DEFAULT 'Mon,Tue,Wed,Thu,Fri,Sat,Sun' NOT NULL,
   is_active BOOLEAN DEFAULT true NOT NULL,
+  -- Scheduling pause: paused_until NULL with paused_at set = paused until the user resumes
+  paused_at TIMESTAMPTZ,
+  paused_until TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   version INTEGER DEFAULT 1 NOT NULL,
 
   -- Constraints
   CONSTRAINT valid_time_window CHECK (morning_start < evening_end),
+  CONSTRAINT valid_partner_time_window CHECK (partner_morning_start < partner_evening_end),
+  CONSTRAINT valid_pause CHECK (paused_until IS NULL OR (paused_at IS NOT NULL AND paused_until > paused_at)),
   CONSTRAINT valid_timezone CHECK (timezone IN (
     'UTC', 'America/New_York', 'America/Chicago', 'America/Denver',
     'America/Los_Angeles', 'Europe/London', 'Europe/Paris',
     'Asia/Tokyo', 'Australia/Sydney'
+  )),
+  CONSTRAINT valid_partner_timezone CHECK (partner_timezone IS NULL OR partner_timezone IN (
+    'UTC', 'America/New_York', 'America/Chicago', 'America/Denver',
+    'America/Los_Angeles', 'Europe/London', 'Europe/Paris',
+    'Asia/Tokyo', 'Australia/Sydney'
   ))
 );
 
@@ -120,17 +175,47 @@ CREATE TABLE blocked_times (
     repeat_type != 'custom' OR
     days_of_week ~ '^(Mon|Tue|Wed|Thu|Fri|Sat|Sun)(,(Mon|Tue|Wed|Thu|Fri|Sat|Sun))*$'
   ),
+  -- Local calendar dates bounding when the block applies (end_date inclusive)
+  start_date DATE,
+  end_date DATE,
   is_active BOOLEAN DEFAULT true NOT NULL,
   priority INTEGER DEFAULT 0 NOT NULL CHECK (priority >= 0 AND priority <= 10),
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
 
   -- Constraints
-  CONSTRAINT valid_time_range CHECK (start_time < end_time),
+  CONSTRAINT once_date_required CHECK (
+    repeat_type != 'once' OR start_date IS NOT NULL
+  ),
+  CONSTRAINT valid_date_range CHECK (
+    start_date IS NULL OR end_date IS NULL OR start_date <= end_date
+  ),
+  -- start_time > end_time is an overnight block that wraps past midnight;
+  -- its repeat rule applies to the day the block starts
+  CONSTRAINT valid_time_range CHECK (start_time <> end_time),
   CONSTRAINT custom_days_required CHECK (
     repeat_type != 'custom' OR days_of_week IS NOT NULL
   )
 );
 
+-- Date overrides: exceptions to the weekly availability on single local dates
+CREATE TABLE date_overrides (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  override_type date_override_enum NOT NULL,
+  -- [{"start": "HH:mm", "end": "HH:mm"}, ...] for 'available'; NULL or empty means all day
+  windows JSONB,
+  label TEXT CHECK (label IS NULL OR length(label) <= 100),
+  holiday_country TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT one_override_per_date UNIQUE (user_id, date),
+  CONSTRAINT windows_only_when_available CHECK (
+    override_type = 'available' OR windows IS NULL
+  )
+);
+
 -- Schedule helper table with optimistic locking
 CREATE TABLE schedule_helper (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -142,6 +227,10 @@ CREATE TABLE schedule_helper (
   last_generated TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   lock_version INTEGER DEFAULT 1 NOT NULL,
+  -- Week-ahead plan: { slots: [{ time, date }], seed, generatedAt, constraints }
+  week_plan JSONB,
+  -- Times the pending call has been snoozed; starts over with each new call
+  snooze_count INTEGER DEFAULT 0 NOT NULL CHECK (snooze_count >= 0),
 
   -- Constraints
   CONSTRAINT unique_user_schedule UNIQUE (user_id),
@@ -170,6 +259,10 @@ CREATE INDEX idx_call_history_platform ON call_history USING btree (platform_use
 CREATE INDEX idx_blocked_times_user_active ON blocked_times USING btree (user_id, is_active) WHERE is_active = true;
 CREATE INDEX idx_blocked_times_priority ON blocked_times USING btree (priority DESC, start_time);
 CREATE INDEX idx_blocked_times_time_range ON blocked_times USING btree (start_time, end_time);
+CREATE INDEX idx_blocked_times_end_date ON blocked_times USING btree (user_id, end_date) WHERE end_date IS NOT NULL;
+
+-- Date overrides indexes (the unique constraint covers user_id, date lookups)
+CREATE INDEX idx_date_overrides_holiday ON date_overrides USING btree (user_id, holiday_country) WHERE holiday_country IS NOT NULL;
 
 -- Schedule helper indexes
 CREATE INDEX idx_schedule_helper_next_call ON schedule_helper USING btree (next_call_due) WHERE next_call_due IS NOT NULL;
@@ -187,6 +280,7 @@ CREATE INDEX idx_blocked_times_user_priority_active ON blocked_times USING btree
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE call_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE blocked_times ENABLE ROW LEVEL SECURITY;
+ALTER TABLE date_overrides ENABLE ROW LEVEL SECURITY;
 ALTER TABLE schedule_helper ENABLE ROW LEVEL SECURITY;
 
 -- Users policies
@@ -213,6 +307,16 @@ CREATE POLICY "users_own_blocked_times" ON blocked_times
     )
   );
 
+-- Date overrides policies
+CREATE POLICY "users_own_date_overrides" ON date_overrides
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = date_overrides.user_id
+      AND auth.uid()::text = users.id::text
+    )
+  );
+
 -- Schedule helper policies
 CREATE POLICY "users_own_schedule_helper" ON schedule_helper
   FOR ALL USING (
@@ -245,27 +349,36 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
--- Function to reset daily call counts
+-- Function to reset daily call counts at each user's local midnight.
+-- Safe to run as often as needed; the app also resets lazily when it reads a stale counter.
 CREATE OR REPLACE FUNCTION reset_daily_call_counts()
 RETURNS void AS $$
 BEGIN
-  UPDATE schedule_helper
-  SET calls_today = 0, daily_reset_date = CURRENT_DATE
-  WHERE daily_reset_date < CURRENT_DATE;
-
-  -- Log the reset operation
-  INSERT INTO call_history (user_id, scheduled_time, status, notes, metadata)
-  SELECT
-    user_id,
-    NOW(),
-    'suggested'::call_status_enum,
-    'Daily count reset',
-    jsonb_build_object('operation', 'daily_reset', 'timestamp', NOW())
-  FROM schedule_helper
-  WHERE daily_reset_date = CURRENT_DATE;
+  UPDATE schedule_helper sh
+  SET calls_today = 0,
+      daily_reset_date = (NOW() AT TIME ZONE COALESCE(u.timezone, 'UTC'))::date
+  FROM users u
+  WHERE u.id = sh.user_id
+    AND sh.daily_reset_date < (NOW() AT TIME ZONE COALESCE(u.timezone, 'UTC'))::date;
 END;
 $$ language 'plpgsql';
 
+-- Function to build a weekly availability template from the legacy single daily window
+CREATE OR REPLACE FUNCTION legacy_weekly_availability(days TEXT, window_start TIME, window_end TIME)
+RETURNS JSONB AS $$
+  SELECT jsonb_object_agg(
+    day,
+    CASE WHEN day = ANY(string_to_array(days, ','))
+      THEN jsonb_build_array(jsonb_build_object(
+        'start', to_char(window_start, 'HH24:MI'),
+        'end', to_char(window_end, 'HH24:MI')
+      ))
+      ELSE '[]'::jsonb
+    END
+  )
+  FROM unnest(ARRAY['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']) AS day;
+$$ language 'sql' IMMUTABLE;
+
 -- Function to cleanup old data
 CREATE OR REPLACE FUNCTION cleanup_old_data()
 RETURNS void AS $$
@@ -274,12 +387,11 @@ BEGIN
   DELETE FROM call_history
   WHERE created_at < NOW() - INTERVAL '1 year';
 
-  -- Archive old inactive blocked times (could move to archive table)
+  -- Deactivate blocked times whose date range has passed (could move to archive table)
   UPDATE blocked_times
   SET is_active = false
   WHERE is_active = true
-    AND created_at < NOW() - INTERVAL '6 months'
-    AND repeat_type = 'once';
+    AND COALESCE(end_date, CASE WHEN repeat_type = 'once' THEN start_date END) < CURRENT_DATE - 1;
 END;
 $$ language 'plpgsql';
 
@@ -318,6 +430,8 @@ SELECT
 FROM users u
 LEFT JOIN call_history ch ON u.id = ch.user_id
 WHERE u.is_active = true
+  -- Paused users aren't expected to call, so they would only drag the numbers down
+  AND (u.paused_at IS NULL OR u.paused_until <= NOW())
 GROUP BY u.id, u.name, u.daily_call_limit;
 
 -- Create index on materialized view
@@ -346,8 +460,8 @@ CREATE INDEX idx_daily_patterns_hour ON daily_call_patterns (hour_of_day);
 -- ==========================================
 
 -- Note: These would need pg_cron extension enabled
--- Schedule daily reset at midnight UTC
--- SELECT cron.schedule('daily-reset', '0 0 * * *', 'SELECT reset_daily_call_counts();');
+-- Run the daily reset every 15 minutes so every timezone (including :30 and :45 offsets) resets at its own midnight
+-- SELECT cron.schedule('daily-reset', '*/15 * * * *', 'SELECT reset_daily_call_counts();');
 
 -- Schedule weekly cleanup on Sundays at 2 AM UTC
 -- SELECT cron.schedule('weekly-cleanup', '0 2 * * 0', 'SELECT cleanup_old_data();');
@@ -360,10 +474,9 @@ CREATE INDEX idx_daily_patterns_hour ON daily_call_patterns (hour_of_day);
 -- ==========================================
 
 -- No initial data required - users will create their own blocked times
--- Note: For overnight blocks (e.g., sleep from 23:00 to 07:00), users should create two separate blocks:
--- 1. Late Evening: 22:00 - 23:59
--- 2. Early Morning: 00:00 - 08:00
--- This works around the TIME constraint that start_time must be less than end_time
+-- Note: Overnight blocks (e.g., sleep from 23:00 to 07:00) are a single row with
+-- start_time > end_time. A WEEKDAYS sleep block starting Friday 23:00 still
+-- covers Saturday 00:00 - 07:00, because the repeat rule follows the start day.
 
 -- ==========================================
 -- PERFORMANCE ANALYSIS QUERIES
@@ -411,6 +524,7 @@ GRANT ALL ON ALL FUNCTIONS IN SCHEMA public TO authenticated;
 ALTER TABLE users FORCE ROW LEVEL SECURITY;
 ALTER TABLE call_history FORCE ROW LEVEL SECURITY;
 ALTER TABLE blocked_times FORCE ROW LEVEL SECURITY;
+ALTER TABLE date_overrides FORCE ROW LEVEL SECURITY;
 ALTER TABLE schedule_helper FORCE ROW LEVEL SECURITY;
 
 -- ==========================================
@@ -424,6 +538,7 @@ ALTER TABLE schedule_helper FORCE ROW LEVEL SECURITY;
 ANALYZE users;
 ANALYZE call_history;
 ANALYZE blocked_times;
+ANALYZE date_overrides;
 ANALYZE schedule_helper;
 
 -- Final refresh of materialized views
@@ -4,6 +4,7 @@ import { User } from '@/types';
 import { SignInForm } from './SignInForm';
 import { SignUpForm, SignUpFormData } from './SignUpForm';
 import { OnboardingForm, OnboardingFormData } from './OnboardingForm';
+import { summarizeWeeklyAvailability } from '@/features/scheduling/utils/availability';
 
 interface AuthFlowProps {
   onSignIn: (email: string, password: string) => Promise<void>;
@@ -54,11 +55,18 @@ const AuthFlow: React.FC<AuthFlowProps> = ({
         partner_name: data.partnerName,
         partner_phone: data.partnerPhone,
         daily_call_limit: data.dailyCallLimit,
-        active_days: data.activeDays.join(','),
-        morning_start: data.morningStart,
-        evening_end: data.eveningEnd,
+        weekly_call_target: data.weeklyCallTarget,
+        max_silence_days: data.maxSilenceDays,
+        spontaneity_level: data.spontaneityLevel,
+        surprise_mode: data.surpriseMode,
+        ...summarizeWeeklyAvailability(data.weeklyAvailability),
+        weekly_availability: data.weeklyAvailability,
         preferred_platforms: data.preferredPlatforms.join(','),
         timezone: data.timezone,
+        partner_timezone: data.partnerTimezone,
+        partner_morning_start: data.partnerMorningStart,
+        partner_evening_end: data.partnerEveningEnd,
+        partner_active_days: data.partnerActiveDays.join(','),
       });
     } catch (err) {
       // Error is handled by parent
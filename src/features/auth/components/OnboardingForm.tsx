@@ -1,20 +1,49 @@
 import React from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { APP_CONFIG, SpontaneityLevel } from '@/types';
+import { WeeklyAvailabilityEditor } from '@/features/scheduling/components/WeeklyAvailabilityEditor';
+import { migrateLegacyAvailability, validateWeeklyAvailability } from '@/features/scheduling/utils/availability';
+import { SPONTANEITY_OPTIONS } from '@/features/scheduling/utils/spontaneity';
+import { SURPRISE_REVEAL_MINUTES } from '@/features/scheduling/utils/surprise';
 
 const onboardingSchema = z.object({
     name: z.string().min(1, 'Your name is required').max(50, 'Name is too long'),
     partnerName: z.string().min(1, 'Partner name is required').max(50, 'Name is too long'),
     partnerPhone: z.string().optional(),
     dailyCallLimit: z.number().min(1).max(10),
-    activeDays: z.array(z.string()).min(1, 'Select at least one day'),
-    morningStart: z.string(),
-    eveningEnd: z.string(),
+    weeklyCallTarget: z.number().int().min(1, 'Aim for at least one call').max(70).nullable(),
+    maxSilenceDays: z.number().int().min(0).max(14).nullable(),
+    spontaneityLevel: z.enum(SpontaneityLevel),
+    surpriseMode: z.boolean(),
+    weeklyAvailability: z.record(z.string(), z.array(z.object({ start: z.string(), end: z.string() })))
+        .superRefine((value, ctx) => {
+            const problem = validateWeeklyAvailability(value);
+            if (problem) ctx.addIssue({ code: 'custom', message: problem });
+        }),
     preferredPlatforms: z.array(z.string()).min(1, 'Select at least one platform'),
     timezone: z.string(),
+    partnerTimezone: z.string(),
+    partnerMorningStart: z.string(),
+    partnerEveningEnd: z.string(),
+    partnerActiveDays: z.array(z.string()).min(1, 'Select at least one day'),
+}).refine(data => data.partnerMorningStart < data.partnerEveningEnd, {
+    message: "Your partner's day must start before it ends",
+    path: ['partnerEveningEnd'],
+}).refine(data => data.weeklyCallTarget === null || data.weeklyCallTarget <= data.dailyCallLimit * 7, {
+    message: 'More calls than your daily limit allows in a week',
+    path: ['weeklyCallTarget'],
 });
 
+// Empty inputs mean "no target" / "no limit"
+const toOptionalNumber = (value: string | number | null) =>
+    value === '' || value === null ? null : Number(value);
+
+const SILENCE_DAY_OPTIONS = [0, 1, 2, 3, 4, 5, 6, 7];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
 export type OnboardingFormData = z.infer<typeof onboardingSchema>;
 
 interface OnboardingFormProps {
@@ -32,6 +61,7 @@ export const OnboardingForm: React.FC<OnboardingFormProps> = ({
         register,
         handleSubmit,
         watch,
+        control,
         formState: { errors }
     } = useForm<OnboardingFormData>({
         resolver: zodResolver(onboardingSchema),
@@ -40,11 +70,19 @@ export const OnboardingForm: React.FC<OnboardingFormProps> = ({
             partnerName: '',
             partnerPhone: '',
             dailyCallLimit: 3,
-            activeDays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
-            morningStart: '09:00',
-            eveningEnd: '21:00',
+            weeklyCallTarget: null,
+            maxSilenceDays: null,
+            spontaneityLevel: SpontaneityLevel.BALANCED,
+            surpriseMode: false,
+            weeklyAvailability: migrateLegacyAvailability('Mon,Tue,Wed,Thu,Fri,Sat,Sun', '09:00', '21:00'),
             preferredPlatforms: ['phone', 'whatsapp'],
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+            timezone: browserTimezone,
+            partnerTimezone: (APP_CONFIG.SUPPORTED_TIMEZONES as readonly string[]).includes(browserTimezone)
+                ? browserTimezone
+                : 'UTC',
+            partnerMorningStart: '09:00',
+            partnerEveningEnd: '21:00',
+            partnerActiveDays: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
         }
     });
 
@@ -131,54 +169,100 @@ export const OnboardingForm: React.FC<OnboardingFormProps> = ({
                         <div className="grid grid-cols-2 gap-4">
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Morning Start
+                                    Calls per week
                                 </label>
                                 <input
-                                    {...register('morningStart')}
-                                    type="time"
+                                    {...register('weeklyCallTarget', { setValueAs: toOptionalNumber })}
+                                    type="number"
+                                    min="1"
+                                    max="70"
                                     className="form-input"
+                                    placeholder="No target"
                                 />
                             </div>
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Evening End
+                                    Most days without a call
                                 </label>
-                                <input
-                                    {...register('eveningEnd')}
-                                    type="time"
+                                <select
+                                    {...register('maxSilenceDays', { setValueAs: toOptionalNumber })}
                                     className="form-input"
-                                />
+                                >
+                                    <option value="">No limit</option>
+                                    {SILENCE_DAY_OPTIONS.map(days => (
+                                        <option key={days} value={days}>
+                                            {days === 0 ? 'Call every day' : `${days} day${days === 1 ? '' : 's'}`}
+                                        </option>
+                                    ))}
+                                </select>
                             </div>
                         </div>
+                        {errors.weeklyCallTarget && (
+                            <p className="text-red-500 text-xs">
+                                {errors.weeklyCallTarget.message}
+                            </p>
+                        )}
 
-                        {/* Active Days */}
                         <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-2">
-                                Active Days
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Spontaneity
                             </label>
-                            <div className="flex flex-wrap gap-2">
-                                {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map((day) => (
-                                    <label key={day} className="flex items-center">
+                            <div className="space-y-2">
+                                {SPONTANEITY_OPTIONS.map(option => (
+                                    <label
+                                        key={option.level}
+                                        className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50"
+                                    >
                                         <input
-                                            type="checkbox"
-                                            value={day}
-                                            {...register('activeDays')}
-                                            className="sr-only"
+                                            {...register('spontaneityLevel')}
+                                            type="radio"
+                                            value={option.level}
+                                            className="mt-1"
                                         />
-                                        <div className={`
-                      px-3 py-1 rounded-full text-sm font-medium cursor-pointer transition-colors
-                      ${watch('activeDays').includes(day)
-                                                ? 'bg-blue-600 text-white'
-                                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                                            }
-                    `}>
-                                            {day}
-                                        </div>
+                                        <span>
+                                            <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                                            <span className="block text-xs text-gray-500">{option.description}</span>
+                                        </span>
                                     </label>
                                 ))}
                             </div>
                         </div>
 
+                        <label className="flex items-start space-x-3 cursor-pointer">
+                            <input
+                                {...register('surpriseMode')}
+                                type="checkbox"
+                                className="mt-1"
+                            />
+                            <span>
+                                <span className="block text-sm font-medium text-gray-700">Surprise mode</span>
+                                <span className="block text-xs text-gray-500">
+                                    Only show roughly when the next call is, until {SURPRISE_REVEAL_MINUTES} minutes before it
+                                </span>
+                            </span>
+                        </label>
+
+                        {/* Availability */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                When can you take calls?
+                            </label>
+                            <p className="text-xs text-gray-500 mb-3">
+                                Add one or more windows per day, e.g. lunch and evenings.
+                            </p>
+                            <Controller
+                                name="weeklyAvailability"
+                                control={control}
+                                render={({ field, fieldState }) => (
+                                    <WeeklyAvailabilityEditor
+                                        value={field.value}
+                                        onChange={field.onChange}
+                                        error={fieldState.error?.message}
+                                    />
+                                )}
+                            />
+                        </div>
+
                         {/* Platforms */}
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -207,6 +291,90 @@ export const OnboardingForm: React.FC<OnboardingFormProps> = ({
                         </div>
                     </div>
                 </div>
+
+                {/* Partner's Availability */}
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">
+                        Partner's Availability
+                    </h3>
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Partner's Timezone
+                            </label>
+                            <select
+                                {...register('partnerTimezone')}
+                                className="form-input"
+                            >
+                                {APP_CONFIG.SUPPORTED_TIMEZONES.map((timezone) => (
+                                    <option key={timezone} value={timezone}>
+                                        {timezone.replace(/_/g, ' ')}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Wakes Up
+                                </label>
+                                <input
+                                    {...register('partnerMorningStart')}
+                                    type="time"
+                                    className="form-input"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Goes to Bed
+                                </label>
+                                <input
+                                    {...register('partnerEveningEnd')}
+                                    type="time"
+                                    className="form-input"
+                                />
+                            </div>
+                        </div>
+                        {errors.partnerEveningEnd && (
+                            <p className="text-red-500 text-xs">
+                                {errors.partnerEveningEnd.message}
+                            </p>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Partner's Active Days
+                            </label>
+                            <div className="flex flex-wrap gap-2">
+                                {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map((day) => (
+                                    <label key={day} className="flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            value={day}
+                                            {...register('partnerActiveDays')}
+                                            className="sr-only"
+                                        />
+                                        <div className={`
+                      px-3 py-1 rounded-full text-sm font-medium cursor-pointer transition-colors
+                      ${watch('partnerActiveDays').includes(day)
+                                                ? 'bg-blue-600 text-white'
+                                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                            }
+                    `}>
+                                            {day}
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+                            {errors.partnerActiveDays && (
+                                <p className="text-red-500 text-xs mt-1">
+                                    {errors.partnerActiveDays.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                </div>
             </div>
 
             <div className="flex space-x-3 mt-8">
@@ -280,11 +280,22 @@ export function useAuth(): AuthState & AuthActions {
         partner_name: userData.partner_name!,
         partner_phone: userData.partner_phone,
         daily_call_limit: userData.daily_call_limit || 3,
+        weekly_call_target: userData.weekly_call_target ?? null,
+        max_silence_days: userData.max_silence_days ?? null,
+        spontaneity_level: userData.spontaneity_level || 'balanced',
+        surprise_mode: userData.surprise_mode ?? false,
+        missed_call_grace_minutes: userData.missed_call_grace_minutes || 30,
+        missed_call_follow_up: userData.missed_call_follow_up || 'regenerate',
         active_days: userData.active_days || 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
         morning_start: userData.morning_start || '09:00',
         evening_end: userData.evening_end || '21:00',
+        weekly_availability: userData.weekly_availability || null,
         preferred_platforms: userData.preferred_platforms || 'phone,whatsapp',
         timezone: userData.timezone || 'UTC',
+        partner_timezone: userData.partner_timezone || null,
+        partner_morning_start: userData.partner_morning_start || '09:00',
+        partner_evening_end: userData.partner_evening_end || '21:00',
+        partner_active_days: userData.partner_active_days || 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
         is_active: true,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
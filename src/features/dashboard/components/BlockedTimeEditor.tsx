@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { BlockedTime, BlockedTimeForm, BlockRepeatType, APP_CONFIG } from '@/types';
+import { BLOCK_REPEAT_OPTIONS, isFlexibleBlock } from '@/features/scheduling/utils/blockedTimes';
+
+interface BlockedTimeEditorProps {
+    /** The block being edited; a new block when unset */
+    block?: BlockedTime;
+    onSave: (form: BlockedTimeForm) => Promise<void>;
+    onCancel: () => void;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_PRIORITY = 10;
+
+const blockedTimeSchema = z.object({
+    block_name: z.string().trim().min(1, 'Name is required').max(50, 'Name is too long'),
+    start_time: z.string().regex(TIME_PATTERN, 'Pick a start time'),
+    end_time: z.string().regex(TIME_PATTERN, 'Pick an end time'),
+    repeat_type: z.enum(BlockRepeatType),
+    days_of_week: z.array(z.string()),
+    start_date: z.string(),
+    end_date: z.string(),
+    is_active: z.boolean(),
+    priority: z.number().int().min(0).max(MAX_PRIORITY),
+}).refine(data => data.start_time !== data.end_time, {
+    message: 'A block must not start and end at the same time',
+    path: ['end_time'],
+}).refine(data => data.repeat_type !== BlockRepeatType.CUSTOM || data.days_of_week.length > 0, {
+    message: 'Pick at least one day',
+    path: ['days_of_week'],
+}).refine(data => data.repeat_type !== BlockRepeatType.ONCE || !!data.start_date, {
+    message: 'Pick a date',
+    path: ['start_date'],
+}).refine(data => !data.start_date || !data.end_date || data.end_date >= data.start_date, {
+    message: 'The last day must not be before the first',
+    path: ['end_date'],
+});
+
+type BlockedTimeFormData = z.infer<typeof blockedTimeSchema>;
+
+// Postgres TIME columns come back as HH:mm:ss
+const toFormValues = (block?: BlockedTime): BlockedTimeFormData => ({
+    block_name: block?.block_name ?? '',
+    start_time: block?.start_time.slice(0, 5) ?? '09:00',
+    end_time: block?.end_time.slice(0, 5) ?? '17:00',
+    repeat_type: block?.repeat_type ?? BlockRepeatType.WEEKDAYS,
+    days_of_week: block?.days_of_week?.split(',') ?? [],
+    start_date: block?.start_date ?? '',
+    // A one-time block's end date is its own date unless it spans several
+    end_date: block?.end_date && block.end_date !== block.start_date ? block.end_date : '',
+    is_active: block?.is_active ?? true,
+    priority: block?.priority ?? 5,
+});
+
+export const BlockedTimeEditor: React.FC<BlockedTimeEditorProps> = ({
+    block,
+    onSave,
+    onCancel,
+}) => {
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        control,
+        formState: { errors, isSubmitting }
+    } = useForm<BlockedTimeFormData>({
+        resolver: zodResolver(blockedTimeSchema),
+        defaultValues: toFormValues(block),
+    });
+
+    const repeatType = watch('repeat_type');
+    const startTime = watch('start_time');
+    const endTime = watch('end_time');
+    const priority = watch('priority');
+
+    const onSubmit = async (data: BlockedTimeFormData) => {
+        try {
+            setSaveError(null);
+            await onSave({
+                ...data,
+                start_date: data.start_date || undefined,
+                end_date: data.end_date || undefined,
+            });
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : 'Failed to save the block');
+        }
+    };
+
+    return (
+        <form
+            onSubmit={handleSubmit(onSubmit)}
+            className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-4"
+        >
+            <p className="text-sm font-medium text-gray-900">{block ? 'Edit block' : 'New block'}</p>
+
+            <div>
+                <input
+                    {...register('block_name')}
+                    placeholder="Name, e.g. Work"
+                    maxLength={50}
+                    className="form-input"
+                    aria-label="Block name"
+                />
+                {errors.block_name && (
+                    <p className="text-red-500 text-xs mt-1">{errors.block_name.message}</p>
+                )}
+            </div>
+
+            <div>
+                <div className="flex items-center space-x-2">
+                    <input
+                        {...register('start_time')}
+                        type="time"
+                        className="form-input"
+                        aria-label="Blocked from"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                        {...register('end_time')}
+                        type="time"
+                        className="form-input"
+                        aria-label="Blocked until"
+                    />
+                </div>
+                {startTime > endTime && !errors.end_time && (
+                    <p className="text-xs text-gray-500 mt-1">Runs overnight, into the next day</p>
+                )}
+                {(errors.start_time || errors.end_time) && (
+                    <p className="text-red-500 text-xs mt-1">{(errors.start_time ?? errors.end_time)?.message}</p>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Repeats</label>
+                <select {...register('repeat_type')} className="form-input">
+                    {BLOCK_REPEAT_OPTIONS.map(option => (
+                        <option key={option.type} value={option.type}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {repeatType === BlockRepeatType.CUSTOM && (
+                <Controller
+                    name="days_of_week"
+                    control={control}
+                    render={({ field }) => (
+                        <div>
+                            <div className="flex flex-wrap gap-2">
+                                {APP_CONFIG.WEEKDAYS.map(day => {
+                                    const isSelected = field.value.includes(day);
+                                    return (
+                                        <button
+                                            key={day}
+                                            type="button"
+                                            onClick={() => field.onChange(isSelected
+                                                ? field.value.filter(selected => selected !== day)
+                                                : [...field.value, day])}
+                                            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${isSelected
+                                                ? 'bg-blue-600 text-white'
+                                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                                }`}
+                                            aria-pressed={isSelected}
+                                        >
+                                            {day}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            {errors.days_of_week && (
+                                <p className="text-red-500 text-xs mt-1">{errors.days_of_week.message}</p>
+                            )}
+                        </div>
+                    )}
+                />
+            )}
+
+            <div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            {repeatType === BlockRepeatType.ONCE ? 'Date' : 'From (optional)'}
+                        </label>
+                        <input {...register('start_date')} type="date" className="form-input" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Until (optional)</label>
+                        <input {...register('end_date')} type="date" className="form-input" />
+                    </div>
+                </div>
+                {(errors.start_date || errors.end_date) && (
+                    <p className="text-red-500 text-xs mt-1">{(errors.start_date ?? errors.end_date)?.message}</p>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Priority: {priority}
+                </label>
+                <input
+                    {...register('priority', { valueAsNumber: true })}
+                    type="range"
+                    min="0"
+                    max={MAX_PRIORITY}
+                    className="w-full"
+                />
+                <p className="text-xs text-gray-500">
+                    {isFlexibleBlock({ priority })
+                        ? 'Flexible: a call may land here when no other time is free'
+                        : 'Calls never land here'}
+                </p>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input {...register('is_active')} type="checkbox" />
+                <span>Active</span>
+            </label>
+
+            {saveError && (
+                <p className="text-red-500 text-xs">{saveError}</p>
+            )}
+
+            <div className="flex justify-end space-x-3">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="btn-primary text-sm disabled:opacity-50 flex items-center space-x-1"
+                >
+                    {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span>Save</span>
+                </button>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, Pencil, Plus, Trash2 } from 'lucide-react';
+import { BlockedTime, BlockedTimeForm, BlockRepeatType } from '@/types';
+import { describeBlockRepeat, isFlexibleBlock } from '@/features/scheduling/utils/blockedTimes';
+import { BlockedTimeEditor } from './BlockedTimeEditor';
+
+interface BlockedTimesManagerProps {
+    blockedTimes: BlockedTime[];
+    onSave: (form: BlockedTimeForm, blockId?: string) => Promise<BlockedTime>;
+    onToggle: (blockId: string, isActive: boolean) => Promise<void>;
+    onDelete: (blockId: string) => Promise<void>;
+    onRestore: (block: BlockedTime) => Promise<void>;
+}
+
+// How long a deleted block can be brought back
+const UNDO_TIMEOUT_MS = 8000;
+
+// Noon UTC keeps the calendar date stable in any display timezone
+const formatDate = (dateKey: string) =>
+    new Date(`${dateKey}T12:00:00Z`).toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const describeDates = (block: BlockedTime): string | null => {
+    const { start_date: start, end_date: end } = block;
+    if (block.repeat_type === BlockRepeatType.ONCE && start && (!end || end === start)) return formatDate(start);
+    if (start && end) return `${formatDate(start)} – ${formatDate(end)}`;
+    if (start) return `from ${formatDate(start)}`;
+    if (end) return `until ${formatDate(end)}`;
+    return null;
+};
+
+export const BlockedTimesManager: React.FC<BlockedTimesManagerProps> = ({
+    blockedTimes,
+    onSave,
+    onToggle,
+    onDelete,
+    onRestore,
+}) => {
+    // 'new' for the add form, or the id of the block being edited
+    const [editing, setEditing] = useState<string | null>(null);
+    const [deleted, setDeleted] = useState<BlockedTime | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!deleted) return undefined;
+        const timeout = setTimeout(() => setDeleted(null), UNDO_TIMEOUT_MS);
+        return () => clearTimeout(timeout);
+    }, [deleted]);
+
+    const run = async (blockId: string, action: () => Promise<void>) => {
+        try {
+            setBusyId(blockId);
+            setMessage(null);
+            await action();
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Something went wrong');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSave = async (form: BlockedTimeForm) => {
+        await onSave(form, editing === 'new' ? undefined : editing ?? undefined);
+        setEditing(null);
+    };
+
+    const handleDelete = (block: BlockedTime) => run(block.id, async () => {
+        await onDelete(block.id);
+        if (editing === block.id) setEditing(null);
+        setDeleted(block);
+    });
+
+    const handleUndo = async () => {
+        if (!deleted) return;
+        const block = deleted;
+        setDeleted(null);
+        await run(block.id, () => onRestore(block));
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                    <Ban className="w-5 h-5 text-blue-500" />
+                    <h2 className="text-lg font-semibold text-gray-900">Blocked times</h2>
+                </div>
+                {editing !== 'new' && (
+                    <button
+                        onClick={() => setEditing('new')}
+                        className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                        <Plus className="w-4 h-4" />
+                        <span>Add block</span>
+                    </button>
+                )}
+            </div>
+
+            {editing === 'new' && (
+                <BlockedTimeEditor onSave={handleSave} onCancel={() => setEditing(null)} />
+            )}
+
+            {blockedTimes.length === 0 && editing !== 'new' && (
+                <p className="text-sm text-gray-500">
+                    No blocked times yet. Add work hours, commutes or anything else calls should stay clear of.
+                </p>
+            )}
+
+            {blockedTimes.map(block => editing === block.id ? (
+                <BlockedTimeEditor
+                    key={block.id}
+                    block={block}
+                    onSave={handleSave}
+                    onCancel={() => setEditing(null)}
+                />
+            ) : (
+                <div
+                    key={block.id}
+                    className={`bg-white rounded-xl p-4 border border-gray-100 shadow-sm flex items-start justify-between ${block.is_active ? '' : 'opacity-60'}`}
+                >
+                    <div className="min-w-0">
+                        <p className="font-medium text-gray-900 text-sm truncate">{block.block_name}</p>
+                        <p className="text-sm text-gray-600">
+                            {block.start_time.slice(0, 5)}–{block.end_time.slice(0, 5)}
+                            {block.start_time.slice(0, 5) > block.end_time.slice(0, 5) && ' (overnight)'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                            {[describeBlockRepeat(block), describeDates(block)].filter(Boolean).join(' · ')}
+                        </p>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                                Priority {block.priority}
+                            </span>
+                            {isFlexibleBlock(block) && (
+                                <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">
+                                    Flexible
+                                </span>
+                            )}
+                            {!block.is_active && (
+                                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-500">
+                                    Paused
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                        <button
+                            type="button"
+                            role="switch"
+                            aria-checked={block.is_active}
+                            aria-label={`${block.is_active ? 'Pause' : 'Resume'} ${block.block_name}`}
+                            onClick={() => run(block.id, () => onToggle(block.id, !block.is_active))}
+                            disabled={busyId === block.id}
+                            className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out disabled:opacity-50 ${block.is_active ? 'bg-blue-600' : 'bg-gray-200'}`}
+                        >
+                            <span
+                                aria-hidden="true"
+                                className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow transition duration-200 ease-in-out ${block.is_active ? 'translate-x-5' : 'translate-x-0'}`}
+                            />
+                        </button>
+                        <button
+                            onClick={() => setEditing(block.id)}
+                            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                            aria-label={`Edit ${block.block_name}`}
+                        >
+                            <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => handleDelete(block)}
+                            disabled={busyId === block.id}
+                            className="p-2 text-gray-400 hover:text-red-500 rounded-lg disabled:opacity-50"
+                            aria-label={`Delete ${block.block_name}`}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {deleted && (
+                <div className="flex items-center justify-between bg-gray-800 text-white rounded-lg px-4 py-3 text-sm" role="status">
+                    <span className="truncate">Deleted “{deleted.block_name}”</span>
+                    <button onClick={handleUndo} className="font-medium text-blue-300 hover:text-blue-200 ml-4">
+                        Undo
+                    </button>
+                </div>
+            )}
+
+            {message && (
+                <p className="text-sm text-red-600">{message}</p>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { User, Platform } from '@/types';
-import { Phone, Clock, X, Check } from 'lucide-react';
+import { Phone, Clock, X, Check, CalendarClock } from 'lucide-react';
 import { PlatformSelector } from './PlatformSelector';
+import { SnoozePicker } from './SnoozePicker';
 import { format } from 'date-fns';
 
 interface CallInterfaceProps {
@@ -10,7 +11,10 @@ interface CallInterfaceProps {
     scheduledTime: Date;
     preferredPlatforms: Platform[];
     onCallInitiated: (platform: Platform) => void;
-    onSnooze: () => void;
+    /** Snoozes left for this call; at zero it can only be skipped or moved to another day */
+    snoozesLeft: number;
+    onSnooze: (minutes: number) => void;
+    onMoveToAnotherDay: () => void;
     onSkip: () => void;
 }
 
@@ -20,10 +24,13 @@ export const CallInterface: React.FC<CallInterfaceProps> = ({
     scheduledTime,
     preferredPlatforms,
     onCallInitiated,
+    snoozesLeft,
     onSnooze,
+    onMoveToAnotherDay,
     onSkip,
 }) => {
     const [selectedPlatform, setSelectedPlatform] = useState<Platform>(preferredPlatforms[0] || Platform.PHONE);
+    const [showSnoozeOptions, setShowSnoozeOptions] = useState(false);
     const [timeLeft, setTimeLeft] = useState<string>('');
     const [isOverdue, setIsOverdue] = useState(false);
 
@@ -85,14 +92,30 @@ export const CallInterface: React.FC<CallInterfaceProps> = ({
                         <span>Call Now</span>
                     </button>
 
+                    {snoozesLeft === 0 && (
+                        <p className="text-sm text-center text-gray-500">
+                            You've snoozed this call as often as you can. Skip it or move it to another day?
+                        </p>
+                    )}
+
                     <div className="grid grid-cols-2 gap-4">
-                        <button
-                            onClick={onSnooze}
-                            className="flex items-center justify-center space-x-2 py-3 px-4 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-xl font-medium transition-colors"
-                        >
-                            <Clock className="w-5 h-5" />
-                            <span>Snooze</span>
-                        </button>
+                        {snoozesLeft > 0 ? (
+                            <button
+                                onClick={() => setShowSnoozeOptions(!showSnoozeOptions)}
+                                className="flex items-center justify-center space-x-2 py-3 px-4 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-xl font-medium transition-colors"
+                            >
+                                <Clock className="w-5 h-5" />
+                                <span>Snooze</span>
+                            </button>
+                        ) : (
+                            <button
+                                onClick={onMoveToAnotherDay}
+                                className="flex items-center justify-center space-x-2 py-3 px-4 bg-gray-50 hover:bg-gray-100 text-gray-700 rounded-xl font-medium transition-colors"
+                            >
+                                <CalendarClock className="w-5 h-5" />
+                                <span>Another day</span>
+                            </button>
+                        )}
                         <button
                             onClick={onSkip}
                             className="flex items-center justify-center space-x-2 py-3 px-4 bg-gray-50 hover:bg-red-50 text-gray-700 hover:text-red-600 rounded-xl font-medium transition-colors"
@@ -101,6 +124,16 @@ export const CallInterface: React.FC<CallInterfaceProps> = ({
                             <span>Skip</span>
                         </button>
                     </div>
+
+                    {showSnoozeOptions && snoozesLeft > 0 && (
+                        <SnoozePicker
+                            snoozesLeft={snoozesLeft}
+                            onSelect={minutes => {
+                                setShowSnoozeOptions(false);
+                                onSnooze(minutes);
+                            }}
+                        />
+                    )}
                 </div>
             </div>
         </div>
@@ -3,7 +3,7 @@
  * Professional interface for call scheduling and management
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Phone,
   MessageCircle,
@@ -16,13 +16,25 @@ import {
   Calendar,
   TrendingUp,
   User,
-  LogOut
+  LogOut,
+  PauseCircle,
+  Gift
 } from 'lucide-react';
-import { User as UserType, Platform } from '@/types';
+import { User as UserType, Platform, MissedCallFollowUp } from '@/types';
 import { useScheduler } from '@/features/scheduling/hooks/useScheduler';
 import { Settings as SettingsView } from '@/features/profile/components/Settings';
 import { CallInterface } from './CallInterface';
 import { FeedbackModal } from './FeedbackModal';
+import { WeekPlanPreview } from './WeekPlanPreview';
+import { WhyThisTimeSheet } from './WhyThisTimeSheet';
+import { DateOverridesCalendar } from './DateOverridesCalendar';
+import { WeekTimeline } from './WeekTimeline';
+import { BlockedTimesManager } from './BlockedTimesManager';
+import { PauseControls } from './PauseControls';
+import { SnoozePicker } from './SnoozePicker';
+import { getPauseState, getPauseUpdate, getResumeUpdate } from '@/features/scheduling/utils/pause';
+import { SURPRISE_REVEAL_MINUTES, isCallTimeRevealed } from '@/features/scheduling/utils/surprise';
+import { getSnoozeState } from '@/features/scheduling/utils/snooze';
 import { logger } from '@/lib/logger';
 import { platformService } from '@/lib/platform';
 
@@ -46,18 +58,40 @@ const Dashboard: React.FC<DashboardProps> = ({
     nextCallTime,
     timeUntilCall,
     callsToday,
+    callsThisWeek,
     scheduleHelper,
+    weekPlan,
+    decisionTrace,
+    alternatives,
+    dateOverrides,
+    blockedTimes,
+    pause,
+    missedCall,
+    dismissMissedCall,
     generateNextCall,
+    generateWeekPlan,
     markCallAttempted,
     rescheduleCall,
+    moveCallToAnotherDay,
+    chooseAlternative,
     refreshSchedule,
     error: schedulerError,
     clearError: clearSchedulerError,
-    submitFeedback
+    submitFeedback,
+    saveDateOverride,
+    deleteDateOverride,
+    importHolidays,
+    saveBlockedTime,
+    setBlockedTimeActive,
+    deleteBlockedTime,
+    restoreBlockedTime
   } = useScheduler(user);
 
   const [showFeedback, setShowFeedback] = useState(false);
+  const [showWhyThisTime, setShowWhyThisTime] = useState(false);
+  const [showSnoozeOptions, setShowSnoozeOptions] = useState(false);
   const [lastCallId, setLastCallId] = useState<string | null>(null);
+  const isClearingPauseRef = useRef(false);
 
   const handleFeedbackSubmit = async (rating: number, notes: string) => {
     if (!lastCallId) return;
@@ -79,6 +113,52 @@ const Dashboard: React.FC<DashboardProps> = ({
     });
   }, [currentView, user.id, nextCallTime, callsToday]);
 
+  // Clear a pause that has run out; the scheduler picks the next call once the profile updates
+  useEffect(() => {
+    if (!user.paused_at || getPauseState(user).isPaused || isClearingPauseRef.current) return;
+
+    isClearingPauseRef.current = true;
+    onUpdateProfile(getResumeUpdate())
+      .then(() => logger.logUserAction('scheduling_resumed', user.id, { automatic: true }))
+      .catch(error => logger.error('Failed to end pause', {
+        userId: user.id,
+        component: 'Dashboard',
+        action: 'endPause',
+        metadata: { error }
+      }))
+      .finally(() => {
+        isClearingPauseRef.current = false;
+      });
+  }, [user, pause, onUpdateProfile]);
+
+  const handlePause = async (resumeDate: string | null) => {
+    try {
+      await onUpdateProfile(getPauseUpdate(user.timezone, resumeDate));
+      logger.logUserAction('scheduling_paused', user.id, { resumeDate });
+    } catch (error) {
+      logger.error('Failed to pause scheduling', {
+        userId: user.id,
+        component: 'Dashboard',
+        action: 'pauseScheduling',
+        metadata: { error, resumeDate }
+      });
+    }
+  };
+
+  const handleResume = async () => {
+    try {
+      await onUpdateProfile(getResumeUpdate());
+      logger.logUserAction('scheduling_resumed', user.id, { automatic: false });
+    } catch (error) {
+      logger.error('Failed to resume scheduling', {
+        userId: user.id,
+        component: 'Dashboard',
+        action: 'resumeScheduling',
+        metadata: { error }
+      });
+    }
+  };
+
   const handleGenerateCall = async () => {
     try {
       setIsGenerating(true);
@@ -102,6 +182,26 @@ const Dashboard: React.FC<DashboardProps> = ({
     }
   };
 
+  const handleGenerateWeekPlan = async () => {
+    try {
+      setIsGenerating(true);
+      const plan = await generateWeekPlan();
+
+      logger.logUserAction('week_plan_generated', user.id, {
+        slots: plan.slots.length
+      });
+    } catch (error) {
+      logger.error('Failed to generate week plan', {
+        userId: user.id,
+        component: 'Dashboard',
+        action: 'generateWeekPlan',
+        metadata: { error }
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const handleCallNow = async (platform: Platform) => {
     if (!nextCallTime) return;
 
@@ -125,11 +225,6 @@ const Dashboard: React.FC<DashboardProps> = ({
         scheduledTime: nextCallTime.toISOString(),
         partnerName: user.partner_name
       });
-
-      // Generate next call automatically
-      setTimeout(() => {
-        handleGenerateCall();
-      }, 1000);
     } catch (error) {
       logger.error('Failed to initiate call', {
         userId: user.id,
@@ -146,11 +241,6 @@ const Dashboard: React.FC<DashboardProps> = ({
     try {
       await markCallAttempted('skipped');
       logger.logUserAction('call_skipped', user.id);
-
-      // Generate next call
-      setTimeout(() => {
-        handleGenerateCall();
-      }, 500);
     } catch (error) {
       logger.error('Failed to skip call', {
         userId: user.id,
@@ -177,6 +267,37 @@ const Dashboard: React.FC<DashboardProps> = ({
     }
   };
 
+  const handleMoveToAnotherDay = async () => {
+    if (!nextCallTime) return;
+
+    try {
+      await moveCallToAnotherDay();
+      setShowSnoozeOptions(false);
+      logger.logUserAction('call_moved_to_another_day', user.id);
+    } catch (error) {
+      logger.error('Failed to move call to another day', {
+        userId: user.id,
+        component: 'Dashboard',
+        action: 'moveCallToAnotherDay',
+        metadata: { error }
+      });
+    }
+  };
+
+  const handleChooseAlternative = async (time: Date) => {
+    try {
+      await chooseAlternative(time);
+      logger.logUserAction('alternative_chosen', user.id, { chosenTime: time.toISOString() });
+    } catch (error) {
+      logger.error('Failed to choose alternative time', {
+        userId: user.id,
+        component: 'Dashboard',
+        action: 'chooseAlternative',
+        metadata: { error }
+      });
+    }
+  };
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], {
       hour: '2-digit',
@@ -191,7 +312,10 @@ const Dashboard: React.FC<DashboardProps> = ({
     return 'Good evening';
   };
 
-  const isTimeToCall = nextCallTime && new Date() >= new Date(nextCallTime.getTime() - 5 * 60000);
+  const isTimeToCall = nextCallTime && !pause.isPaused && new Date() >= new Date(nextCallTime.getTime() - 5 * 60000);
+  const snooze = getSnoozeState(scheduleHelper);
+  // Surprise mode keeps the exact time to itself until shortly before the call
+  const isTimeRevealed = !nextCallTime || isCallTimeRevealed(user, nextCallTime);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
@@ -220,22 +344,43 @@ const Dashboard: React.FC<DashboardProps> = ({
             </button>
           </div>
 
-          {/* Today's Progress */}
-          <div className="bg-white/10 rounded-lg p-3">
-            <div className="flex items-center justify-between text-sm">
-              <span>Today's calls</span>
-              <span className="font-semibold">
-                {callsToday} / {user.daily_call_limit}
-              </span>
-            </div>
-            <div className="w-full bg-white/20 rounded-full h-2 mt-2">
-              <div
-                className="bg-white h-2 rounded-full transition-all duration-300"
-                style={{
-                  width: `${Math.min(100, (callsToday / user.daily_call_limit) * 100)}%`
-                }}
-              />
+          {/* Today's and This Week's Progress */}
+          <div className="bg-white/10 rounded-lg p-3 space-y-3">
+            <div>
+              <div className="flex items-center justify-between text-sm">
+                <span>Today's calls</span>
+                <span className="font-semibold">
+                  {callsToday} / {user.daily_call_limit}
+                </span>
+              </div>
+              <div className="w-full bg-white/20 rounded-full h-2 mt-2">
+                <div
+                  className="bg-white h-2 rounded-full transition-all duration-300"
+                  style={{
+                    width: `${Math.min(100, (callsToday / user.daily_call_limit) * 100)}%`
+                  }}
+                />
+              </div>
             </div>
+
+            {user.weekly_call_target && (
+              <div>
+                <div className="flex items-center justify-between text-sm">
+                  <span>This week</span>
+                  <span className="font-semibold">
+                    {callsThisWeek} / {user.weekly_call_target}
+                  </span>
+                </div>
+                <div className="w-full bg-white/20 rounded-full h-2 mt-2">
+                  <div
+                    className="bg-white h-2 rounded-full transition-all duration-300"
+                    style={{
+                      width: `${Math.min(100, (callsThisWeek / user.weekly_call_target) * 100)}%`
+                    }}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </header>
 
@@ -247,6 +392,37 @@ const Dashboard: React.FC<DashboardProps> = ({
               onUpdateProfile={onUpdateProfile}
               onSignOut={onSignOut}
             />
+          ) : currentView === 'schedule' ? (
+            <div className="space-y-8">
+              <WeekPlanPreview
+                weekPlan={weekPlan}
+                nextCallTime={nextCallTime}
+                timezone={user.timezone}
+                surpriseMode={!!user.surprise_mode}
+                isNextRevealed={isTimeRevealed}
+                isGenerating={isGenerating}
+                onGeneratePlan={handleGenerateWeekPlan}
+              />
+              <WeekTimeline
+                user={user}
+                blockedTimes={blockedTimes}
+                dateOverrides={dateOverrides}
+              />
+              <BlockedTimesManager
+                blockedTimes={blockedTimes}
+                onSave={saveBlockedTime}
+                onToggle={setBlockedTimeActive}
+                onDelete={deleteBlockedTime}
+                onRestore={restoreBlockedTime}
+              />
+              <DateOverridesCalendar
+                overrides={dateOverrides}
+                timezone={user.timezone}
+                onSave={saveDateOverride}
+                onDelete={deleteDateOverride}
+                onImportHolidays={importHolidays}
+              />
+            </div>
           ) : (
             <>
               {/* Error Alert */}
@@ -262,8 +438,49 @@ const Dashboard: React.FC<DashboardProps> = ({
                 </div>
               )}
 
-              {/* Call Interface or Next Call Card */}
-              {nextCallTime && isTimeToCall ? (
+              {/* Missed Call Notice */}
+              {missedCall && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                  <p className="text-amber-800 text-sm">
+                    You missed the call planned for {formatTime(missedCall.scheduledTime)}.{' '}
+                    {missedCall.nudgeTime
+                      ? `We'll remind you once more at ${formatTime(missedCall.nudgeTime)}.`
+                      : missedCall.followUp === MissedCallFollowUp.TOMORROW
+                        ? "We'll try again tomorrow."
+                        : 'A new time has been picked.'}
+                  </p>
+                  <button
+                    onClick={dismissMissedCall}
+                    className="text-amber-700 hover:text-amber-900 text-xs mt-1"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
+
+              {/* Paused Card, Call Interface or Next Call Card */}
+              {pause.isPaused ? (
+                <div className="rounded-2xl p-6 mb-6 text-center bg-gradient-to-r from-gray-500 to-gray-600 text-white">
+                  <PauseCircle className="w-8 h-8 mx-auto mb-3" />
+                  <p className="text-lg mb-2">Calls are paused</p>
+                  <p className="text-sm opacity-75 mb-4">
+                    {pause.until
+                      ? `Scheduling resumes on ${pause.until.toLocaleDateString([], {
+                        weekday: 'long',
+                        month: 'long',
+                        day: 'numeric',
+                        timeZone: user.timezone
+                      })}`
+                      : 'Scheduling resumes when you are ready'}
+                  </p>
+                  <button
+                    onClick={handleResume}
+                    className="bg-white text-gray-700 px-6 py-2 rounded-lg font-medium hover:bg-gray-100 transition-colors"
+                  >
+                    Resume now
+                  </button>
+                </div>
+              ) : nextCallTime && isTimeToCall ? (
                 <div className="mb-6">
                   <CallInterface
                     partnerName={user.partner_name}
@@ -271,7 +488,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                     scheduledTime={nextCallTime}
                     preferredPlatforms={user.preferred_platforms.split(',') as Platform[]}
                     onCallInitiated={handleCallNow}
-                    onSnooze={() => handleLater(15)}
+                    snoozesLeft={snooze.remaining}
+                    onSnooze={handleLater}
+                    onMoveToAnotherDay={handleMoveToAnotherDay}
                     onSkip={handleSkip}
                   />
                 </div>
@@ -282,21 +501,51 @@ const Dashboard: React.FC<DashboardProps> = ({
                 `}>
                   {nextCallTime ? (
                     <>
-                      <Clock className="w-8 h-8 mx-auto mb-3" />
-                      <p className="text-lg opacity-90 mb-1">Next call in</p>
-                      <p className="text-3xl font-bold mb-2">{timeUntilCall}</p>
-                      <p className="text-sm opacity-75">
-                        Scheduled for {formatTime(nextCallTime)}
-                      </p>
-
-                      {/* Quick Actions for Future Call */}
-                      <div className="mt-6 flex justify-center space-x-3">
+                      {isTimeRevealed ? (
+                        <>
+                          <Clock className="w-8 h-8 mx-auto mb-3" />
+                          <p className="text-lg opacity-90 mb-1">Next call in</p>
+                          <p className="text-3xl font-bold mb-2">{timeUntilCall}</p>
+                          <p className="text-sm opacity-75">
+                            Scheduled for {formatTime(nextCallTime)}
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <Gift className="w-8 h-8 mx-auto mb-3" />
+                          <p className="text-lg opacity-90 mb-1">Next call</p>
+                          <p className="text-3xl font-bold mb-2">{timeUntilCall}</p>
+                          <p className="text-sm opacity-75">
+                            The exact time is revealed {SURPRISE_REVEAL_MINUTES} minutes before
+                          </p>
+                        </>
+                      )}
+                      {decisionTrace && isTimeRevealed && (
                         <button
-                          onClick={() => handleLater(30)}
-                          className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors backdrop-blur-sm"
+                          onClick={() => setShowWhyThisTime(true)}
+                          className="mt-2 text-xs underline opacity-75 hover:opacity-100"
                         >
-                          Reschedule
+                          Why this time?
                         </button>
+                      )}
+
+                      {/* Quick Actions for Future Call */}
+                      <div className="mt-6 flex justify-center space-x-3">
+                        {snooze.canSnooze ? (
+                          <button
+                            onClick={() => setShowSnoozeOptions(!showSnoozeOptions)}
+                            className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors backdrop-blur-sm"
+                          >
+                            Reschedule
+                          </button>
+                        ) : (
+                          <button
+                            onClick={handleMoveToAnotherDay}
+                            className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors backdrop-blur-sm"
+                          >
+                            Another day
+                          </button>
+                        )}
                         <button
                           onClick={handleSkip}
                           className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors backdrop-blur-sm"
@@ -304,6 +553,40 @@ const Dashboard: React.FC<DashboardProps> = ({
                           Skip
                         </button>
                       </div>
+
+                      {showSnoozeOptions && snooze.canSnooze && (
+                        <div className="mt-4">
+                          <SnoozePicker
+                            snoozesLeft={snooze.remaining}
+                            onSelect={minutes => {
+                              setShowSnoozeOptions(false);
+                              handleLater(minutes);
+                            }}
+                            onColor
+                          />
+                        </div>
+                      )}
+
+                      {alternatives.length > 0 && isTimeRevealed && (
+                        <div className="mt-4">
+                          <p className="text-xs opacity-75 mb-2">Or pick another time</p>
+                          <div className="flex flex-wrap justify-center gap-2">
+                            {alternatives.map(alternative => (
+                              <button
+                                key={alternative.toISOString()}
+                                onClick={() => handleChooseAlternative(alternative)}
+                                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-full text-xs font-medium transition-colors"
+                              >
+                                {alternative.toLocaleString([], {
+                                  weekday: 'short',
+                                  hour: '2-digit',
+                                  minute: '2-digit'
+                                })}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </>
                   ) : (
                     <>
@@ -324,6 +607,10 @@ const Dashboard: React.FC<DashboardProps> = ({
                 </div>
               )}
 
+              {!pause.isPaused && (
+                <PauseControls timezone={user.timezone} onPause={handlePause} />
+              )}
+
               {/* Quick Stats */}
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
@@ -331,7 +618,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                     <TrendingUp className="w-4 h-4 text-blue-500" />
                     <span className="text-sm font-medium text-gray-600">This Week</span>
                   </div>
-                  <p className="text-2xl font-bold text-gray-900">12</p>
+                  <p className="text-2xl font-bold text-gray-900">{callsThisWeek}</p>
                   <p className="text-xs text-gray-500">Successful calls</p>
                 </div>
 
@@ -430,6 +717,16 @@ const Dashboard: React.FC<DashboardProps> = ({
           </button>
         )}
 
+        {nextCallTime && decisionTrace && isTimeRevealed && (
+          <WhyThisTimeSheet
+            isOpen={showWhyThisTime}
+            onClose={() => setShowWhyThisTime(false)}
+            trace={decisionTrace}
+            scheduledTime={nextCallTime}
+            timezone={user.timezone}
+          />
+        )}
+
         <FeedbackModal
           isOpen={showFeedback}
           onClose={() => setShowFeedback(false)}
@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { CalendarX, ChevronLeft, ChevronRight, Download, Trash2 } from 'lucide-react';
+import { DateOverride, DateOverrideForm, DateOverrideType } from '@/types';
+import { getZonedDateTime } from '@/features/scheduling/utils/zonedTime';
+import { HOLIDAY_COUNTRIES } from '@/features/scheduling/utils/holidays';
+
+interface DateOverridesCalendarProps {
+    overrides: DateOverride[];
+    timezone: string;
+    onSave: (override: DateOverrideForm) => Promise<void>;
+    onDelete: (overrideId: string) => Promise<void>;
+    onImportHolidays: (countryCode: string, year: number) => Promise<number>;
+}
+
+interface OverrideDraft {
+    type: DateOverrideType;
+    allDay: boolean;
+    start: string;
+    end: string;
+    label: string;
+}
+
+const WEEKDAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Noon UTC keeps the calendar date stable in any display timezone
+const formatDate = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${dateKey}T12:00:00Z`).toLocaleDateString([], { ...options, timeZone: 'UTC' });
+
+const toDraft = (override?: DateOverride): OverrideDraft => ({
+    type: override?.override_type ?? DateOverrideType.UNAVAILABLE,
+    allDay: !override?.windows?.length,
+    start: override?.windows?.[0]?.start ?? '09:00',
+    end: override?.windows?.[0]?.end ?? '21:00',
+    label: override?.label ?? '',
+});
+
+export const DateOverridesCalendar: React.FC<DateOverridesCalendarProps> = ({
+    overrides,
+    timezone,
+    onSave,
+    onDelete,
+    onImportHolidays,
+}) => {
+    const today = getZonedDateTime(new Date(), timezone);
+    const [month, setMonth] = useState({ year: today.year, month: today.month });
+    const [selectedDate, setSelectedDate] = useState<string | null>(null);
+    const [draft, setDraft] = useState<OverrideDraft>(toDraft());
+    const [importCountry, setImportCountry] = useState(HOLIDAY_COUNTRIES[0]?.code ?? 'US');
+    const [importYear, setImportYear] = useState(today.year);
+    const [message, setMessage] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const overridesByDate = new Map(overrides.map(override => [override.date, override]));
+    const selectedOverride = selectedDate ? overridesByDate.get(selectedDate) : undefined;
+
+    // Monday-first grid of the visible month
+    const daysInMonth = new Date(Date.UTC(month.year, month.month, 0)).getUTCDate();
+    const leadingBlanks = (new Date(Date.UTC(month.year, month.month - 1, 1)).getUTCDay() + 6) % 7;
+    const dateKeys = Array.from({ length: daysInMonth }, (_, i) => `${month.year}-${pad(month.month)}-${pad(i + 1)}`);
+
+    const shiftMonth = (delta: number) => {
+        const index = month.year * 12 + (month.month - 1) + delta;
+        setMonth({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+    };
+
+    const selectDate = (dateKey: string) => {
+        setSelectedDate(dateKey);
+        setDraft(toDraft(overridesByDate.get(dateKey)));
+        setMessage(null);
+    };
+
+    const run = async (action: () => Promise<void>) => {
+        try {
+            setIsBusy(true);
+            await action();
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Something went wrong');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = () => run(async () => {
+        if (!selectedDate) return;
+        await onSave({
+            date: selectedDate,
+            override_type: draft.type,
+            windows: draft.type === DateOverrideType.AVAILABLE && !draft.allDay
+                ? [{ start: draft.start, end: draft.end }]
+                : undefined,
+            label: draft.label.trim() || undefined,
+        });
+        setSelectedDate(null);
+    });
+
+    const handleDelete = () => run(async () => {
+        if (!selectedOverride) return;
+        await onDelete(selectedOverride.id);
+        setSelectedDate(null);
+    });
+
+    const handleImport = () => run(async () => {
+        const inserted = await onImportHolidays(importCountry, importYear);
+        setMessage(inserted === 0
+            ? 'Those holidays are already on your calendar'
+            : `Added ${inserted} holiday${inserted === 1 ? '' : 's'}`);
+    });
+
+    const getDayClassName = (dateKey: string) => {
+        const override = overridesByDate.get(dateKey);
+        const classes = ['h-10 rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed'];
+
+        if (override?.override_type === DateOverrideType.UNAVAILABLE) {
+            classes.push('bg-red-100 text-red-700 hover:bg-red-200');
+        } else if (override?.override_type === DateOverrideType.AVAILABLE) {
+            classes.push('bg-green-100 text-green-700 hover:bg-green-200');
+        } else {
+            classes.push('text-gray-700 hover:bg-gray-100');
+        }
+
+        if (dateKey === today.dateKey) classes.push('font-bold');
+        if (dateKey === selectedDate) classes.push('ring-2 ring-blue-500');
+
+        return classes.join(' ');
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+                <CalendarX className="w-5 h-5 text-blue-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Days off & exceptions</h2>
+            </div>
+
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+                <div className="flex items-center justify-between mb-3">
+                    <button
+                        onClick={() => shiftMonth(-1)}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                        aria-label="Previous month"
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <p className="text-sm font-medium text-gray-900">
+                        {formatDate(`${month.year}-${pad(month.month)}-01`, { month: 'long', year: 'numeric' })}
+                    </p>
+                    <button
+                        onClick={() => shiftMonth(1)}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                        aria-label="Next month"
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-7 gap-1 text-center">
+                    {WEEKDAY_HEADERS.map(day => (
+                        <span key={day} className="text-xs text-gray-500 pb-1">{day}</span>
+                    ))}
+                    {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+                    {dateKeys.map((dateKey, i) => (
+                        <button
+                            key={dateKey}
+                            onClick={() => selectDate(dateKey)}
+                            disabled={dateKey < today.dateKey}
+                            className={getDayClassName(dateKey)}
+                            title={overridesByDate.get(dateKey)?.label || undefined}
+                        >
+                            {i + 1}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex space-x-4 mt-3 text-xs text-gray-500">
+                    <span className="flex items-center space-x-1">
+                        <span className="w-3 h-3 rounded bg-red-100" />
+                        <span>No calls</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                        <span className="w-3 h-3 rounded bg-green-100" />
+                        <span>Extra availability</span>
+                    </span>
+                </div>
+            </div>
+
+            {selectedDate && (
+                <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-4">
+                    <p className="text-sm font-medium text-gray-900">
+                        {formatDate(selectedDate, { weekday: 'long', month: 'long', day: 'numeric' })}
+                    </p>
+
+                    <div className="flex space-x-2">
+                        {[
+                            { type: DateOverrideType.UNAVAILABLE, label: 'No calls' },
+                            { type: DateOverrideType.AVAILABLE, label: 'Available' },
+                        ].map(option => (
+                            <button
+                                key={option.type}
+                                onClick={() => setDraft(prev => ({ ...prev, type: option.type }))}
+                                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${draft.type === option.type
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                    }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {draft.type === DateOverrideType.AVAILABLE && (
+                        <div className="space-y-2">
+                            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.allDay}
+                                    onChange={(e) => setDraft(prev => ({ ...prev, allDay: e.target.checked }))}
+                                />
+                                <span>All day</span>
+                            </label>
+                            {!draft.allDay && (
+                                <div className="flex items-center space-x-2">
+                                    <input
+                                        type="time"
+                                        value={draft.start}
+                                        onChange={(e) => setDraft(prev => ({ ...prev, start: e.target.value }))}
+                                        className="form-input"
+                                        aria-label="Available from"
+                                    />
+                                    <span className="text-gray-400">–</span>
+                                    <input
+                                        type="time"
+                                        value={draft.end}
+                                        onChange={(e) => setDraft(prev => ({ ...prev, end: e.target.value }))}
+                                        className="form-input"
+                                        aria-label="Available until"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <input
+                        type="text"
+                        value={draft.label}
+                        onChange={(e) => setDraft(prev => ({ ...prev, label: e.target.value }))}
+                        placeholder="Label (optional), e.g. Dentist"
+                        maxLength={100}
+                        className="form-input"
+                    />
+
+                    <div className="flex items-center justify-between">
+                        {selectedOverride ? (
+                            <button
+                                onClick={handleDelete}
+                                disabled={isBusy}
+                                className="flex items-center space-x-1 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                <span>Remove</span>
+                            </button>
+                        ) : <span />}
+                        <div className="flex space-x-3">
+                            <button
+                                onClick={() => setSelectedDate(null)}
+                                className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={isBusy || (draft.type === DateOverrideType.AVAILABLE && !draft.allDay && draft.start >= draft.end)}
+                                className="btn-primary text-sm disabled:opacity-50"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+                <p className="text-sm font-medium text-gray-900">Import public holidays</p>
+                <div className="flex space-x-2">
+                    <select
+                        value={importCountry}
+                        onChange={(e) => setImportCountry(e.target.value)}
+                        className="form-input flex-1"
+                        aria-label="Country"
+                    >
+                        {HOLIDAY_COUNTRIES.map(country => (
+                            <option key={country.code} value={country.code}>{country.name}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={importYear}
+                        onChange={(e) => setImportYear(Number(e.target.value))}
+                        className="form-input w-24"
+                        aria-label="Year"
+                    >
+                        {[today.year, today.year + 1].map(year => (
+                            <option key={year} value={year}>{year}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleImport}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 px-3 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                        <Download className="w-4 h-4" />
+                        <span>Import</span>
+                    </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                    Holidays become days with no calls. Dates you've already set are left as they are.
+                </p>
+            </div>
+
+            {message && (
+                <p className="text-sm text-gray-600">{message}</p>
+            )}
+        </div>
+    );
+};
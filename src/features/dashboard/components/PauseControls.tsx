@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { PauseCircle } from 'lucide-react';
+import { addDaysToDateKey, getZonedDateTime } from '@/features/scheduling/utils/zonedTime';
+
+interface PauseControlsProps {
+    timezone: string;
+    /** Pause until the start of `resumeDate` (YYYY-MM-DD), or indefinitely when null */
+    onPause: (resumeDate: string | null) => Promise<void>;
+}
+
+export const PauseControls: React.FC<PauseControlsProps> = ({
+    timezone,
+    onPause,
+}) => {
+    const tomorrow = addDaysToDateKey(getZonedDateTime(new Date(), timezone).dateKey, 1);
+    const [isOpen, setIsOpen] = useState(false);
+    const [resumeDate, setResumeDate] = useState(addDaysToDateKey(tomorrow, 6));
+    const [isBusy, setIsBusy] = useState(false);
+
+    const handlePause = async (date: string | null) => {
+        try {
+            setIsBusy(true);
+            await onPause(date);
+            setIsOpen(false);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={() => setIsOpen(true)}
+                className="flex items-center justify-center space-x-2 w-full mb-6 text-sm font-medium text-gray-500 hover:text-gray-700"
+            >
+                <PauseCircle className="w-4 h-4" />
+                <span>Taking a break? Pause calls</span>
+            </button>
+        );
+    }
+
+    return (
+        <div className="bg-white rounded-xl p-4 mb-6 border border-gray-100 shadow-sm space-y-3">
+            <p className="text-sm font-medium text-gray-900">Pause calls</p>
+            <p className="text-xs text-gray-500">
+                No calls are scheduled and no reminders are sent while paused.
+            </p>
+
+            <div className="flex items-center space-x-2">
+                <label htmlFor="pause-resume-date" className="text-sm text-gray-700">Resume on</label>
+                <input
+                    id="pause-resume-date"
+                    type="date"
+                    value={resumeDate}
+                    min={tomorrow}
+                    onChange={(e) => setResumeDate(e.target.value)}
+                    className="form-input flex-1"
+                />
+            </div>
+
+            <div className="flex items-center justify-between">
+                <button
+                    onClick={() => setIsOpen(false)}
+                    className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                    Cancel
+                </button>
+                <div className="flex space-x-3">
+                    <button
+                        onClick={() => handlePause(null)}
+                        disabled={isBusy}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                        Until I resume
+                    </button>
+                    <button
+                        onClick={() => handlePause(resumeDate)}
+                        disabled={isBusy || !resumeDate || resumeDate < tomorrow}
+                        className="btn-primary text-sm disabled:opacity-50"
+                    >
+                        Pause
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { SNOOZE_DURATIONS_MINUTES } from '@/features/scheduling/utils/snooze';
+
+interface SnoozePickerProps {
+    snoozesLeft: number;
+    onSelect: (minutes: number) => void;
+    /** Light chips for use on a colored background */
+    onColor?: boolean;
+}
+
+export const SnoozePicker: React.FC<SnoozePickerProps> = ({
+    snoozesLeft,
+    onSelect,
+    onColor = false,
+}) => {
+    const formatDuration = (minutes: number) => (minutes < 60 ? `${minutes} min` : `${minutes / 60} hr`);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap justify-center gap-2">
+                {SNOOZE_DURATIONS_MINUTES.map(minutes => (
+                    <button
+                        key={minutes}
+                        type="button"
+                        onClick={() => onSelect(minutes)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${onColor
+                            ? 'bg-white/20 hover:bg-white/30 text-white'
+                            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                            }`}
+                    >
+                        {formatDuration(minutes)}
+                    </button>
+                ))}
+            </div>
+            <p className={`text-xs text-center ${onColor ? 'opacity-75' : 'text-gray-500'}`}>
+                {snoozesLeft === 1 ? 'Last snooze for this call' : `${snoozesLeft} snoozes left for this call`}
+            </p>
+        </div>
+    );
+};
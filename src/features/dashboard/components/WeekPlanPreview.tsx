@@ -0,0 +1,110 @@
+import React from 'react';
+import { CalendarDays, RefreshCw, Phone } from 'lucide-react';
+import { WeekPlan, APP_CONFIG } from '@/types';
+import { addDaysToDateKey, getPartOfDay, getZonedDateTime } from '@/features/scheduling/utils/zonedTime';
+
+interface WeekPlanPreviewProps {
+    weekPlan: WeekPlan | null;
+    nextCallTime: Date | null;
+    timezone: string;
+    /** Show only the part of the day for calls whose time hasn't been revealed */
+    surpriseMode: boolean;
+    isNextRevealed: boolean;
+    isGenerating: boolean;
+    onGeneratePlan: () => Promise<void>;
+}
+
+export const WeekPlanPreview: React.FC<WeekPlanPreviewProps> = ({
+    weekPlan,
+    nextCallTime,
+    timezone,
+    surpriseMode,
+    isNextRevealed,
+    isGenerating,
+    onGeneratePlan,
+}) => {
+    const today = getZonedDateTime(new Date(), timezone).dateKey;
+    const days = Array.from({ length: APP_CONFIG.WEEK_PLAN_DAYS }, (_, i) => addDaysToDateKey(today, i));
+
+    const formatDay = (dateKey: string, index: number) => {
+        if (index === 0) return 'Today';
+        if (index === 1) return 'Tomorrow';
+        // Noon UTC keeps the calendar date stable in any display timezone
+        return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString([], {
+            weekday: 'long',
+            month: 'short',
+            day: 'numeric',
+            timeZone: 'UTC',
+        });
+    };
+
+    const formatTime = (time: string) =>
+        new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone });
+
+    const formatSlot = (time: string, isNext: boolean) => {
+        if (!surpriseMode || (isNext && isNextRevealed)) return formatTime(time);
+        const partOfDay = getPartOfDay(new Date(time), timezone);
+        return partOfDay.charAt(0).toUpperCase() + partOfDay.slice(1);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                    <CalendarDays className="w-5 h-5 text-blue-500" />
+                    <h2 className="text-lg font-semibold text-gray-900">Your week</h2>
+                </div>
+                <button
+                    onClick={onGeneratePlan}
+                    disabled={isGenerating}
+                    className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                    <RefreshCw className={`w-4 h-4 ${isGenerating ? 'animate-spin' : ''}`} />
+                    <span>{weekPlan ? 'Re-plan week' : 'Plan my week'}</span>
+                </button>
+            </div>
+
+            {!weekPlan ? (
+                <div className="bg-white rounded-xl p-6 border border-gray-100 shadow-sm text-center">
+                    <p className="text-gray-600 text-sm">
+                        Lay out every call for the next {APP_CONFIG.WEEK_PLAN_DAYS} days at once.
+                        Skips and reschedules only re-plan the day they affect.
+                    </p>
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {days.map((day, index) => {
+                        const slots = weekPlan.slots.filter(slot => slot.date === day);
+
+                        return (
+                            <li key={day} className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+                                <p className="text-sm font-medium text-gray-900 mb-2">{formatDay(day, index)}</p>
+                                {slots.length === 0 ? (
+                                    <p className="text-xs text-gray-500">No calls planned</p>
+                                ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                        {slots.map(slot => {
+                                            const isNext = nextCallTime?.toISOString() === slot.time;
+                                            return (
+                                                <span
+                                                    key={slot.time}
+                                                    className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${isNext
+                                                        ? 'bg-blue-600 text-white'
+                                                        : 'bg-blue-50 text-blue-700'
+                                                        }`}
+                                                >
+                                                    <Phone className="w-3 h-3" />
+                                                    <span>{formatSlot(slot.time, isNext)}</span>
+                                                </span>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
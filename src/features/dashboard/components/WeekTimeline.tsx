@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, LayoutList } from 'lucide-react';
+import { User, BlockedTime, DateOverride } from '@/types';
+import { TimelineSpan, getWeekTimeline } from '@/features/scheduling/utils/blockedTimes';
+import { getWeekStartKey } from '@/features/scheduling/utils/cadence';
+import { addDaysToDateKey, formatTimeOfDay, getZonedDateTime } from '@/features/scheduling/utils/zonedTime';
+
+interface WeekTimelineProps {
+    user: User;
+    blockedTimes: BlockedTime[];
+    dateOverrides: DateOverride[];
+}
+
+const DAY_MINUTES = 24 * 60;
+// Each label starts a quarter of the day
+const HOUR_MARKS = [0, 6, 12, 18];
+
+// Noon UTC keeps the calendar date stable in any display timezone
+const formatDate = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${dateKey}T12:00:00Z`).toLocaleDateString([], { ...options, timeZone: 'UTC' });
+
+const getSpanStyle = (span: TimelineSpan): React.CSSProperties => ({
+    left: `${(span.start / DAY_MINUTES) * 100}%`,
+    width: `${((span.end - span.start) / DAY_MINUTES) * 100}%`,
+});
+
+const formatSpan = (span: TimelineSpan) =>
+    `${formatTimeOfDay(span.start)}–${span.end >= DAY_MINUTES ? '24:00' : formatTimeOfDay(span.end)}`;
+
+export const WeekTimeline: React.FC<WeekTimelineProps> = ({
+    user,
+    blockedTimes,
+    dateOverrides,
+}) => {
+    const today = getZonedDateTime(new Date(), user.timezone).dateKey;
+    const [weekStart, setWeekStart] = useState(() => getWeekStartKey(today));
+    const days = getWeekTimeline(user, blockedTimes, dateOverrides, weekStart);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+                <LayoutList className="w-5 h-5 text-blue-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Availability</h2>
+            </div>
+
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+                <div className="flex items-center justify-between mb-3">
+                    <button
+                        onClick={() => setWeekStart(addDaysToDateKey(weekStart, -7))}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                        aria-label="Previous week"
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <p className="text-sm font-medium text-gray-900">
+                        Week of {formatDate(weekStart, { month: 'long', day: 'numeric' })}
+                    </p>
+                    <button
+                        onClick={() => setWeekStart(addDaysToDateKey(weekStart, 7))}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                        aria-label="Next week"
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="flex ml-14 text-[10px] text-gray-400 mb-1">
+                    {HOUR_MARKS.map(hour => (
+                        <span key={hour} className="flex-1">{formatTimeOfDay(hour * 60)}</span>
+                    ))}
+                </div>
+
+                <div className="space-y-2">
+                    {days.map(day => (
+                        <div key={day.date} className="flex items-center">
+                            <span
+                                className={`w-14 text-xs ${day.date === today ? 'font-bold text-gray-900' : 'text-gray-600'}`}
+                                title={day.override?.label || undefined}
+                            >
+                                {day.weekday} {formatDate(day.date, { day: 'numeric' })}
+                                {day.override && <span className="text-blue-500"> *</span>}
+                            </span>
+                            <div className="relative flex-1 h-6 bg-gray-100 rounded overflow-hidden">
+                                {day.available.map(span => (
+                                    <div
+                                        key={`available-${span.start}`}
+                                        className="absolute inset-y-0 bg-green-200"
+                                        style={getSpanStyle(span)}
+                                        title={`Available ${formatSpan(span)}`}
+                                    />
+                                ))}
+                                {day.blocks.map(span => (
+                                    <div
+                                        key={`${span.blockId}-${span.start}`}
+                                        className={`absolute inset-y-1 rounded-sm ${span.flexible ? 'bg-amber-300/80' : 'bg-red-400/80'}`}
+                                        style={getSpanStyle(span)}
+                                        title={`${span.name} ${formatSpan(span)}`}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-gray-500">
+                    <span className="flex items-center space-x-1">
+                        <span className="w-3 h-3 rounded bg-green-200" />
+                        <span>Available</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                        <span className="w-3 h-3 rounded bg-red-400/80" />
+                        <span>Blocked</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                        <span className="w-3 h-3 rounded bg-amber-300/80" />
+                        <span>Flexible block</span>
+                    </span>
+                    {days.some(day => day.override) && (
+                        <span><span className="text-blue-500">*</span> Date override</span>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
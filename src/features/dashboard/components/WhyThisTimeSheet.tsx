@@ -0,0 +1,141 @@
+import React from 'react';
+import { X, HelpCircle, Search, Ban, SlidersHorizontal } from 'lucide-react';
+import { SchedulingTrace, TraceRejection } from '@/types';
+import { ScheduleUtils } from '@/features/scheduling/utils/scheduler';
+
+interface WhyThisTimeSheetProps {
+    isOpen: boolean;
+    onClose: () => void;
+    trace: SchedulingTrace;
+    scheduledTime: Date;
+    timezone: string;
+}
+
+// Keep the sheet readable when a week of blocks was ruled out
+const MAX_WINDOWS_SHOWN = 4;
+
+export const WhyThisTimeSheet: React.FC<WhyThisTimeSheetProps> = ({
+    isOpen,
+    onClose,
+    trace,
+    scheduledTime,
+    timezone,
+}) => {
+    if (!isOpen) return null;
+
+    const formatInstant = (iso: string) =>
+        new Date(iso).toLocaleString([], {
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone: timezone,
+        });
+
+    const formatTime = (iso: string) =>
+        new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone });
+
+    // Group rejections by what caused them so each constraint appears once
+    const rejectionGroups = trace.rejections.reduce<Record<string, TraceRejection[]>>((groups, rejection) => {
+        const key = rejection.constraint;
+        groups[key] = [...(groups[key] || []), rejection];
+        return groups;
+    }, {});
+
+    const failedStrategies = trace.strategies.filter(step => !step.success);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white rounded-t-2xl shadow-xl max-w-md w-full max-h-[80vh] overflow-y-auto animate-in slide-in-from-bottom duration-200">
+                <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                    <div className="flex items-center space-x-2">
+                        <HelpCircle className="w-5 h-5 text-blue-500" />
+                        <h3 className="text-lg font-semibold text-gray-900">Why this time?</h3>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+                        aria-label="Close"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-5">
+                    <div>
+                        <p className="text-2xl font-bold text-gray-900">{formatInstant(scheduledTime.toISOString())}</p>
+                        {trace.strategy && (
+                            <p className="text-sm text-gray-600 mt-1">{ScheduleUtils.describeStrategy(trace.strategy)}</p>
+                        )}
+                        {failedStrategies.length > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                Tried first: {failedStrategies.map(step => ScheduleUtils.describeStrategy(step.strategy).toLowerCase()).join(', ')}
+                            </p>
+                        )}
+                    </div>
+
+                    {trace.windows.length > 0 && (
+                        <section>
+                            <div className="flex items-center space-x-2 mb-2">
+                                <Search className="w-4 h-4 text-green-500" />
+                                <h4 className="text-sm font-medium text-gray-900">Where we looked</h4>
+                            </div>
+                            <ul className="space-y-1">
+                                {trace.windows.slice(0, MAX_WINDOWS_SHOWN).map(window => (
+                                    <li key={window.start} className="text-sm text-gray-600">
+                                        {formatInstant(window.start)} – {formatTime(window.end)}
+                                    </li>
+                                ))}
+                            </ul>
+                            {trace.windows.length > MAX_WINDOWS_SHOWN && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                    and {trace.windows.length - MAX_WINDOWS_SHOWN} more free windows
+                                </p>
+                            )}
+                        </section>
+                    )}
+
+                    {Object.keys(rejectionGroups).length > 0 && (
+                        <section>
+                            <div className="flex items-center space-x-2 mb-2">
+                                <Ban className="w-4 h-4 text-red-500" />
+                                <h4 className="text-sm font-medium text-gray-900">What ruled times out</h4>
+                            </div>
+                            <ul className="space-y-2">
+                                {Object.entries(rejectionGroups).map(([constraint, rejections]) => (
+                                    <li key={constraint} className="text-sm">
+                                        <p className="text-gray-800">
+                                            {ScheduleUtils.describeConstraint(constraint, rejections[0]?.label)}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {rejections.slice(0, MAX_WINDOWS_SHOWN).map(rejection => rejection.end
+                                                ? `${formatInstant(rejection.start)} – ${formatTime(rejection.end)}`
+                                                : formatInstant(rejection.start)
+                                            ).join(' · ')}
+                                            {rejections.length > MAX_WINDOWS_SHOWN && ` · +${rejections.length - MAX_WINDOWS_SHOWN} more`}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+
+                    {trace.relaxations.length > 0 && (
+                        <section>
+                            <div className="flex items-center space-x-2 mb-2">
+                                <SlidersHorizontal className="w-4 h-4 text-amber-500" />
+                                <h4 className="text-sm font-medium text-gray-900">Rules we loosened</h4>
+                            </div>
+                            <ul className="space-y-1">
+                                {trace.relaxations.map(relaxation => (
+                                    <li key={relaxation} className="text-sm text-gray-600">
+                                        {ScheduleUtils.describeConstraint(relaxation)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
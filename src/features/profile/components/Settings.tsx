@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Save, LogOut, Loader2, Bell, BellOff } from 'lucide-react';
-import { User } from '@/types';
+import { User, APP_CONFIG, SpontaneityLevel, MissedCallFollowUp } from '@/types';
 import { notificationManager } from '@/lib/notifications';
+import { WeeklyAvailabilityEditor } from '@/features/scheduling/components/WeeklyAvailabilityEditor';
+import { getWeeklyAvailability, summarizeWeeklyAvailability, validateWeeklyAvailability } from '@/features/scheduling/utils/availability';
+import { SPONTANEITY_OPTIONS } from '@/features/scheduling/utils/spontaneity';
+import { SURPRISE_REVEAL_MINUTES } from '@/features/scheduling/utils/surprise';
+import {
+    DEFAULT_MISSED_CALL_GRACE_MINUTES,
+    MISSED_CALL_FOLLOW_UP_OPTIONS,
+    MISSED_CALL_GRACE_OPTIONS
+} from '@/features/scheduling/utils/missedCall';
 
 const PushToggle: React.FC<{ userId: string }> = ({ userId }) => {
     const [isEnabled, setIsEnabled] = useState(false);
@@ -67,16 +76,40 @@ const PushToggle: React.FC<{ userId: string }> = ({ userId }) => {
     );
 };
 
+// Empty inputs mean "no target" / "no limit"
+const toOptionalNumber = (value: string | number | null) =>
+    value === '' || value === null ? null : Number(value);
+
+const SILENCE_DAY_OPTIONS = [0, 1, 2, 3, 4, 5, 6, 7];
+
 const settingsSchema = z.object({
     name: z.string().min(1, 'Name is required').max(50, 'Name is too long'),
     partnerName: z.string().min(1, 'Partner name is required').max(50, 'Name is too long'),
     partnerPhone: z.string().optional(),
     dailyCallLimit: z.number().min(1).max(10),
-    activeDays: z.array(z.string()).min(1, 'Select at least one day'),
-    morningStart: z.string(),
-    eveningEnd: z.string(),
+    weeklyCallTarget: z.number().int().min(1, 'Aim for at least one call').max(70).nullable(),
+    maxSilenceDays: z.number().int().min(0).max(14).nullable(),
+    spontaneityLevel: z.enum(SpontaneityLevel),
+    surpriseMode: z.boolean(),
+    missedCallGraceMinutes: z.number().int().min(5).max(240),
+    missedCallFollowUp: z.enum(MissedCallFollowUp),
+    weeklyAvailability: z.record(z.string(), z.array(z.object({ start: z.string(), end: z.string() })))
+        .superRefine((value, ctx) => {
+            const problem = validateWeeklyAvailability(value);
+            if (problem) ctx.addIssue({ code: 'custom', message: problem });
+        }),
     preferredPlatforms: z.array(z.string()).min(1, 'Select at least one platform'),
     timezone: z.string(),
+    partnerTimezone: z.string(),
+    partnerMorningStart: z.string(),
+    partnerEveningEnd: z.string(),
+    partnerActiveDays: z.array(z.string()).min(1, 'Select at least one day'),
+}).refine(data => data.partnerMorningStart < data.partnerEveningEnd, {
+    message: "Your partner's day must start before it ends",
+    path: ['partnerEveningEnd'],
+}).refine(data => data.weeklyCallTarget === null || data.weeklyCallTarget <= data.dailyCallLimit * 7, {
+    message: 'More calls than your daily limit allows in a week',
+    path: ['weeklyCallTarget'],
 });
 
 type SettingsFormData = z.infer<typeof settingsSchema>;
@@ -99,6 +132,7 @@ export const Settings: React.FC<SettingsProps> = ({
         register,
         handleSubmit,
         watch,
+        control,
         formState: { errors, isDirty }
     } = useForm<SettingsFormData>({
         resolver: zodResolver(settingsSchema),
@@ -107,11 +141,20 @@ export const Settings: React.FC<SettingsProps> = ({
             partnerName: user.partner_name,
             partnerPhone: user.partner_phone || '',
             dailyCallLimit: user.daily_call_limit,
-            activeDays: user.active_days.split(','),
-            morningStart: user.morning_start,
-            eveningEnd: user.evening_end,
+            weeklyCallTarget: user.weekly_call_target ?? null,
+            maxSilenceDays: user.max_silence_days ?? null,
+            spontaneityLevel: user.spontaneity_level ?? SpontaneityLevel.BALANCED,
+            surpriseMode: user.surprise_mode ?? false,
+            missedCallGraceMinutes: user.missed_call_grace_minutes ?? DEFAULT_MISSED_CALL_GRACE_MINUTES,
+            missedCallFollowUp: user.missed_call_follow_up ?? MissedCallFollowUp.REGENERATE,
+            weeklyAvailability: getWeeklyAvailability(user),
             preferredPlatforms: user.preferred_platforms.split(','),
             timezone: user.timezone,
+            partnerTimezone: user.partner_timezone || '',
+            // Postgres TIME columns come back as HH:mm:ss
+            partnerMorningStart: (user.partner_morning_start || '09:00').slice(0, 5),
+            partnerEveningEnd: (user.partner_evening_end || '21:00').slice(0, 5),
+            partnerActiveDays: (user.partner_active_days || 'Mon,Tue,Wed,Thu,Fri,Sat,Sun').split(','),
         }
     });
 
@@ -125,11 +168,20 @@ export const Settings: React.FC<SettingsProps> = ({
                 partner_name: data.partnerName,
                 partner_phone: data.partnerPhone || undefined,
                 daily_call_limit: data.dailyCallLimit,
-                active_days: data.activeDays.join(','),
-                morning_start: data.morningStart,
-                evening_end: data.eveningEnd,
+                weekly_call_target: data.weeklyCallTarget,
+                max_silence_days: data.maxSilenceDays,
+                spontaneity_level: data.spontaneityLevel,
+                surprise_mode: data.surpriseMode,
+                missed_call_grace_minutes: data.missedCallGraceMinutes,
+                missed_call_follow_up: data.missedCallFollowUp,
+                ...summarizeWeeklyAvailability(data.weeklyAvailability),
+                weekly_availability: data.weeklyAvailability,
                 preferred_platforms: data.preferredPlatforms.join(','),
                 timezone: data.timezone,
+                partner_timezone: data.partnerTimezone || null,
+                partner_morning_start: data.partnerMorningStart,
+                partner_evening_end: data.partnerEveningEnd,
+                partner_active_days: data.partnerActiveDays.join(','),
             });
 
             setSaveMessage({ type: 'success', text: 'Settings saved successfully' });
@@ -234,29 +286,183 @@ export const Settings: React.FC<SettingsProps> = ({
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Morning Start
+                                Calls per week
+                            </label>
+                            <input
+                                {...register('weeklyCallTarget', { setValueAs: toOptionalNumber })}
+                                type="number"
+                                min="1"
+                                max="70"
+                                className="form-input"
+                                placeholder="No target"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Most days without a call
+                            </label>
+                            <select
+                                {...register('maxSilenceDays', { setValueAs: toOptionalNumber })}
+                                className="form-input"
+                            >
+                                <option value="">No limit</option>
+                                {SILENCE_DAY_OPTIONS.map(days => (
+                                    <option key={days} value={days}>
+                                        {days === 0 ? 'Call every day' : `${days} day${days === 1 ? '' : 's'}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    {errors.weeklyCallTarget && (
+                        <p className="text-red-500 text-xs">{errors.weeklyCallTarget.message}</p>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Spontaneity
+                        </label>
+                        <div className="space-y-2">
+                            {SPONTANEITY_OPTIONS.map(option => (
+                                <label
+                                    key={option.level}
+                                    className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50"
+                                >
+                                    <input
+                                        {...register('spontaneityLevel')}
+                                        type="radio"
+                                        value={option.level}
+                                        className="mt-1"
+                                    />
+                                    <span>
+                                        <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                                        <span className="block text-xs text-gray-500">{option.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <label className="flex items-start space-x-3 cursor-pointer">
+                        <input
+                            {...register('surpriseMode')}
+                            type="checkbox"
+                            className="mt-1"
+                        />
+                        <span>
+                            <span className="block text-sm font-medium text-gray-700">Surprise mode</span>
+                            <span className="block text-xs text-gray-500">
+                                Only show roughly when the next call is, until {SURPRISE_REVEAL_MINUTES} minutes before it
+                            </span>
+                        </span>
+                    </label>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Missed after
+                            </label>
+                            <select
+                                {...register('missedCallGraceMinutes', { valueAsNumber: true })}
+                                className="form-input"
+                            >
+                                {MISSED_CALL_GRACE_OPTIONS.map(minutes => (
+                                    <option key={minutes} value={minutes}>
+                                        {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                After a missed call
+                            </label>
+                            <select
+                                {...register('missedCallFollowUp')}
+                                className="form-input"
+                            >
+                                {MISSED_CALL_FOLLOW_UP_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Availability
+                        </label>
+                        <p className="text-xs text-gray-500 mb-3">
+                            Calls are only scheduled inside these windows, in your timezone.
+                        </p>
+                        <Controller
+                            name="weeklyAvailability"
+                            control={control}
+                            render={({ field, fieldState }) => (
+                                <WeeklyAvailabilityEditor
+                                    value={field.value}
+                                    onChange={field.onChange}
+                                    error={fieldState.error?.message}
+                                />
+                            )}
+                        />
+                    </div>
+                </section>
+
+                {/* Partner's Availability */}
+                <section className="space-y-4">
+                    <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider">
+                        Partner's Availability
+                    </h3>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Partner's Timezone
+                        </label>
+                        <select
+                            {...register('partnerTimezone')}
+                            className="form-input"
+                        >
+                            <option value="">Not set (don't check their hours)</option>
+                            {APP_CONFIG.SUPPORTED_TIMEZONES.map((timezone) => (
+                                <option key={timezone} value={timezone}>
+                                    {timezone.replace(/_/g, ' ')}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Wakes Up
                             </label>
                             <input
-                                {...register('morningStart')}
+                                {...register('partnerMorningStart')}
                                 type="time"
                                 className="form-input"
                             />
                         </div>
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Evening End
+                                Goes to Bed
                             </label>
                             <input
-                                {...register('eveningEnd')}
+                                {...register('partnerEveningEnd')}
                                 type="time"
                                 className="form-input"
                             />
                         </div>
                     </div>
+                    {errors.partnerEveningEnd && (
+                        <p className="text-red-500 text-xs">{errors.partnerEveningEnd.message}</p>
+                    )}
 
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Active Days
+                            Partner's Active Days
                         </label>
                         <div className="flex flex-wrap gap-2">
                             {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map((day) => (
@@ -264,12 +470,12 @@ export const Settings: React.FC<SettingsProps> = ({
                                     <input
                                         type="checkbox"
                                         value={day}
-                                        {...register('activeDays')}
+                                        {...register('partnerActiveDays')}
                                         className="sr-only"
                                     />
                                     <div className={`
                     px-3 py-1 rounded-full text-sm font-medium cursor-pointer transition-colors
-                    ${watch('activeDays').includes(day)
+                    ${watch('partnerActiveDays').includes(day)
                                             ? 'bg-blue-600 text-white'
                                             : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                                         }
@@ -279,8 +485,8 @@ export const Settings: React.FC<SettingsProps> = ({
                                 </label>
                             ))}
                         </div>
-                        {errors.activeDays && (
-                            <p className="text-red-500 text-xs mt-1">{errors.activeDays.message}</p>
+                        {errors.partnerActiveDays && (
+                            <p className="text-red-500 text-xs mt-1">{errors.partnerActiveDays.message}</p>
                         )}
                     </div>
                 </section>
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Plus, X, Copy } from 'lucide-react';
+import { AvailabilityWindow, WeeklyAvailability, APP_CONFIG } from '@/types';
+import { formatTimeOfDay, parseTimeOfDay } from '@/features/scheduling/utils/zonedTime';
+
+interface WeeklyAvailabilityEditorProps {
+    value: WeeklyAvailability;
+    onChange: (value: WeeklyAvailability) => void;
+    error?: string;
+}
+
+const FIRST_WINDOW: AvailabilityWindow = { start: '09:00', end: '21:00' };
+const LAST_MINUTE = 23 * 60 + 59;
+
+/**
+ * A new window an hour after the day's last one, so it doesn't start out overlapping
+ */
+const getNextWindow = (windows: AvailabilityWindow[]): AvailabilityWindow | null => {
+    const last = windows[windows.length - 1];
+    if (!last) return FIRST_WINDOW;
+
+    const start = parseTimeOfDay(last.end) + 60;
+    if (start >= LAST_MINUTE) return null;
+    return { start: formatTimeOfDay(start), end: formatTimeOfDay(Math.min(start + 60, LAST_MINUTE)) };
+};
+
+export const WeeklyAvailabilityEditor: React.FC<WeeklyAvailabilityEditorProps> = ({
+    value,
+    onChange,
+    error,
+}) => {
+    const setDay = (day: string, windows: AvailabilityWindow[]) => {
+        onChange({ ...value, [day]: windows });
+    };
+
+    const updateWindow = (day: string, index: number, changes: Partial<AvailabilityWindow>) => {
+        setDay(day, (value[day] ?? []).map((window, i) => (i === index ? { ...window, ...changes } : window)));
+    };
+
+    const copyToAllDays = (day: string) => {
+        const windows = value[day] ?? [];
+        onChange(Object.fromEntries(
+            APP_CONFIG.WEEKDAYS.map(weekday => [weekday, windows.map(window => ({ ...window }))])
+        ));
+    };
+
+    return (
+        <div className="space-y-3">
+            {APP_CONFIG.WEEKDAYS.map((day) => {
+                const windows = value[day] ?? [];
+                const nextWindow = getNextWindow(windows);
+
+                return (
+                    <div key={day} className="flex items-start space-x-3">
+                        <span className="w-10 pt-2 text-sm font-medium text-gray-700">{day}</span>
+                        <div className="flex-1 space-y-2">
+                            {windows.length === 0 && (
+                                <p className="pt-2 text-xs text-gray-500">No calls</p>
+                            )}
+                            {windows.map((window, index) => (
+                                <div key={index} className="flex items-center space-x-2">
+                                    <input
+                                        type="time"
+                                        value={window.start}
+                                        onChange={(e) => updateWindow(day, index, { start: e.target.value })}
+                                        className="form-input"
+                                        aria-label={`${day} window ${index + 1} start`}
+                                    />
+                                    <span className="text-gray-400">–</span>
+                                    <input
+                                        type="time"
+                                        value={window.end}
+                                        onChange={(e) => updateWindow(day, index, { end: e.target.value })}
+                                        className="form-input"
+                                        aria-label={`${day} window ${index + 1} end`}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setDay(day, windows.filter((_, i) => i !== index))}
+                                        className="p-2 text-gray-400 hover:text-red-500 rounded-lg"
+                                        aria-label={`Remove ${day} window ${index + 1}`}
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                            <div className="flex space-x-4">
+                                {nextWindow && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setDay(day, [...windows, nextWindow])}
+                                        className="flex items-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                                    >
+                                        <Plus className="w-3 h-3" />
+                                        <span>Add window</span>
+                                    </button>
+                                )}
+                                {windows.length > 0 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => copyToAllDays(day)}
+                                        className="flex items-center space-x-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+                                    >
+                                        <Copy className="w-3 h-3" />
+                                        <span>Copy to all days</span>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+            {error && (
+                <p className="text-red-500 text-xs">{error}</p>
+            )}
+        </div>
+    );
+};
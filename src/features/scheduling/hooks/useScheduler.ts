@@ -4,65 +4,182 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { User, ScheduleHelper, BlockedTime, SchedulingResult, CallHistory } from '@/types';
+import {
+  User,
+  ScheduleHelper,
+  BlockedTime,
+  BlockedTimeForm,
+  SchedulingResult,
+  SchedulingStrategy,
+  SchedulingTrace,
+  CallHistory,
+  CallGenerationOptions,
+  DateOverride,
+  DateOverrideForm,
+  DateOverrideType,
+  WeekPlan,
+  CallStatus,
+  MissedCallFollowUp
+} from '@/types';
 import { CallScheduler, createScheduler, ScheduleUtils } from '@/features/scheduling/utils/scheduler';
+import { buildTimePreferenceModel } from '@/features/scheduling/utils/preferences';
+import { getCadenceAdaptation } from '@/features/scheduling/utils/adaptation';
+import { getNextLocalMidnight, getZonedDateTime } from '@/features/scheduling/utils/zonedTime';
+import { getCallsToday, getDailyResetUpdate, getLocalDateKey, needsDailyReset } from '@/features/scheduling/utils/dailyReset';
+import { countCallsThisWeek, getWeekStartKey } from '@/features/scheduling/utils/cadence';
+import { getPublicHolidays } from '@/features/scheduling/utils/holidays';
+import { PauseState, getPauseState } from '@/features/scheduling/utils/pause';
+import { getCallTimeDisplay, isCallTimeRevealed } from '@/features/scheduling/utils/surprise';
+import { getMissedCallDeadline } from '@/features/scheduling/utils/missedCall';
+import { getSnoozeEntry, getSnoozeState } from '@/features/scheduling/utils/snooze';
+import { NextCallInput, getUpcomingSlots, lineUpNextCall, planNextCall } from '@/features/scheduling/utils/nextCall';
+import { getBlockedTimeFields, sortBlockedTimes } from '@/features/scheduling/utils/blockedTimes';
 import { db } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { notificationManager } from '@/lib/notifications';
 import { AppError, ValidationError } from '@/types';
 
 interface SchedulerState {
   nextCallTime: Date | null;
+  /** Countdown to the next call, or only a rough window while surprise mode hides it */
   timeUntilCall: string;
   callsToday: number;
+  /** Completed calls in the user's current local week (Mon–Sun) */
+  callsThisWeek: number;
   isGenerating: boolean;
   isLoading: boolean;
   error: string | null;
   scheduleHelper: ScheduleHelper | null;
+  /** Every block, paused ones included; the scheduler skips those */
   blockedTimes: BlockedTime[];
   lastGenerated: Date | null;
+  weekPlan: WeekPlan | null;
+  /** Why the current next call time was chosen; only known for times generated this session */
+  decisionTrace: SchedulingTrace | null;
+  /** Other valid times offered alongside the current next call */
+  alternatives: Date[];
+  /** Date-specific exceptions to the weekly availability, soonest first */
+  dateOverrides: DateOverride[];
+  /** Whether scheduling is paused; a dated pause flips back on its own when it ends */
+  pause: PauseState;
+  /** The last call that went by without the user acting on it, until dismissed */
+  missedCall: MissedCall | null;
 }
 
+interface MissedCall {
+  scheduledTime: Date;
+  followUp: MissedCallFollowUp;
+  /** When the single reminder for it is due, for a nudge */
+  nudgeTime: Date | null;
+}
+
+// Recent history the preference model learns from
+const PREFERENCE_HISTORY_LIMIT = 200;
+
+// Times taken from a week plan were chosen when the plan was built
+const WEEK_PLAN_TRACE: SchedulingTrace = {
+  strategy: SchedulingStrategy.WEEK_PLAN,
+  strategies: [],
+  windows: [],
+  rejections: [],
+  relaxations: []
+};
+
+const NOT_PAUSED: PauseState = { isPaused: false, until: null };
+
+// setTimeout fires immediately past ~24.8 days, so longer pauses are re-checked in steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 interface SchedulerActions {
   generateNextCall: () => Promise<SchedulingResult>;
+  generateWeekPlan: () => Promise<WeekPlan>;
+  /** Record the attempt and move on to the next call: the plan's next slot, or a newly generated one */
   markCallAttempted: (status: 'called' | 'skipped' | 'later', platform?: string) => Promise<string | null>;
   rescheduleCall: (delayMinutes: number) => Promise<void>;
+  moveCallToAnotherDay: () => Promise<void>;
+  chooseAlternative: (time: Date) => Promise<void>;
   refreshSchedule: () => Promise<void>;
   validateCallTime: (time: Date) => Promise<boolean>;
   clearError: () => void;
   submitFeedback: (callId: string, rating: number, notes?: string) => Promise<void>;
+  saveDateOverride: (override: DateOverrideForm) => Promise<void>;
+  deleteDateOverride: (overrideId: string) => Promise<void>;
+  importHolidays: (countryCode: string, year: number) => Promise<number>;
+  /** Add a block, or update it when an id is given */
+  saveBlockedTime: (form: BlockedTimeForm, blockId?: string) => Promise<BlockedTime>;
+  setBlockedTimeActive: (blockId: string, isActive: boolean) => Promise<void>;
+  deleteBlockedTime: (blockId: string) => Promise<void>;
+  /** Add a deleted block back, for undo */
+  restoreBlockedTime: (block: BlockedTime) => Promise<void>;
+  dismissMissedCall: () => void;
 }
 
+const sortOverrides = (overrides: DateOverride[]) =>
+  [...overrides].sort((a, b) => a.date.localeCompare(b.date));
+
 export function useScheduler(user: User | null): SchedulerState & SchedulerActions {
   const [state, setState] = useState<SchedulerState>({
     nextCallTime: null,
     timeUntilCall: '',
     callsToday: 0,
+    callsThisWeek: 0,
     isGenerating: false,
     isLoading: false,
     error: null,
     scheduleHelper: null,
     blockedTimes: [],
     lastGenerated: null,
+    weekPlan: null,
+    decisionTrace: null,
+    alternatives: [],
+    dateOverrides: [],
+    pause: NOT_PAUSED,
+    missedCall: null,
   });
 
   const schedulerRef = useRef<CallScheduler | null>(null);
+  // Options the current scheduler was built with, so one kind of input can change without losing the others
+  const schedulerOptionsRef = useRef<Partial<CallGenerationOptions>>({ logger });
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Whether the last profile seen had a pause recorded, ended or not
+  const hadPauseRef = useRef(false);
+  // Local Monday that callsThisWeek was counted for
+  const weekStartRef = useRef<string | null>(null);
+  // Call whose surprise time has already been revealed, so the reveal only notifies once
+  const revealedCallRef = useRef<number | null>(null);
+  // Recent call history the scheduler last learned from
+  const historyRef = useRef<CallHistory[]>([]);
 
   // Initialize scheduler when user changes
   useEffect(() => {
+    schedulerOptionsRef.current = { logger };
+
     if (user) {
-      schedulerRef.current = createScheduler(user);
-      loadInitialData();
+      // A pause that was just lifted (resumed, or cleared after running out) schedules the next call
+      const resuming = hadPauseRef.current && !user.paused_at;
+      hadPauseRef.current = !!user.paused_at;
+
+      schedulerRef.current = createScheduler(user, schedulerOptionsRef.current);
+      setState(prev => ({ ...prev, pause: getPauseState(user) }));
+      loadInitialData(resuming);
     } else {
+      hadPauseRef.current = false;
       schedulerRef.current = null;
       setState(prev => ({
         ...prev,
         nextCallTime: null,
         timeUntilCall: '',
         callsToday: 0,
+        callsThisWeek: 0,
         scheduleHelper: null,
         blockedTimes: [],
         lastGenerated: null,
+        weekPlan: null,
+        decisionTrace: null,
+        alternatives: [],
+        dateOverrides: [],
+        pause: NOT_PAUSED,
+        missedCall: null,
       }));
     }
 
@@ -73,6 +190,10 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
     };
   }, [user]);
 
+  const surpriseMode = user?.surprise_mode ?? false;
+  const timezone = user?.timezone ?? 'UTC';
+  const partnerName = user?.partner_name;
+
   // Setup countdown timer
   useEffect(() => {
     if (countdownIntervalRef.current) {
@@ -80,12 +201,34 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
     }
 
     if (state.nextCallTime) {
+      const updateCountdown = () => {
+        const now = new Date();
+        const display = getCallTimeDisplay({ surprise_mode: surpriseMode, timezone }, state.nextCallTime!, now);
+        setState(prev => ({ ...prev, timeUntilCall: display.label }));
+
+        // In surprise mode the reveal is the reminder
+        if (surpriseMode && display.isRevealed && !state.pause.isPaused && state.nextCallTime! > now
+          && revealedCallRef.current !== state.nextCallTime!.getTime()) {
+          revealedCallRef.current = state.nextCallTime!.getTime();
+          const time = state.nextCallTime!.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone });
+          void notificationManager.showLocalNotification(`Call ${partnerName} at ${time}`, 'Your surprise call time is here');
+
+          logger.info('Call time revealed', {
+            userId: user?.id,
+            component: 'useScheduler',
+            action: 'revealCallTime',
+            metadata: { scheduledTime: state.nextCallTime!.toISOString() }
+          });
+        }
+      };
+
+      // Run once right away so a hidden time is never shown as a countdown first
+      updateCountdown();
       countdownIntervalRef.current = setInterval(() => {
-        const timeUntil = ScheduleUtils.getTimeUntilCall(state.nextCallTime!);
-        setState(prev => ({ ...prev, timeUntilCall: timeUntil }));
+        updateCountdown();
 
-        // Check if it's time to call
-        if (ScheduleUtils.isTimeToCall(state.nextCallTime!)) {
+        // Check if it's time to call; reminders stay quiet during a pause
+        if (ScheduleUtils.isTimeToCall(state.nextCallTime!) && !state.pause.isPaused) {
           logger.info('Call time reached', {
             userId: user?.id,
             component: 'useScheduler',
@@ -107,31 +250,180 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         clearInterval(countdownIntervalRef.current);
       }
     };
-  }, [state.nextCallTime, user?.id]);
+  }, [state.nextCallTime, state.pause.isPaused, user?.id, surpriseMode, timezone, partnerName]);
+
+  // End a dated pause when its time comes
+  useEffect(() => {
+    const until = state.pause.until;
+    if (!user || !until) return undefined;
+
+    const timeout = setTimeout(() => {
+      setState(prev => ({ ...prev, pause: getPauseState(user) }));
+    }, Math.min(Math.max(0, until.getTime() - Date.now()), MAX_TIMEOUT_MS));
+
+    return () => clearTimeout(timeout);
+  }, [user, state.pause]);
+
+  const rebuildScheduler = useCallback((changes: Partial<CallGenerationOptions>) => {
+    if (!user) return;
+
+    schedulerOptionsRef.current = { ...schedulerOptionsRef.current, ...changes };
+    schedulerRef.current = createScheduler(user, schedulerOptionsRef.current);
+  }, [user]);
+
+  // Rebuild the scheduler so slot selection and cadence follow the latest call history
+  const applyLearnedPreferences = useCallback((history: CallHistory[]) => {
+    if (!user) return;
+
+    historyRef.current = history;
+    const preferences = buildTimePreferenceModel(history, user.timezone);
+    const adaptation = getCadenceAdaptation(history, user.daily_call_limit);
+    rebuildScheduler({ preferences, adaptation });
+
+    logger.debug('Time preferences learned', {
+      userId: user.id,
+      component: 'useScheduler',
+      action: 'learnPreferences',
+      metadata: {
+        sampleSize: preferences.sampleSize,
+        buckets: Object.keys(preferences.buckets).length,
+        adaptation
+      }
+    });
+  }, [user, rebuildScheduler]);
+
+  // What the shared planner needs, from what the hook has loaded
+  const getPlannerInput = useCallback((
+    user: User,
+    scheduleHelper: ScheduleHelper,
+    blockedTimes: BlockedTime[],
+    now: Date
+  ): NextCallInput => ({
+    user,
+    scheduleHelper,
+    blockedTimes,
+    dateOverrides: schedulerOptionsRef.current.dateOverrides ?? [],
+    history: historyRef.current,
+    now,
+    logger
+  }), []);
+
+  // Record a due call the user never acted on as failed and line up the follow-up their policy asks for.
+  // Returns null while the call is still within its grace period.
+  const resolveMissedCall = useCallback(async (
+    scheduleHelper: ScheduleHelper,
+    blockedTimes: BlockedTime[],
+    now: Date = new Date()
+  ): Promise<{ scheduleHelper: ScheduleHelper; missedCall: MissedCall; result: SchedulingResult | null } | null> => {
+    if (!user || !scheduleHelper.next_call_due) return null;
+
+    const plan = await planNextCall(getPlannerInput(user, scheduleHelper, blockedTimes, now));
+    if (!plan.missedCall || !plan.missedCallAction) return null;
+    const dueTime = new Date(plan.missedCall.scheduled_time);
+
+    const updatedScheduleHelper = await db.updateScheduleHelper(
+      user.id,
+      plan.updates,
+      scheduleHelper.lock_version
+    );
+
+    // Only once the schedule is saved: a lost lock means someone else is handling the miss
+    const entry = await db.addCallHistoryEntry(plan.missedCall);
+    applyLearnedPreferences([entry, ...historyRef.current]);
+
+    const { followUp, nudgeTime } = plan.missedCallAction;
+    logger.info('Missed call recorded', {
+      userId: user.id,
+      component: 'useScheduler',
+      action: 'resolveMissedCall',
+      metadata: {
+        scheduledTime: dueTime.toISOString(),
+        followUp,
+        nextCallTime: plan.updates.next_call_due
+      }
+    });
+
+    return {
+      scheduleHelper: updatedScheduleHelper,
+      missedCall: { scheduledTime: dueTime, followUp, nudgeTime },
+      result: plan.result
+    };
+  }, [user, getPlannerInput, applyLearnedPreferences]);
+
+  // While the app is open, a due call nobody acts on is resolved as soon as its grace period runs out
+  useEffect(() => {
+    const dueTime = state.nextCallTime;
+    const scheduleHelper = state.scheduleHelper;
+    if (!user || !dueTime || !scheduleHelper || state.pause.isPaused) return undefined;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const missed = await resolveMissedCall(scheduleHelper, state.blockedTimes);
+        if (!missed) return;
+
+        const nextCallDue = missed.scheduleHelper.next_call_due;
+        setState(prev => ({
+          ...prev,
+          scheduleHelper: missed.scheduleHelper,
+          nextCallTime: nextCallDue ? new Date(nextCallDue) : null,
+          lastGenerated: missed.scheduleHelper.last_generated
+            ? new Date(missed.scheduleHelper.last_generated)
+            : null,
+          weekPlan: missed.scheduleHelper.week_plan || null,
+          decisionTrace: missed.result?.metadata?.trace
+            || (nextCallDue && missed.scheduleHelper.week_plan ? WEEK_PLAN_TRACE : null),
+          alternatives: missed.result?.metadata?.alternatives || [],
+          missedCall: missed.missedCall
+        }));
+      } catch (error) {
+        logger.error('Failed to resolve missed call', {
+          userId: user.id,
+          component: 'useScheduler',
+          action: 'resolveMissedCall',
+          metadata: { error }
+        });
+
+        setState(prev => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Failed to record missed call'
+        }));
+      }
+    }, Math.min(Math.max(0, getMissedCallDeadline(user, dueTime).getTime() - Date.now()), MAX_TIMEOUT_MS));
 
-  const loadInitialData = async () => {
+    return () => clearTimeout(timeout);
+  }, [user, state.nextCallTime, state.scheduleHelper, state.blockedTimes, state.pause.isPaused, resolveMissedCall]);
+
+  const dismissMissedCall = useCallback(() => {
+    setState(prev => ({ ...prev, missedCall: null }));
+  }, []);
+
+  const loadInitialData = async (resuming = false) => {
     if (!user) return;
 
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
-      // Load schedule helper and blocked times in parallel
-      const [scheduleHelper, blockedTimes] = await Promise.all([
+      // Load schedule helper, blocked times, date overrides and recent history in parallel
+      const [scheduleHelper, blockedTimes, dateOverrides, history] = await Promise.all([
         db.getScheduleHelper(user.id),
-        db.getBlockedTimes(user.id)
+        db.getBlockedTimes(user.id, { includeInactive: true }),
+        db.getDateOverrides(user.id),
+        db.getCallHistory(user.id, PREFERENCE_HISTORY_LIMIT)
       ]);
 
-      // Reset daily count if needed
-      const today = new Date().toISOString().split('T')[0];
+      const callsThisWeek = countCallsThisWeek(history, user.timezone);
+      weekStartRef.current = getWeekStartKey(getLocalDateKey(user.timezone));
+      rebuildScheduler({ dateOverrides, callsThisWeek });
+      applyLearnedPreferences(history);
+
+      // Reset daily count if the user's local day has rolled over since it was stored
       let updatedScheduleHelper = scheduleHelper;
 
-      if (scheduleHelper.daily_reset_date !== today) {
+      if (needsDailyReset(scheduleHelper, user.timezone)) {
+        const reset = getDailyResetUpdate(user.timezone);
         updatedScheduleHelper = await db.updateScheduleHelper(
           user.id,
-          {
-            calls_today: 0,
-            daily_reset_date: today
-          },
+          reset,
           scheduleHelper.lock_version
         );
 
@@ -141,12 +433,65 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           action: 'dailyReset',
           metadata: {
             previousDate: scheduleHelper.daily_reset_date,
-            newDate: today,
+            newDate: reset.daily_reset_date,
+            timezone: user.timezone,
             previousCount: scheduleHelper.calls_today
           }
         });
       }
 
+      // Drop the pending call and plan of a paused schedule so no reminder goes out for them
+      const pause = getPauseState(user);
+      if (pause.isPaused && (updatedScheduleHelper.next_call_due || updatedScheduleHelper.week_plan)) {
+        updatedScheduleHelper = await db.updateScheduleHelper(
+          user.id,
+          { next_call_due: null, week_plan: null, snooze_count: 0 },
+          updatedScheduleHelper.lock_version
+        );
+
+        logger.info('Pending call cleared for pause', {
+          userId: user.id,
+          component: 'useScheduler',
+          action: 'pauseSchedule',
+          metadata: { pausedUntil: pause.until?.toISOString() ?? null }
+        });
+      }
+
+      // Coming back from a pause picks the next call straight away
+      let resumed: SchedulingResult | null = null;
+      if (resuming && !pause.isPaused && !updatedScheduleHelper.next_call_due && schedulerRef.current) {
+        resumed = await schedulerRef.current.generateNextCallTime(blockedTimes, updatedScheduleHelper);
+
+        if (resumed.success && resumed.nextCallTime) {
+          updatedScheduleHelper = await db.updateScheduleHelper(
+            user.id,
+            {
+              next_call_due: resumed.nextCallTime.toISOString(),
+              last_generated: new Date().toISOString(),
+              snooze_count: 0
+            },
+            updatedScheduleHelper.lock_version
+          );
+        }
+
+        logger.info('Scheduling resumed', {
+          userId: user.id,
+          component: 'useScheduler',
+          action: 'resumeSchedule',
+          metadata: {
+            nextCallTime: resumed.nextCallTime?.toISOString(),
+            seed: resumed.metadata?.seed
+          }
+        });
+      }
+
+      // A call that went by while the app was closed is recorded as missed now
+      const missed = pause.isPaused ? null : await resolveMissedCall(updatedScheduleHelper, blockedTimes);
+      if (missed) {
+        updatedScheduleHelper = missed.scheduleHelper;
+      }
+      const generated = missed ? missed.result : resumed;
+
       setState(prev => ({
         ...prev,
         scheduleHelper: updatedScheduleHelper,
@@ -155,9 +500,18 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           ? new Date(updatedScheduleHelper.next_call_due)
           : null,
         callsToday: updatedScheduleHelper.calls_today,
+        callsThisWeek,
         lastGenerated: updatedScheduleHelper.last_generated
           ? new Date(updatedScheduleHelper.last_generated)
           : null,
+        weekPlan: updatedScheduleHelper.week_plan || null,
+        ...(generated?.success && {
+          decisionTrace: generated.metadata?.trace || null,
+          alternatives: generated.metadata?.alternatives || []
+        }),
+        ...(missed && { missedCall: missed.missedCall }),
+        dateOverrides,
+        pause,
         isLoading: false
       }));
 
@@ -206,11 +560,26 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         }
       });
 
-      // Generate next call time using the scheduling engine
-      const result = await schedulerRef.current.generateNextCallTime(
-        state.blockedTimes,
-        state.scheduleHelper
-      );
+      // Take the next slot of an active week plan, otherwise ask the scheduling engine (which declines while paused)
+      const plannedSlots = state.weekPlan && !getPauseState(user).isPaused ? getUpcomingSlots(state.weekPlan) : [];
+      const weekPlan = plannedSlots.length > 0 ? { ...state.weekPlan!, slots: plannedSlots } : null;
+
+      const result: SchedulingResult = weekPlan
+        ? {
+          success: true,
+          nextCallTime: new Date(plannedSlots[0]!.time),
+          metadata: {
+            attempts: 0,
+            constraints: weekPlan.constraints,
+            seed: weekPlan.seed,
+            generatedAt: weekPlan.generatedAt,
+            trace: WEEK_PLAN_TRACE
+          }
+        }
+        : await schedulerRef.current.generateNextCallTime(
+          state.blockedTimes,
+          state.scheduleHelper
+        );
 
       if (result.success && result.nextCallTime) {
         // Update schedule helper in database
@@ -218,7 +587,9 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           user.id,
           {
             next_call_due: result.nextCallTime.toISOString(),
-            last_generated: new Date().toISOString()
+            last_generated: new Date().toISOString(),
+            snooze_count: 0,
+            week_plan: weekPlan
           },
           state.scheduleHelper.lock_version
         );
@@ -227,6 +598,9 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           ...prev,
           nextCallTime: result.nextCallTime!,
           scheduleHelper: updatedScheduleHelper,
+          weekPlan,
+          decisionTrace: result.metadata?.trace || null,
+          alternatives: result.metadata?.alternatives || [],
           lastGenerated: new Date(),
           isGenerating: false,
           error: null
@@ -239,7 +613,10 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           metadata: {
             nextCallTime: result.nextCallTime.toISOString(),
             attempts: result.metadata?.attempts,
-            constraints: result.metadata?.constraints
+            constraints: result.metadata?.constraints,
+            seed: result.metadata?.seed,
+            generatedAt: result.metadata?.generatedAt,
+            fromWeekPlan: !!weekPlan
           }
         });
       } else {
@@ -256,7 +633,9 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           metadata: {
             error: result.error,
             attempts: result.metadata?.attempts,
-            constraints: result.metadata?.constraints
+            constraints: result.metadata?.constraints,
+            seed: result.metadata?.seed,
+            generatedAt: result.metadata?.generatedAt
           }
         });
       }
@@ -278,7 +657,78 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
 
       throw error;
     }
-  }, [user, state.scheduleHelper, state.blockedTimes, state.callsToday]);
+  }, [user, state.scheduleHelper, state.blockedTimes, state.callsToday, state.weekPlan]);
+
+  const generateWeekPlan = useCallback(async (): Promise<WeekPlan> => {
+    if (!user || !schedulerRef.current || !state.scheduleHelper) {
+      throw new ValidationError('User not authenticated or scheduler not initialized');
+    }
+
+    if (getPauseState(user).isPaused) {
+      throw new ValidationError('Scheduling is paused', 'paused_until');
+    }
+
+    try {
+      setState(prev => ({ ...prev, isGenerating: true, error: null }));
+
+      const weekPlan = await schedulerRef.current.generateWeekPlan(
+        state.blockedTimes,
+        state.scheduleHelper
+      );
+      const firstSlot = weekPlan.slots[0];
+
+      const updatedScheduleHelper = await db.updateScheduleHelper(
+        user.id,
+        {
+          week_plan: weekPlan,
+          next_call_due: firstSlot ? firstSlot.time : null,
+          last_generated: new Date().toISOString(),
+          snooze_count: 0
+        },
+        state.scheduleHelper.lock_version
+      );
+
+      setState(prev => ({
+        ...prev,
+        weekPlan,
+        nextCallTime: firstSlot ? new Date(firstSlot.time) : null,
+        decisionTrace: firstSlot ? WEEK_PLAN_TRACE : null,
+        alternatives: [],
+        scheduleHelper: updatedScheduleHelper,
+        lastGenerated: new Date(),
+        isGenerating: false
+      }));
+
+      logger.info('Week plan generated', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'generateWeekPlan',
+        metadata: {
+          slots: weekPlan.slots.length,
+          constraints: weekPlan.constraints,
+          seed: weekPlan.seed,
+          generatedAt: weekPlan.generatedAt
+        }
+      });
+
+      return weekPlan;
+    } catch (error) {
+      logger.error('Week plan generation error', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'generateWeekPlan',
+        metadata: { error }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isGenerating: false,
+        error: error instanceof Error ? error.message : 'Week plan generation failed'
+      }));
+
+      throw error;
+    }
+  }, [user, state.scheduleHelper, state.blockedTimes]);
 
   const markCallAttempted = useCallback(async (
     status: 'called' | 'skipped' | 'later',
@@ -307,16 +757,45 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
       };
 
       const newEntry = await db.addCallHistoryEntry(historyEntry);
+      // Skips back the cadence off before the next call is picked
+      applyLearnedPreferences([newEntry, ...historyRef.current]);
 
       // Update schedule helper
       const updates: Partial<ScheduleHelper> = {
         last_call_time: new Date().toISOString(),
-        next_call_due: null // Clear next call - will be generated again
+        next_call_due: null, // Clear next call - will be generated again
+        snooze_count: 0
       };
 
-      // Increment daily counter if call was successful
+      // Increment daily counter if call was successful, starting a new local day if it has rolled over
       if (status === 'called') {
-        updates.calls_today = state.callsToday + 1;
+        if (needsDailyReset(state.scheduleHelper, user.timezone)) {
+          Object.assign(updates, getDailyResetUpdate(user.timezone));
+        }
+        updates.calls_today = getCallsToday(state.scheduleHelper, user.timezone) + 1;
+      }
+
+      // Consume the attempted slot; skips and snoozes re-plan the rest of its day
+      if (state.weekPlan) {
+        const attemptedTime = state.nextCallTime.toISOString();
+        const attemptedSlot = state.weekPlan.slots.find(slot => slot.time === attemptedTime);
+        let weekPlan: WeekPlan = {
+          ...state.weekPlan,
+          slots: state.weekPlan.slots.filter(slot => slot.time !== attemptedTime)
+        };
+
+        if (status !== 'called' && attemptedSlot && schedulerRef.current) {
+          weekPlan = await schedulerRef.current.replanDay(
+            weekPlan,
+            attemptedSlot.date,
+            state.blockedTimes,
+            { ...state.scheduleHelper, ...updates }
+          );
+        }
+
+        const upcoming = getUpcomingSlots(weekPlan);
+        updates.week_plan = upcoming.length > 0 ? { ...weekPlan, slots: upcoming } : null;
+        updates.next_call_due = upcoming[0]?.time ?? null;
       }
 
       const updatedScheduleHelper = await db.updateScheduleHelper(
@@ -325,11 +804,64 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         state.scheduleHelper.lock_version
       );
 
+      // Count the call toward the weekly target, starting over if the local week has rolled over
+      let callsThisWeek = state.callsThisWeek;
+      if (status === 'called') {
+        const weekStart = getWeekStartKey(getLocalDateKey(user.timezone));
+        callsThisWeek = (weekStartRef.current === weekStart ? callsThisWeek : 0) + 1;
+        weekStartRef.current = weekStart;
+        rebuildScheduler({ callsThisWeek });
+      }
+
+      // Without a planned slot to move on to, pick the next call here: the scheduler now knows
+      // this attempt, and the saved helper carries the current lock version
+      let scheduleHelper = updatedScheduleHelper;
+      let nextCall: SchedulingResult | null = null;
+      if (status !== 'later' && !updates.next_call_due && schedulerRef.current) {
+        try {
+          const result = await schedulerRef.current.generateNextCallTime(state.blockedTimes, updatedScheduleHelper);
+          if (result.success && result.nextCallTime) {
+            scheduleHelper = await db.updateScheduleHelper(
+              user.id,
+              {
+                next_call_due: result.nextCallTime.toISOString(),
+                last_generated: new Date().toISOString()
+              },
+              updatedScheduleHelper.lock_version
+            );
+            nextCall = result;
+          } else {
+            logger.warn('Call generation failed', {
+              userId: user.id,
+              component: 'useScheduler',
+              action: 'markCallAttempted',
+              metadata: { error: result.error, seed: result.metadata?.seed }
+            });
+          }
+        } catch (error) {
+          // The attempt is recorded either way; the next call can still be scheduled by hand
+          logger.error('Call generation error', {
+            userId: user.id,
+            component: 'useScheduler',
+            action: 'markCallAttempted',
+            metadata: { error }
+          });
+        }
+      }
+
       setState(prev => ({
         ...prev,
-        scheduleHelper: updatedScheduleHelper,
-        callsToday: updatedScheduleHelper.calls_today,
-        nextCallTime: null,
+        scheduleHelper,
+        callsToday: scheduleHelper.calls_today,
+        callsThisWeek,
+        nextCallTime: nextCall?.nextCallTime ?? (updates.next_call_due ? new Date(updates.next_call_due) : null),
+        weekPlan: updates.week_plan || null,
+        decisionTrace: nextCall
+          ? nextCall.metadata?.trace || null
+          : updates.next_call_due ? WEEK_PLAN_TRACE : null,
+        alternatives: nextCall?.metadata?.alternatives || [],
+        ...(nextCall && { lastGenerated: new Date() }),
+        missedCall: null,
         isLoading: false
       }));
 
@@ -342,6 +874,7 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
           platform,
           scheduledTime: state.nextCallTime.toISOString(),
           newCallsToday: updatedScheduleHelper.calls_today,
+          nextCallTime: nextCall?.nextCallTime?.toISOString(),
           callId: newEntry.id
         }
       });
@@ -363,17 +896,45 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
 
       throw error;
     }
-  }, [user, state.nextCallTime, state.scheduleHelper, state.callsToday, state.lastGenerated]);
+  }, [user, state.nextCallTime, state.scheduleHelper, state.lastGenerated, state.weekPlan, state.blockedTimes, state.callsThisWeek, rebuildScheduler, applyLearnedPreferences]);
+
+  // Move the current slot of an active week plan and re-plan the day it lands on
+  const replanForReschedule = useCallback(async (time: Date): Promise<WeekPlan | null> => {
+    if (!user || !state.weekPlan || !state.nextCallTime || !state.scheduleHelper || !schedulerRef.current) {
+      return null;
+    }
+
+    const originalTime = state.nextCallTime.toISOString();
+    const weekPlan = await schedulerRef.current.replanDay(
+      { ...state.weekPlan, slots: state.weekPlan.slots.filter(slot => slot.time !== originalTime) },
+      getZonedDateTime(time, user.timezone).dateKey,
+      state.blockedTimes,
+      state.scheduleHelper,
+      time
+    );
+
+    // Slots before the rescheduled call are superseded by it
+    const slots = weekPlan.slots.filter(slot => new Date(slot.time) >= time);
+    return { ...weekPlan, slots };
+  }, [user, state.weekPlan, state.nextCallTime, state.scheduleHelper, state.blockedTimes]);
 
   const rescheduleCall = useCallback(async (delayMinutes: number): Promise<void> => {
     if (!user || !state.nextCallTime || !state.scheduleHelper) {
       throw new ValidationError('Invalid state for rescheduling call');
     }
 
+    // Past the snooze limit the call has to be taken, skipped or moved to another day
+    const snooze = getSnoozeState(state.scheduleHelper);
+    if (!snooze.canSnooze) {
+      throw new ValidationError('This call has been snoozed too many times', 'snooze_count');
+    }
+
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
       const newCallTime = new Date(Date.now() + delayMinutes * 60000);
+      const recordSnooze = (snoozedTo: Date) =>
+        db.addCallHistoryEntry(getSnoozeEntry(user.id, state.nextCallTime!, snoozedTo, snooze.count + 1));
 
       // Validate the new time
       if (schedulerRef.current) {
@@ -386,19 +947,26 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         if (!validation.isValid) {
           if (validation.suggestedTime) {
             // Use suggested time instead
+            const weekPlan = await replanForReschedule(validation.suggestedTime);
             const updatedScheduleHelper = await db.updateScheduleHelper(
               user.id,
               {
                 next_call_due: validation.suggestedTime.toISOString(),
-                last_generated: new Date().toISOString()
+                last_generated: new Date().toISOString(),
+                snooze_count: snooze.count + 1,
+                ...(weekPlan && { week_plan: weekPlan })
               },
               state.scheduleHelper.lock_version
             );
+            await recordSnooze(validation.suggestedTime);
 
             setState(prev => ({
               ...prev,
               nextCallTime: validation.suggestedTime!,
+              decisionTrace: null,
+              alternatives: [],
               scheduleHelper: updatedScheduleHelper,
+              weekPlan: weekPlan || prev.weekPlan,
               isLoading: false
             }));
 
@@ -424,19 +992,26 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
       }
 
       // Use the requested time
+      const weekPlan = await replanForReschedule(newCallTime);
       const updatedScheduleHelper = await db.updateScheduleHelper(
         user.id,
         {
           next_call_due: newCallTime.toISOString(),
-          last_generated: new Date().toISOString()
+          last_generated: new Date().toISOString(),
+          snooze_count: snooze.count + 1,
+          ...(weekPlan && { week_plan: weekPlan })
         },
         state.scheduleHelper.lock_version
       );
+      await recordSnooze(newCallTime);
 
       setState(prev => ({
         ...prev,
         nextCallTime: newCallTime,
+        decisionTrace: null,
+        alternatives: [],
         scheduleHelper: updatedScheduleHelper,
+        weekPlan: weekPlan || prev.weekPlan,
         isLoading: false
       }));
 
@@ -447,7 +1022,8 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         metadata: {
           delayMinutes,
           newCallTime: newCallTime.toISOString(),
-          originalTime: state.nextCallTime.toISOString()
+          originalTime: state.nextCallTime.toISOString(),
+          snoozeCount: snooze.count + 1
         }
       });
     } catch (error) {
@@ -466,7 +1042,171 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
 
       throw error;
     }
-  }, [user, state.nextCallTime, state.scheduleHelper, state.blockedTimes]);
+  }, [user, state.nextCallTime, state.scheduleHelper, state.blockedTimes, replanForReschedule]);
+
+  // Give up on today: the pending call is logged as put off and the next one comes from tomorrow on
+  const moveCallToAnotherDay = useCallback(async (): Promise<void> => {
+    if (!user || !state.nextCallTime || !state.scheduleHelper) {
+      throw new ValidationError('Invalid state for moving call');
+    }
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const now = new Date();
+      const { updates, result } = await lineUpNextCall(
+        getPlannerInput(user, state.scheduleHelper, state.blockedTimes, now),
+        getNextLocalMidnight(now, user.timezone)
+      );
+
+      const updatedScheduleHelper = await db.updateScheduleHelper(
+        user.id,
+        updates,
+        state.scheduleHelper.lock_version
+      );
+      await db.addCallHistoryEntry({
+        user_id: user.id,
+        scheduled_time: state.nextCallTime.toISOString(),
+        actual_time: now.toISOString(),
+        status: CallStatus.LATER,
+        metadata: {
+          moved_to_another_day: true,
+          snoozed_to: updates.next_call_due ?? null
+        }
+      });
+
+      setState(prev => ({
+        ...prev,
+        scheduleHelper: updatedScheduleHelper,
+        nextCallTime: updates.next_call_due ? new Date(updates.next_call_due) : null,
+        lastGenerated: updatedScheduleHelper.last_generated
+          ? new Date(updatedScheduleHelper.last_generated)
+          : null,
+        weekPlan: updatedScheduleHelper.week_plan || null,
+        decisionTrace: result?.metadata?.trace
+          || (updates.next_call_due && updatedScheduleHelper.week_plan ? WEEK_PLAN_TRACE : null),
+        alternatives: result?.metadata?.alternatives || [],
+        isLoading: false
+      }));
+
+      logger.info('Call moved to another day', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'moveCallToAnotherDay',
+        metadata: {
+          originalTime: state.nextCallTime.toISOString(),
+          newCallTime: updates.next_call_due,
+          snoozeCount: state.scheduleHelper.snooze_count ?? 0
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to move call to another day', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'moveCallToAnotherDay',
+        metadata: { error }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to move call'
+      }));
+
+      throw error;
+    }
+  }, [user, state.nextCallTime, state.scheduleHelper, state.blockedTimes, getPlannerInput]);
+
+  const chooseAlternative = useCallback(async (time: Date): Promise<void> => {
+    if (!user || !state.nextCallTime || !state.scheduleHelper || !schedulerRef.current) {
+      throw new ValidationError('Invalid state for choosing an alternative time');
+    }
+
+    if (!state.alternatives.some(alternative => alternative.getTime() === time.getTime())) {
+      throw new ValidationError('Chosen time is not one of the offered alternatives', 'time');
+    }
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      // Offered times go stale as the clock moves on or blocks change
+      const now = new Date();
+      const validation = await schedulerRef.current.validateCallTime(time, state.blockedTimes, state.scheduleHelper);
+      if (!validation.isValid) {
+        setState(prev => ({
+          ...prev,
+          alternatives: prev.alternatives.filter(alternative => alternative > now && alternative.getTime() !== time.getTime())
+        }));
+
+        logger.warn('Alternative call time no longer valid', {
+          userId: user.id,
+          component: 'useScheduler',
+          action: 'chooseAlternative',
+          metadata: { chosenTime: time.toISOString(), reason: validation.reason }
+        });
+
+        throw new ValidationError('That time is no longer available. Please pick another one.', 'time');
+      }
+
+      const previousTime = state.nextCallTime;
+      const weekPlan = await replanForReschedule(time);
+
+      // Lock version guards against the schedule changing since the alternatives were offered
+      const updatedScheduleHelper = await db.updateScheduleHelper(
+        user.id,
+        {
+          next_call_due: time.toISOString(),
+          ...(weekPlan && { week_plan: weekPlan })
+        },
+        state.scheduleHelper.lock_version
+      );
+
+      // The replaced time stays on offer so the choice can be undone, unless surprise mode
+      // still hides it or it no longer fits the updated schedule
+      const keepPrevious = isCallTimeRevealed(user, previousTime, now)
+        && (await schedulerRef.current.validateCallTime(previousTime, state.blockedTimes, updatedScheduleHelper)).isValid;
+
+      setState(prev => ({
+        ...prev,
+        nextCallTime: time,
+        alternatives: [
+          ...prev.alternatives.filter(alternative => alternative.getTime() !== time.getTime()),
+          ...(keepPrevious ? [previousTime] : [])
+        ]
+          .filter(alternative => alternative > now)
+          .sort((a, b) => a.getTime() - b.getTime()),
+        decisionTrace: null,
+        scheduleHelper: updatedScheduleHelper,
+        weekPlan: weekPlan || prev.weekPlan,
+        isLoading: false
+      }));
+
+      logger.info('Alternative call time chosen', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'chooseAlternative',
+        metadata: {
+          chosenTime: time.toISOString(),
+          previousTime: previousTime.toISOString()
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to choose alternative time', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'chooseAlternative',
+        metadata: { error, time: time.toISOString() }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to choose alternative time'
+      }));
+
+      throw error;
+    }
+  }, [user, state.nextCallTime, state.scheduleHelper, state.blockedTimes, state.alternatives, replanForReschedule]);
 
   const refreshSchedule = useCallback(async (): Promise<void> => {
     if (!user) return;
@@ -475,11 +1215,18 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
       // Reload schedule data
-      const [scheduleHelper, blockedTimes] = await Promise.all([
+      const [scheduleHelper, blockedTimes, dateOverrides, history] = await Promise.all([
         db.getScheduleHelper(user.id),
-        db.getBlockedTimes(user.id)
+        db.getBlockedTimes(user.id, { includeInactive: true }),
+        db.getDateOverrides(user.id),
+        db.getCallHistory(user.id, PREFERENCE_HISTORY_LIMIT)
       ]);
 
+      const callsThisWeek = countCallsThisWeek(history, user.timezone);
+      weekStartRef.current = getWeekStartKey(getLocalDateKey(user.timezone));
+      rebuildScheduler({ dateOverrides, callsThisWeek });
+      applyLearnedPreferences(history);
+
       setState(prev => ({
         ...prev,
         scheduleHelper,
@@ -487,10 +1234,13 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         nextCallTime: scheduleHelper.next_call_due
           ? new Date(scheduleHelper.next_call_due)
           : null,
-        callsToday: scheduleHelper.calls_today,
+        callsToday: getCallsToday(scheduleHelper, user.timezone),
+        callsThisWeek,
         lastGenerated: scheduleHelper.last_generated
           ? new Date(scheduleHelper.last_generated)
           : null,
+        weekPlan: scheduleHelper.week_plan || null,
+        dateOverrides,
         isLoading: false
       }));
 
@@ -515,7 +1265,7 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
 
       throw error;
     }
-  }, [user]);
+  }, [user, rebuildScheduler, applyLearnedPreferences]);
 
   const validateCallTime = useCallback(async (time: Date): Promise<boolean> => {
     if (!schedulerRef.current || !state.scheduleHelper) {
@@ -558,6 +1308,11 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
         status: 'called' // Ensure status is marked as called
       });
 
+      // Ratings steer the cadence too
+      applyLearnedPreferences(historyRef.current.map(entry => entry.id === callId
+        ? { ...entry, success_rating: rating, status: CallStatus.CALLED }
+        : entry));
+
       logger.info('Feedback submitted', {
         userId: user.id,
         component: 'useScheduler',
@@ -582,16 +1337,287 @@ export function useScheduler(user: User | null): SchedulerState & SchedulerActio
 
       throw error;
     }
-  }, [user]);
+  }, [user, applyLearnedPreferences]);
+
+  // Keep the scheduler in step with the override list after every change
+  const applyDateOverrides = useCallback((dateOverrides: DateOverride[]) => {
+    rebuildScheduler({ dateOverrides });
+    setState(prev => ({ ...prev, dateOverrides, isLoading: false }));
+  }, [rebuildScheduler]);
+
+  const saveDateOverride = useCallback(async (override: DateOverrideForm): Promise<void> => {
+    if (!user) return;
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const saved = await db.addDateOverride({
+        user_id: user.id,
+        date: override.date,
+        override_type: override.override_type,
+        windows: override.override_type === DateOverrideType.AVAILABLE && override.windows?.length
+          ? override.windows
+          : null,
+        label: override.label || null,
+        holiday_country: null
+      });
+
+      applyDateOverrides(sortOverrides([
+        ...state.dateOverrides.filter(existing => existing.date !== saved.date),
+        saved
+      ]));
+    } catch (error) {
+      logger.error('Failed to save date override', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'saveDateOverride',
+        metadata: { error, date: override.date }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to save date override'
+      }));
+
+      throw error;
+    }
+  }, [user, state.dateOverrides, applyDateOverrides]);
+
+  const deleteDateOverride = useCallback(async (overrideId: string): Promise<void> => {
+    if (!user) return;
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      await db.deleteDateOverride(overrideId, user.id);
+
+      applyDateOverrides(state.dateOverrides.filter(override => override.id !== overrideId));
+    } catch (error) {
+      logger.error('Failed to delete date override', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'deleteDateOverride',
+        metadata: { error, overrideId }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to delete date override'
+      }));
+
+      throw error;
+    }
+  }, [user, state.dateOverrides, applyDateOverrides]);
+
+  const importHolidays = useCallback(async (countryCode: string, year: number): Promise<number> => {
+    if (!user) return 0;
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const holidays = getPublicHolidays(countryCode, year);
+      if (holidays.length === 0) {
+        throw new ValidationError(`No bundled holidays for ${countryCode}`, 'countryCode');
+      }
+
+      // Holidays already behind the user are of no use to the scheduler
+      const today = getZonedDateTime(new Date(), user.timezone).dateKey;
+      const upcoming = holidays.filter(holiday => holiday.date >= today);
+
+      const inserted = await db.addDateOverrides(user.id, upcoming.map(holiday => ({
+        date: holiday.date,
+        override_type: DateOverrideType.UNAVAILABLE,
+        windows: null,
+        label: holiday.name,
+        holiday_country: countryCode
+      })));
+
+      applyDateOverrides(sortOverrides([...state.dateOverrides, ...inserted]));
+
+      logger.info('Holidays imported', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'importHolidays',
+        metadata: { countryCode, year, holidays: upcoming.length, inserted: inserted.length }
+      });
+
+      return inserted.length;
+    } catch (error) {
+      logger.error('Failed to import holidays', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'importHolidays',
+        metadata: { error, countryCode, year }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to import holidays'
+      }));
+
+      throw error;
+    }
+  }, [user, state.dateOverrides, applyDateOverrides]);
+
+  // The scheduler reads blocks straight from state, so updating the list is enough
+  const applyBlockedTimes = useCallback((update: (blockedTimes: BlockedTime[]) => BlockedTime[]) => {
+    setState(prev => ({ ...prev, blockedTimes: sortBlockedTimes(update(prev.blockedTimes)), isLoading: false }));
+  }, []);
+
+  const saveBlockedTime = useCallback(async (form: BlockedTimeForm, blockId?: string): Promise<BlockedTime> => {
+    if (!user) throw new AppError('No user to save the block for', 'NO_USER', 400);
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const fields = getBlockedTimeFields(form);
+      const saved = blockId
+        ? await db.updateBlockedTime(blockId, fields)
+        : await db.addBlockedTime({ ...fields, user_id: user.id });
+
+      applyBlockedTimes(blockedTimes => [...blockedTimes.filter(block => block.id !== saved.id), saved]);
+      logger.logUserAction(blockId ? 'blocked_time_updated' : 'blocked_time_added', user.id, {
+        repeatType: saved.repeat_type,
+        priority: saved.priority
+      });
+
+      return saved;
+    } catch (error) {
+      logger.error('Failed to save blocked time', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'saveBlockedTime',
+        metadata: { error, blockId }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to save blocked time'
+      }));
+
+      throw error;
+    }
+  }, [user, applyBlockedTimes]);
+
+  const setBlockedTimeActive = useCallback(async (blockId: string, isActive: boolean): Promise<void> => {
+    if (!user) return;
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      const saved = await db.updateBlockedTime(blockId, { is_active: isActive });
+
+      applyBlockedTimes(blockedTimes => blockedTimes.map(block => (block.id === saved.id ? saved : block)));
+      logger.logUserAction(isActive ? 'blocked_time_resumed' : 'blocked_time_paused', user.id, { blockId });
+    } catch (error) {
+      logger.error('Failed to toggle blocked time', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'setBlockedTimeActive',
+        metadata: { error, blockId, isActive }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to update blocked time'
+      }));
+
+      throw error;
+    }
+  }, [user, applyBlockedTimes]);
+
+  const deleteBlockedTime = useCallback(async (blockId: string): Promise<void> => {
+    if (!user) return;
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      await db.deleteBlockedTime(blockId, user.id);
+
+      applyBlockedTimes(blockedTimes => blockedTimes.filter(block => block.id !== blockId));
+      logger.logUserAction('blocked_time_deleted', user.id, { blockId });
+    } catch (error) {
+      logger.error('Failed to delete blocked time', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'deleteBlockedTime',
+        metadata: { error, blockId }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to delete blocked time'
+      }));
+
+      throw error;
+    }
+  }, [user, applyBlockedTimes]);
+
+  const restoreBlockedTime = useCallback(async (block: BlockedTime): Promise<void> => {
+    if (!user) return;
+
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      // The copy gets a new id; everything the user set comes back as it was
+      const restored = await db.addBlockedTime({
+        user_id: user.id,
+        block_name: block.block_name,
+        start_time: block.start_time,
+        end_time: block.end_time,
+        repeat_type: block.repeat_type,
+        days_of_week: block.days_of_week,
+        start_date: block.start_date,
+        end_date: block.end_date,
+        is_active: block.is_active,
+        priority: block.priority
+      });
+
+      applyBlockedTimes(blockedTimes => [...blockedTimes, restored]);
+      logger.logUserAction('blocked_time_restored', user.id, { blockId: restored.id });
+    } catch (error) {
+      logger.error('Failed to restore blocked time', {
+        userId: user.id,
+        component: 'useScheduler',
+        action: 'restoreBlockedTime',
+        metadata: { error, blockId: block.id }
+      });
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to restore blocked time'
+      }));
+
+      throw error;
+    }
+  }, [user, applyBlockedTimes]);
 
   return {
     ...state,
     generateNextCall,
+    generateWeekPlan,
     markCallAttempted,
     rescheduleCall,
+    moveCallToAnotherDay,
+    chooseAlternative,
     refreshSchedule,
     validateCallTime,
     clearError,
-    submitFeedback
+    submitFeedback,
+    saveDateOverride,
+    deleteDateOverride,
+    importHolidays,
+    saveBlockedTime,
+    setBlockedTimeActive,
+    deleteBlockedTime,
+    restoreBlockedTime,
+    dismissMissedCall
   };
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateDueCalls, generateNextCall, handleGenerateNextCall } from './generateNextCall';
+import { createMemorySchedulingStore, SchedulingStoreData } from './store';
+import { BlockRepeatType, CallStatus, ScheduleHelper, User } from '@/types';
+
+describe('generate_next_call', () => {
+    // 10:00 Wednesday in London
+    const now = new Date('2023-10-25T09:00:00Z');
+    const user = (id: string, changes: Partial<User> = {}): User => ({
+        id,
+        email: `${id}@example.com`,
+        name: id,
+        partner_name: 'Partner',
+        daily_call_limit: 3,
+        active_days: 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+        morning_start: '09:00',
+        evening_end: '21:00',
+        preferred_platforms: 'phone',
+        timezone: 'Europe/London',
+        is_active: true,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+        version: 1,
+        ...changes,
+    });
+    const helper = (userId: string, changes: Partial<ScheduleHelper> = {}): ScheduleHelper => ({
+        id: `helper-${userId}`,
+        user_id: userId,
+        calls_today: 0,
+        daily_reset_date: '2023-10-25',
+        last_generated: now.toISOString(),
+        updated_at: now.toISOString(),
+        lock_version: 1,
+        ...changes,
+    });
+
+    let data: SchedulingStoreData;
+
+    beforeEach(() => {
+        data = {
+            users: [
+                user('fresh'),
+                user('pending'),
+                user('missed'),
+                user('paused', { paused_at: '2023-10-24T00:00:00Z', paused_until: null }),
+            ],
+            scheduleHelpers: [
+                helper('fresh'),
+                helper('pending', { next_call_due: '2023-10-25T12:00:00Z' }),
+                // Yesterday's counter and a call that went by an hour ago
+                helper('missed', { next_call_due: '2023-10-25T08:00:00Z', calls_today: 2, daily_reset_date: '2023-10-24' }),
+                helper('paused'),
+            ],
+        };
+    });
+
+    it('should generate and persist the next call for one user', async () => {
+        const store = createMemorySchedulingStore(data, () => now);
+        const outcome = await generateNextCall(store, 'fresh', { now, seed: 3 });
+        const saved = data.scheduleHelpers.find(entry => entry.user_id === 'fresh')!;
+
+        expect(outcome.status).toBe('scheduled');
+        expect(outcome.nextCallDue).toBe(saved.next_call_due);
+        expect(new Date(saved.next_call_due!).getTime()).toBeGreaterThan(now.getTime());
+        expect(saved.lock_version).toBe(2);
+
+        // Running again leaves the new call alone
+        expect((await generateNextCall(store, 'fresh', { now })).status).toBe('pending');
+        expect(data.scheduleHelpers.find(entry => entry.user_id === 'fresh')!.lock_version).toBe(2);
+    });
+
+    it('should record a missed call, reset the day and pick a new time', async () => {
+        const store = createMemorySchedulingStore(data, () => now);
+        const outcome = await generateNextCall(store, 'missed', { now, seed: 3 });
+        const saved = data.scheduleHelpers.find(entry => entry.user_id === 'missed')!;
+
+        expect(outcome.status).toBe('scheduled');
+        expect(saved).toMatchObject({ calls_today: 0, daily_reset_date: '2023-10-25', snooze_count: 0 });
+        expect(new Date(saved.next_call_due!).getTime()).toBeGreaterThan(now.getTime());
+        expect(data.callHistory).toEqual([expect.objectContaining({
+            user_id: 'missed',
+            scheduled_time: '2023-10-25T08:00:00.000Z',
+            status: CallStatus.FAILED,
+        })]);
+    });
+
+    it('should date a new schedule by the user\'s local day', async () => {
+        // 09:00 Thursday in Auckland, still Wednesday in UTC
+        const store = createMemorySchedulingStore(data, () => new Date('2023-10-25T20:00:00Z'));
+        const created = await store.getScheduleHelper('auckland', 'Pacific/Auckland');
+
+        expect(created).toMatchObject({ user_id: 'auckland', calls_today: 0, daily_reset_date: '2023-10-26' });
+    });
+
+    it('should only schedule due users in a batch and keep going past failures', async () => {
+        const store = createMemorySchedulingStore(data, () => now);
+        const outcomes = await generateDueCalls(store, { now, seed: 3 });
+
+        expect(outcomes.map(outcome => [outcome.userId, outcome.status, outcome.reason])).toEqual([
+            ['missed', 'scheduled', undefined],
+            ['fresh', 'scheduled', undefined],
+        ]);
+
+        // Another writer bumping the lock only fails that user
+        const conflicted = createMemorySchedulingStore(data, () => now);
+        const update = conflicted.updateScheduleHelper;
+        conflicted.updateScheduleHelper = (userId, updates) => update(userId, updates, 0);
+        data.scheduleHelpers.push(helper('late'));
+        data.users.push(user('late'));
+
+        expect(await generateDueCalls(conflicted, { now })).toEqual([
+            { userId: 'late', status: 'failed', nextCallDue: null, reason: 'schedule_conflict' },
+        ]);
+    });
+
+    it('should list missed calls ahead of users without one, and skip inactive, paused and in-grace users', async () => {
+        data.users.push(user('inactive', { is_active: false }), user('resumed', {
+            paused_at: '2023-10-20T00:00:00Z',
+            paused_until: '2023-10-24T00:00:00Z',
+        }), user('grace'));
+        data.scheduleHelpers.push(
+            helper('inactive'),
+            helper('resumed', { last_generated: '2023-10-24T09:00:00Z' }),
+            // Due a quarter of an hour ago, so still inside its 30 minute grace period
+            helper('grace', { next_call_due: '2023-10-25T08:45:00Z' }),
+        );
+        const store = createMemorySchedulingStore(data, () => now);
+
+        expect(await store.listUsersToSchedule(now, 2)).toEqual(['missed', 'resumed']);
+        expect(await store.listUsersToSchedule(now, 10)).toEqual(['missed', 'resumed', 'fresh']);
+    });
+
+    it('should move a user with no free time to the back of the queue', async () => {
+        data.users = [user('stuck'), user('waiting')];
+        data.blockedTimes = [{
+            id: 'block-all-day',
+            user_id: 'stuck',
+            block_name: 'Travel',
+            start_time: '00:00',
+            end_time: '23:59',
+            repeat_type: BlockRepeatType.DAILY,
+            is_active: true,
+            priority: 5,
+            created_at: now.toISOString(),
+        }];
+        data.scheduleHelpers = [
+            helper('stuck', { last_generated: '2023-10-24T09:00:00Z' }),
+            helper('waiting', { last_generated: '2023-10-24T10:00:00Z' }),
+        ];
+        const store = createMemorySchedulingStore(data, () => now);
+
+        expect(await store.listUsersToSchedule(now, 1)).toEqual(['stuck']);
+        expect((await generateNextCall(store, 'stuck', { now, seed: 3 })).status).toBe('failed');
+        expect(await store.listUsersToSchedule(now, 1)).toEqual(['waiting']);
+    });
+
+    it('should serve requests over HTTP', async () => {
+        const store = createMemorySchedulingStore(data, () => now);
+        const post = (body: string, token = 'secret') => handleGenerateNextCall(
+            new Request('https://example.com/generate_next_call', {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${token}` },
+                body,
+            }),
+            store,
+            { now, secret: 'secret' }
+        );
+
+        expect((await post('{}', 'wrong')).status).toBe(401);
+        expect((await post('not json')).status).toBe(400);
+        expect((await post(JSON.stringify({ limit: 0 }))).status).toBe(400);
+
+        const response = await post(JSON.stringify({ user_id: 'pending' }));
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            results: [{ userId: 'pending', status: 'pending', nextCallDue: '2023-10-25T12:00:00Z' }],
+        });
+    });
+});
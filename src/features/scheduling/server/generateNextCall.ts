@@ -0,0 +1,190 @@
+/**
+ * generate_next_call
+ * Server-side entry point that picks and persists `next_call_due` for one user or for a batch
+ * of users whose call is missing or overdue, so calls keep coming while the app is closed.
+ * Runs in any runtime with the Fetch API (Node 18+, edge functions, Deno); deployed as
+ * api/generate-next-call.ts.
+ */
+
+import { SchedulingLogger, SchedulingLogContext, ValidationError } from '@/types';
+import { NextCallStatus, planNextCall } from '@/features/scheduling/utils/nextCall';
+import { SchedulingStore } from './store';
+
+export interface GenerateNextCallOptions {
+  /** Defaults to the current time */
+  now?: Date;
+  logger?: SchedulingLogger;
+  /** Fixed PRNG seed, for tests */
+  seed?: number;
+}
+
+export interface GenerateNextCallOutcome {
+  userId: string;
+  status: NextCallStatus;
+  /** The user's next call after the run, if any */
+  nextCallDue: string | null;
+  reason?: string;
+}
+
+// Recent history the preference model learns from, as in the app
+const PREFERENCE_HISTORY_LIMIT = 200;
+
+export const DEFAULT_BATCH_SIZE = 100;
+export const MAX_BATCH_SIZE = 500;
+
+/**
+ * Writes each log line as one JSON object, which server log collectors pick up as structured logs
+ */
+export const consoleSchedulingLogger: SchedulingLogger = {
+  debug: (message, context) => console.debug(JSON.stringify({ level: 'debug', message, ...context })),
+  info: (message, context) => console.info(JSON.stringify({ level: 'info', message, ...context })),
+  warn: (message, context) => console.warn(JSON.stringify({ level: 'warn', message, ...context })),
+  error: (message, context) => console.error(JSON.stringify({ level: 'error', message, ...context })),
+};
+
+/**
+ * Bring one user's schedule up to date: keep a pending call, record a missed one and follow
+ * it up, or pick a new time. Only writes when something changed.
+ */
+export async function generateNextCall(
+  store: SchedulingStore,
+  userId: string,
+  options: GenerateNextCallOptions = {}
+): Promise<GenerateNextCallOutcome> {
+  const now = options.now ?? new Date();
+  const logContext: SchedulingLogContext = { userId, component: 'generateNextCall', action: 'generateNextCall' };
+
+  const user = await store.getUser(userId);
+  if (!user) {
+    return { userId, status: 'skipped', nextCallDue: null, reason: 'user_not_found' };
+  }
+
+  const [scheduleHelper, blockedTimes, dateOverrides, history] = await Promise.all([
+    store.getScheduleHelper(userId, user.timezone),
+    store.getBlockedTimes(userId),
+    store.getDateOverrides(userId),
+    store.getCallHistory(userId, PREFERENCE_HISTORY_LIMIT),
+  ]);
+
+  const plan = await planNextCall({
+    user,
+    scheduleHelper,
+    blockedTimes,
+    dateOverrides,
+    history,
+    now,
+    seed: options.seed,
+    logger: options.logger,
+  });
+
+  // Save the schedule first: if that loses a race, the miss is recorded by whoever won it
+  let nextCallDue = scheduleHelper.next_call_due ?? null;
+  if (Object.keys(plan.updates).length > 0) {
+    const updated = await store.updateScheduleHelper(userId, plan.updates, scheduleHelper.lock_version);
+    nextCallDue = updated.next_call_due ?? null;
+  }
+  if (plan.missedCall) {
+    await store.addCallHistoryEntry(plan.missedCall);
+  }
+
+  options.logger?.info('Next call brought up to date', {
+    ...logContext,
+    metadata: {
+      status: plan.status,
+      reason: plan.reason,
+      nextCallDue,
+      missed: !!plan.missedCall,
+      seed: plan.result?.metadata?.seed,
+      strategy: plan.result?.metadata?.trace?.strategy,
+    },
+  });
+
+  return { userId, status: plan.status, nextCallDue, ...(plan.reason && { reason: plan.reason }) };
+}
+
+/**
+ * Run generateNextCall for up to `limit` users without a next call or with one already missed.
+ * One user's failure doesn't stop the rest.
+ */
+export async function generateDueCalls(
+  store: SchedulingStore,
+  options: GenerateNextCallOptions & { limit?: number } = {}
+): Promise<GenerateNextCallOutcome[]> {
+  const now = options.now ?? new Date();
+  const userIds = await store.listUsersToSchedule(now, options.limit ?? DEFAULT_BATCH_SIZE);
+  const outcomes: GenerateNextCallOutcome[] = [];
+
+  // One at a time keeps the load on the database flat
+  for (const userId of userIds) {
+    try {
+      outcomes.push(await generateNextCall(store, userId, { ...options, now }));
+    } catch (error) {
+      options.logger?.error('Failed to generate next call', {
+        userId,
+        component: 'generateNextCall',
+        action: 'generateDueCalls',
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      });
+      outcomes.push({
+        userId,
+        status: 'failed',
+        nextCallDue: null,
+        reason: error instanceof ValidationError ? 'schedule_conflict' : 'error',
+      });
+    }
+  }
+
+  return outcomes;
+}
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * HTTP handler for generate_next_call. POST `{ "user_id": "..." }` for one user, or `{}` or
+ * `{ "limit": n }` for a batch of due users; responds with `{ results: GenerateNextCallOutcome[] }`.
+ * With a secret, requests must send it as a bearer token.
+ */
+export async function handleGenerateNextCall(
+  request: Request,
+  store: SchedulingStore,
+  options: GenerateNextCallOptions & { secret?: string } = {}
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+  if (options.secret && request.headers.get('Authorization') !== `Bearer ${options.secret}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: { user_id?: unknown; limit?: unknown };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const { user_id: userId, limit } = body;
+  if (userId !== undefined && (typeof userId !== 'string' || userId === '')) {
+    return json({ error: 'user_id must be a non-empty string' }, 400);
+  }
+  if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE)) {
+    return json({ error: `limit must be a whole number from 1 to ${MAX_BATCH_SIZE}` }, 400);
+  }
+
+  try {
+    const results = typeof userId === 'string'
+      ? [await generateNextCall(store, userId, options)]
+      : await generateDueCalls(store, { ...options, limit: limit as number | undefined });
+    return json({ results }, 200);
+  } catch (error) {
+    options.logger?.error('generate_next_call failed', {
+      ...(typeof userId === 'string' && { userId }),
+      component: 'generateNextCall',
+      action: 'handleGenerateNextCall',
+      metadata: { error: error instanceof Error ? error.message : String(error) },
+    });
+    return json({ error: 'Failed to generate next call' }, 500);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Scheduling Store
+ * The reads and writes the server-side scheduler needs, with an in-memory implementation
+ * for tests and local runs
+ */
+
+import { User, BlockedTime, CallHistory, DateOverride, ScheduleHelper, ValidationError } from '@/types';
+import { getDailyResetUpdate } from '@/features/scheduling/utils/dailyReset';
+import { getPauseState } from '@/features/scheduling/utils/pause';
+import { isCallMissed } from '@/features/scheduling/utils/missedCall';
+
+export interface SchedulingStore {
+  getUser(userId: string): Promise<User | null>;
+  /** Creates the helper, counting calls from the user's local day, when they don't have one yet */
+  getScheduleHelper(userId: string, timezone: string): Promise<ScheduleHelper>;
+  /** Active blocks only */
+  getBlockedTimes(userId: string): Promise<BlockedTime[]>;
+  getDateOverrides(userId: string): Promise<DateOverride[]>;
+  /** Most recent first */
+  getCallHistory(userId: string, limit: number): Promise<CallHistory[]>;
+  addCallHistoryEntry(entry: Omit<CallHistory, 'id' | 'created_at'>): Promise<CallHistory>;
+  /** Throws a ValidationError when lock_version no longer matches */
+  updateScheduleHelper(
+    userId: string,
+    updates: Partial<ScheduleHelper>,
+    expectedLockVersion: number
+  ): Promise<ScheduleHelper>;
+  /**
+   * Active, unpaused users whose next call was missed by `before` (its grace period is over),
+   * longest-waiting first, then users with no next call, least recently generated first.
+   * Calls still inside their grace period are left out: there is nothing to do for them yet.
+   */
+  listUsersToSchedule(before: Date, limit: number): Promise<string[]>;
+}
+
+export interface SchedulingStoreData {
+  users: User[];
+  scheduleHelpers: ScheduleHelper[];
+  blockedTimes?: BlockedTime[];
+  dateOverrides?: DateOverride[];
+  callHistory?: CallHistory[];
+}
+
+/**
+ * A store backed by plain arrays, which it updates in place
+ */
+export function createMemorySchedulingStore(
+  data: SchedulingStoreData,
+  now: () => Date = () => new Date()
+): SchedulingStore {
+  const blockedTimes = data.blockedTimes ?? [];
+  const dateOverrides = data.dateOverrides ?? [];
+  const callHistory = (data.callHistory ??= []);
+  let nextId = 1;
+
+  return {
+    async getUser(userId) {
+      return data.users.find(user => user.id === userId) ?? null;
+    },
+
+    async getScheduleHelper(userId, timezone) {
+      const existing = data.scheduleHelpers.find(helper => helper.user_id === userId);
+      if (existing) return existing;
+
+      const created: ScheduleHelper = {
+        id: `helper-${nextId++}`,
+        user_id: userId,
+        ...getDailyResetUpdate(timezone, now()),
+        last_generated: now().toISOString(),
+        updated_at: now().toISOString(),
+        lock_version: 1,
+      };
+      data.scheduleHelpers.push(created);
+      return created;
+    },
+
+    async getBlockedTimes(userId) {
+      return blockedTimes.filter(block => block.user_id === userId && block.is_active);
+    },
+
+    async getDateOverrides(userId) {
+      return dateOverrides.filter(override => override.user_id === userId);
+    },
+
+    async getCallHistory(userId, limit) {
+      return callHistory
+        .filter(entry => entry.user_id === userId)
+        .sort((a, b) => b.scheduled_time.localeCompare(a.scheduled_time))
+        .slice(0, limit);
+    },
+
+    async addCallHistoryEntry(entry) {
+      const created: CallHistory = { ...entry, id: `call-${nextId++}`, created_at: now().toISOString() };
+      callHistory.push(created);
+      return created;
+    },
+
+    async updateScheduleHelper(userId, updates, expectedLockVersion) {
+      const index = data.scheduleHelpers.findIndex(helper => helper.user_id === userId);
+      const current = data.scheduleHelpers[index];
+      if (!current || current.lock_version !== expectedLockVersion) {
+        throw new ValidationError('Schedule was modified by another process. Please refresh and try again.');
+      }
+
+      const updated: ScheduleHelper = {
+        ...current,
+        ...updates,
+        updated_at: now().toISOString(),
+        lock_version: expectedLockVersion + 1,
+      };
+      data.scheduleHelpers[index] = updated;
+      return updated;
+    },
+
+    async listUsersToSchedule(before, limit) {
+      const schedulable = new Map(data.users
+        .filter(user => user.is_active && !getPauseState(user, before).isPaused)
+        .map(user => [user.id, user]));
+
+      return data.scheduleHelpers
+        .filter(helper => {
+          const user = schedulable.get(helper.user_id);
+          return !!user && (!helper.next_call_due || isCallMissed(user, new Date(helper.next_call_due), before));
+        })
+        .sort((a, b) =>
+          Number(!a.next_call_due) - Number(!b.next_call_due)
+          || (a.next_call_due ?? a.last_generated).localeCompare(b.next_call_due ?? b.last_generated)
+        )
+        .slice(0, limit)
+        .map(helper => helper.user_id);
+    },
+  };
+}
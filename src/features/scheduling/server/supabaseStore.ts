@@ -0,0 +1,146 @@
+/**
+ * Supabase Scheduling Store
+ * Backs the server-side scheduler with the app's tables. Pass a client created with the
+ * service role key: it reads and writes every user's schedule, which row level security
+ * would otherwise hide.
+ */
+
+import { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+import { AppError, ScheduleHelper, User, ValidationError } from '@/types';
+import { getDailyResetUpdate } from '@/features/scheduling/utils/dailyReset';
+import { isCallMissed } from '@/features/scheduling/utils/missedCall';
+import { SchedulingStore } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A schedule row with its user embedded as one object (many-to-one)
+type ScheduleCandidate = Pick<ScheduleHelper, 'user_id' | 'next_call_due'> & {
+  users: Pick<User, 'timezone' | 'missed_call_grace_minutes' | 'missed_call_follow_up'>;
+};
+
+function toAppError(error: PostgrestError, operation: string): AppError {
+  return new AppError(
+    `${operation} failed: ${error.message}`,
+    error.code || 'DATABASE_ERROR',
+    500,
+    error
+  );
+}
+
+export function createSupabaseSchedulingStore(client: SupabaseClient): SchedulingStore {
+  // Local dates a day back still apply in timezones ahead of UTC
+  const yesterday = () => new Date(Date.now() - DAY_MS).toISOString().split('T')[0];
+
+  return {
+    async getUser(userId) {
+      const { data, error } = await client.from('users').select('*').eq('id', userId).maybeSingle();
+      if (error) throw toAppError(error, 'getUser');
+      return data;
+    },
+
+    async getScheduleHelper(userId, timezone) {
+      const { data, error } = await client.from('schedule_helper').select('*').eq('user_id', userId).maybeSingle();
+      if (error) throw toAppError(error, 'getScheduleHelper');
+      if (data) return data;
+
+      const { data: created, error: createError } = await client
+        .from('schedule_helper')
+        .insert({
+          user_id: userId,
+          ...getDailyResetUpdate(timezone),
+          last_generated: new Date().toISOString(),
+          lock_version: 1,
+        })
+        .select()
+        .single();
+      if (createError) throw toAppError(createError, 'createScheduleHelper');
+      return created;
+    },
+
+    async getBlockedTimes(userId) {
+      const { data, error } = await client
+        .from('blocked_times')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .or(`end_date.is.null,end_date.gte.${yesterday()}`)
+        .order('priority', { ascending: false });
+      if (error) throw toAppError(error, 'getBlockedTimes');
+      return data || [];
+    },
+
+    async getDateOverrides(userId) {
+      const { data, error } = await client
+        .from('date_overrides')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('date', yesterday())
+        .order('date', { ascending: true });
+      if (error) throw toAppError(error, 'getDateOverrides');
+      return data || [];
+    },
+
+    async getCallHistory(userId, limit) {
+      const { data, error } = await client
+        .from('call_history')
+        .select('*')
+        .eq('user_id', userId)
+        .order('scheduled_time', { ascending: false })
+        .limit(limit);
+      if (error) throw toAppError(error, 'getCallHistory');
+      return data || [];
+    },
+
+    async addCallHistoryEntry(entry) {
+      const { data, error } = await client.from('call_history').insert(entry).select().single();
+      if (error) throw toAppError(error, 'addCallHistoryEntry');
+      return data;
+    },
+
+    async updateScheduleHelper(userId, updates, expectedLockVersion) {
+      const { data, error } = await client
+        .from('schedule_helper')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+          lock_version: expectedLockVersion + 1,
+        })
+        .eq('user_id', userId)
+        .eq('lock_version', expectedLockVersion)
+        .select()
+        .maybeSingle();
+      if (error) throw toAppError(error, 'updateScheduleHelper');
+      if (!data) {
+        throw new ValidationError('Schedule was modified by another process. Please refresh and try again.');
+      }
+      return data;
+    },
+
+    async listUsersToSchedule(before, limit) {
+      // Grace periods are per user, so calls still inside theirs are dropped here. Paging on
+      // keeps them from filling the batch ahead of users who need a call.
+      const userIds: string[] = [];
+      for (let offset = 0; userIds.length < limit; offset += limit) {
+        const { data, error } = await client
+          .from('schedule_helper')
+          .select('user_id, next_call_due, users!inner(timezone, missed_call_grace_minutes, missed_call_follow_up)')
+          .or(`next_call_due.is.null,next_call_due.lte.${before.toISOString()}`)
+          .eq('users.is_active', true)
+          .or(`paused_at.is.null,paused_until.lte.${before.toISOString()}`, { referencedTable: 'users' })
+          .order('next_call_due', { ascending: true, nullsFirst: false })
+          .order('last_generated', { ascending: true })
+          .range(offset, offset + limit - 1)
+          .overrideTypes<ScheduleCandidate[], { merge: false }>();
+        if (error) throw toAppError(error, 'listUsersToSchedule');
+
+        for (const row of data || []) {
+          if (!row.next_call_due || isCallMissed(row.users, new Date(row.next_call_due), before)) {
+            userIds.push(row.user_id);
+          }
+        }
+        if (!data || data.length < limit) break;
+      }
+      return userIds.slice(0, limit);
+    },
+  };
+}
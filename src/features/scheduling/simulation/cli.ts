@@ -0,0 +1,83 @@
+/// <reference types="node" />
+/**
+ * Scheduler simulation from the command line:
+ *
+ *   npm run simulate -- --weeks 4 --seed 7 --profile ./profile.json --json
+ *
+ * A profile is a JSON file with any of `user` (merged over the sample user), `blockedTimes`,
+ * `dateOverrides`, `behavior` and `constraints`. Without one the sample profile is used.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { User, BlockedTime, BlockRepeatType } from '@/types';
+import { SimulationConfig, formatSimulationReport, simulateSchedule } from './simulate';
+
+const SAMPLE_USER: User = {
+  id: 'simulated-user',
+  email: 'simulated@example.com',
+  name: 'Sam',
+  partner_name: 'Alex',
+  daily_call_limit: 3,
+  active_days: 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+  morning_start: '08:00',
+  evening_end: '22:00',
+  preferred_platforms: 'phone',
+  timezone: 'Europe/London',
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  version: 1,
+};
+
+const SAMPLE_BLOCKS: BlockedTime[] = [
+  {
+    id: 'simulated-work',
+    user_id: SAMPLE_USER.id,
+    block_name: 'Work',
+    start_time: '09:00',
+    end_time: '17:30',
+    repeat_type: BlockRepeatType.WEEKDAYS,
+    is_active: true,
+    priority: 5,
+    created_at: '2024-01-01T00:00:00Z',
+  },
+];
+
+type SimulationProfile = Partial<Omit<SimulationConfig, 'user' | 'start' | 'weeks' | 'seed'>> & { user?: Partial<User> };
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      weeks: { type: 'string', default: '4' },
+      seed: { type: 'string', default: '1' },
+      start: { type: 'string' },
+      profile: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const weeks = Number(values.weeks);
+  const seed = Number(values.seed);
+  const start = new Date(values.start ?? Date.now());
+  if (!Number.isInteger(weeks) || weeks < 1 || !Number.isInteger(seed) || Number.isNaN(start.getTime())) {
+    throw new Error('--weeks must be a whole number of at least 1, --seed a whole number and --start a date');
+  }
+
+  const profile: SimulationProfile = values.profile ? JSON.parse(readFileSync(values.profile, 'utf8')) : {};
+  const report = await simulateSchedule({
+    ...profile,
+    user: { ...SAMPLE_USER, ...profile.user },
+    blockedTimes: profile.blockedTimes ?? (values.profile ? [] : SAMPLE_BLOCKS),
+    start,
+    weeks,
+    seed,
+  });
+
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatSimulationReport(report));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { formatSimulationReport, simulateSchedule, SimulationConfig } from './simulate';
+import { BlockRepeatType, User } from '@/types';
+
+describe('scheduler simulation', () => {
+    const user: User = {
+        id: 'user-1',
+        email: 'test@example.com',
+        name: 'Test User',
+        partner_name: 'Partner',
+        daily_call_limit: 2,
+        active_days: 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+        morning_start: '09:00',
+        evening_end: '21:00',
+        preferred_platforms: 'phone',
+        timezone: 'Asia/Tokyo',
+        is_active: true,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+        version: 1,
+    };
+    const config: SimulationConfig = {
+        user,
+        blockedTimes: [{
+            id: 'block-1',
+            user_id: 'user-1',
+            block_name: 'Lunch',
+            start_time: '12:00',
+            end_time: '13:00',
+            repeat_type: BlockRepeatType.DAILY,
+            is_active: true,
+            priority: 5,
+            created_at: '2024-01-01T00:00:00Z',
+        }],
+        // 08:00 Monday in Tokyo
+        start: new Date('2024-03-03T23:00:00Z'),
+        weeks: 2,
+        seed: 11,
+    };
+
+    it('should keep every generated call inside the rules', async () => {
+        const report = await simulateSchedule(config);
+
+        expect(report.scheduled).toBeGreaterThan(0);
+        expect(report.failures).toBe(0);
+        expect(report.violations).toEqual({});
+        expect(report.perDay).toHaveLength(15);
+        expect(report.daysOverLimit).toBe(0);
+        expect(report.perDay.every(day => day.called <= user.daily_call_limit)).toBe(true);
+
+        // Only window hours outside lunch
+        expect(report.hourHistogram.reduce((sum, count) => sum + count, 0)).toBe(report.scheduled);
+        report.hourHistogram.forEach((count, hour) => {
+            if (hour < 9 || hour > 21 || hour === 12) expect(count).toBe(0);
+        });
+        expect(report.gaps.buckets.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(report.scheduled - 1);
+        expect(report.gaps.minMinutes).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should repeat a run exactly for the same seed', async () => {
+        const first = await simulateSchedule(config);
+        const second = await simulateSchedule(config);
+        const other = await simulateSchedule({ ...config, seed: 12 });
+
+        expect(second).toEqual(first);
+        expect(other.hourHistogram).not.toEqual(first.hourHistogram);
+    });
+
+    it('should count snoozes, skips and bent rules', async () => {
+        const report = await simulateSchedule({
+            ...config,
+            weeks: 1,
+            behavior: { callRate: 0.4, skipRate: 0.2, snoozeRate: 0.4 },
+            // Errands cover the whole window, so every call bends them
+            blockedTimes: [{ ...config.blockedTimes![0]!, block_name: 'Errands', start_time: '00:00', end_time: '23:59', priority: 0 }],
+        });
+
+        expect(report.outcomes.snoozed).toBeGreaterThan(0);
+        expect(report.outcomes.skipped).toBeGreaterThan(0);
+        expect(report.outcomes.missed).toBe(0);
+        expect(report.strategies).toEqual({ constraint_relaxation: report.scheduled });
+        expect(report.relaxations['ignore_low_priority_blocks']).toBe(report.scheduled);
+        expect(report.violations['blocked_errands']).toBe(report.scheduled);
+
+        const text = formatSimulationReport(report);
+        expect(text).toContain('Hour of day');
+        expect(text).toContain('ignore_low_priority_blocks');
+    });
+});
@@ -0,0 +1,342 @@
+/**
+ * Scheduler Simulation
+ * Runs weeks of generate → call/skip/snooze/miss cycles against a virtual clock and reports
+ * how the generated calls are spread out, so "too clustered" or "too sparse" can be measured.
+ */
+
+import {
+  User,
+  BlockedTime,
+  CallHistory,
+  CallStatus,
+  ConstraintModel,
+  DateOverride,
+  ScheduleHelper,
+} from '@/types';
+import { createScheduler } from '@/features/scheduling/utils/scheduler';
+import { getSchedulerOptions, planNextCall } from '@/features/scheduling/utils/nextCall';
+import { createFixedClock, createSeededRandom } from '@/features/scheduling/utils/random';
+import { getCallsToday, getDailyResetUpdate, needsDailyReset } from '@/features/scheduling/utils/dailyReset';
+import { getMissedCallDeadline } from '@/features/scheduling/utils/missedCall';
+import { SNOOZE_DURATIONS_MINUTES, getSnoozeEntry, getSnoozeState } from '@/features/scheduling/utils/snooze';
+import { addDaysToDateKey, getZonedDateTime } from '@/features/scheduling/utils/zonedTime';
+import { MINUTE_MS } from '@/features/scheduling/utils/intervals';
+
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * How the simulated user answers a call that comes due. Rates are relative weights;
+ * whatever is left of 1 after call, skip and snooze is a missed call.
+ */
+export interface SimulationBehavior {
+  callRate: number;
+  skipRate: number;
+  snoozeRate: number;
+  /** Rating given to each completed call, 1-5; none when unset */
+  rating?: number;
+}
+
+export interface SimulationConfig {
+  user: User;
+  blockedTimes?: BlockedTime[];
+  dateOverrides?: DateOverride[];
+  /** Virtual time the simulation starts at */
+  start: Date;
+  weeks: number;
+  /** Seeds the user's behavior and every generation, so a run can be repeated exactly */
+  seed: number;
+  behavior?: SimulationBehavior;
+  constraints?: Partial<ConstraintModel>;
+}
+
+export const DEFAULT_SIMULATION_BEHAVIOR: SimulationBehavior = {
+  callRate: 0.7,
+  skipRate: 0.1,
+  snoozeRate: 0.15,
+  rating: 4,
+};
+
+export type SimulatedOutcome = 'called' | 'skipped' | 'snoozed' | 'missed';
+
+export interface SimulationDay {
+  /** Local "YYYY-MM-DD" */
+  date: string;
+  /** Generated call times falling on the day */
+  scheduled: number;
+  /** Calls completed on the day, held to the daily limit */
+  called: number;
+}
+
+export interface GapBucket {
+  label: string;
+  /** Upper bound in minutes; the last bucket has none */
+  maxMinutes: number | null;
+  count: number;
+}
+
+export interface SimulationReport {
+  seed: number;
+  start: string;
+  end: string;
+  dailyLimit: number;
+  /** Successful generations */
+  scheduled: number;
+  /** Generations that found no time */
+  failures: number;
+  outcomes: Record<SimulatedOutcome, number>;
+  /** Generated call times by local hour, 0-23 */
+  hourHistogram: number[];
+  perDay: SimulationDay[];
+  daysOverLimit: number;
+  daysWithoutCalls: number;
+  /** Time between consecutive generated calls */
+  gaps: {
+    buckets: GapBucket[];
+    minMinutes: number | null;
+    medianMinutes: number | null;
+    maxMinutes: number | null;
+  };
+  /** Generated times that failed validation at the moment they were generated, by reason */
+  violations: Record<string, number>;
+  /** Which strategy produced each generated time */
+  strategies: Record<string, number>;
+  /** How often each soft rule was bent */
+  relaxations: Record<string, number>;
+}
+
+const GAP_BUCKETS: { label: string; maxMinutes: number | null }[] = [
+  { label: '< 1h', maxMinutes: 60 },
+  { label: '1-2h', maxMinutes: 120 },
+  { label: '2-4h', maxMinutes: 240 },
+  { label: '4-8h', maxMinutes: 480 },
+  { label: '8-24h', maxMinutes: 1440 },
+  { label: '1-2d', maxMinutes: 2880 },
+  { label: '2d+', maxMinutes: null },
+];
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+function pickOutcome(behavior: SimulationBehavior, random: number): SimulatedOutcome {
+  if (random < behavior.callRate) return 'called';
+  if (random < behavior.callRate + behavior.skipRate) return 'skipped';
+  if (random < behavior.callRate + behavior.skipRate + behavior.snoozeRate) return 'snoozed';
+  return 'missed';
+}
+
+/**
+ * Simulate the user's schedule from `start` for `weeks` weeks
+ */
+export async function simulateSchedule(config: SimulationConfig): Promise<SimulationReport> {
+  const { user, start } = config;
+  const blockedTimes = config.blockedTimes ?? [];
+  const dateOverrides = config.dateOverrides ?? [];
+  const behavior = config.behavior ?? DEFAULT_SIMULATION_BEHAVIOR;
+  const random = createSeededRandom(config.seed);
+  const nextSeed = () => Math.floor(random() * 2 ** 32);
+  const end = new Date(start.getTime() + config.weeks * 7 * 24 * HOUR_MS);
+
+  let helper: ScheduleHelper = {
+    id: 'simulated-helper',
+    user_id: user.id,
+    calls_today: 0,
+    daily_reset_date: getZonedDateTime(start, user.timezone).dateKey,
+    last_generated: start.toISOString(),
+    updated_at: start.toISOString(),
+    lock_version: 1,
+  };
+  const history: CallHistory[] = [];
+  const record = (entry: Omit<CallHistory, 'id' | 'created_at'>, at: Date) => {
+    history.unshift({ ...entry, id: `simulated-${history.length + 1}`, created_at: at.toISOString() });
+  };
+
+  const outcomes: Record<SimulatedOutcome, number> = { called: 0, skipped: 0, snoozed: 0, missed: 0 };
+  const generated: number[] = [];
+  const calledDays: Record<string, number> = {};
+  const violations: Record<string, number> = {};
+  const strategies: Record<string, number> = {};
+  const relaxations: Record<string, number> = {};
+  let failures = 0;
+  let now = start;
+
+  while (now < end) {
+    const plan = await planNextCall({
+      user,
+      scheduleHelper: helper,
+      blockedTimes,
+      dateOverrides,
+      history,
+      now,
+      seed: nextSeed(),
+      constraints: config.constraints,
+    });
+
+    if (plan.missedCall) record(plan.missedCall, now);
+    const before = helper;
+    helper = { ...helper, ...plan.updates };
+
+    if (plan.status === 'scheduled' && plan.result?.nextCallTime) {
+      const time = plan.result.nextCallTime;
+      generated.push(time.getTime());
+      increment(strategies, plan.result.metadata?.trace?.strategy ?? 'unknown');
+      plan.result.metadata?.trace?.relaxations.forEach(relaxation => increment(relaxations, relaxation));
+
+      // Check the time against every rule as they stood when it was picked
+      const validator = createScheduler(user, {
+        ...getSchedulerOptions(user, history, dateOverrides, now),
+        constraints: config.constraints,
+        clock: createFixedClock(now),
+      });
+      const validation = await validator.validateCallTime(time, blockedTimes, { ...before, ...plan.updates });
+      if (!validation.isValid) increment(violations, validation.reason ?? 'unknown');
+    } else if (plan.status === 'scheduled' && plan.updates.next_call_due) {
+      // Nudges and week plan slots are still calls the user gets
+      generated.push(new Date(plan.updates.next_call_due).getTime());
+    }
+
+    if (!helper.next_call_due) {
+      // Nothing could be scheduled: try again an hour later
+      if (plan.status === 'failed') failures++;
+      now = new Date(now.getTime() + HOUR_MS);
+      continue;
+    }
+
+    const due = new Date(helper.next_call_due);
+    if (due >= end) break;
+    now = due > now ? due : now;
+
+    const outcome = pickOutcome(behavior, random());
+    const snooze = getSnoozeState(helper);
+
+    if (outcome === 'snoozed' && snooze.canSnooze) {
+      const delay = SNOOZE_DURATIONS_MINUTES[Math.floor(random() * SNOOZE_DURATIONS_MINUTES.length)]!;
+      const snoozedTo = new Date(due.getTime() + delay * MINUTE_MS);
+      record(getSnoozeEntry(user.id, due, snoozedTo, snooze.count + 1, now), now);
+      helper = { ...helper, next_call_due: snoozedTo.toISOString(), snooze_count: snooze.count + 1 };
+      outcomes.snoozed++;
+    } else if (outcome === 'missed') {
+      // Come back once the grace period is over; the next plan records the miss
+      now = getMissedCallDeadline(user, due);
+      outcomes.missed++;
+    } else {
+      // Out of snoozes counts as a skip
+      const status = outcome === 'called' ? CallStatus.CALLED : CallStatus.SKIPPED;
+      const reset = needsDailyReset(helper, user.timezone, now) ? getDailyResetUpdate(user.timezone, now) : {};
+      record({
+        user_id: user.id,
+        scheduled_time: due.toISOString(),
+        actual_time: now.toISOString(),
+        status,
+        ...(status === CallStatus.CALLED && behavior.rating && { success_rating: behavior.rating }),
+      }, now);
+      helper = {
+        ...helper,
+        ...reset,
+        last_call_time: now.toISOString(),
+        next_call_due: null,
+        snooze_count: 0,
+        ...(status === CallStatus.CALLED && { calls_today: getCallsToday(helper, user.timezone, now) + 1 }),
+      };
+      if (status === CallStatus.CALLED) {
+        increment(calledDays, getZonedDateTime(now, user.timezone).dateKey);
+        outcomes.called++;
+      } else {
+        outcomes.skipped++;
+      }
+    }
+  }
+
+  return buildReport(config, end, generated, calledDays, { outcomes, violations, strategies, relaxations, failures });
+}
+
+function buildReport(
+  config: SimulationConfig,
+  end: Date,
+  generated: number[],
+  calledDays: Record<string, number>,
+  tallies: Pick<SimulationReport, 'outcomes' | 'violations' | 'strategies' | 'relaxations' | 'failures'>
+): SimulationReport {
+  const { user, start } = config;
+  const hourHistogram = Array.from({ length: 24 }, () => 0);
+  const scheduledDays: Record<string, number> = {};
+
+  for (const time of generated) {
+    const local = getZonedDateTime(new Date(time), user.timezone);
+    hourHistogram[local.hour]!++;
+    increment(scheduledDays, local.dateKey);
+  }
+
+  const perDay: SimulationDay[] = [];
+  const lastDay = getZonedDateTime(new Date(end.getTime() - 1), user.timezone).dateKey;
+  for (let day = getZonedDateTime(start, user.timezone).dateKey; day <= lastDay; day = addDaysToDateKey(day, 1)) {
+    perDay.push({ date: day, scheduled: scheduledDays[day] ?? 0, called: calledDays[day] ?? 0 });
+  }
+
+  const sorted = [...generated].sort((a, b) => a - b);
+  const gapMinutes = sorted.slice(1).map((time, i) => (time - sorted[i]!) / MINUTE_MS).sort((a, b) => a - b);
+  const buckets = GAP_BUCKETS.map(bucket => ({ ...bucket, count: 0 }));
+  for (const gap of gapMinutes) {
+    buckets.find(bucket => bucket.maxMinutes === null || gap < bucket.maxMinutes)!.count++;
+  }
+
+  return {
+    seed: config.seed,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    dailyLimit: user.daily_call_limit,
+    scheduled: generated.length,
+    ...tallies,
+    hourHistogram,
+    perDay,
+    daysOverLimit: perDay.filter(day => day.called > user.daily_call_limit).length,
+    daysWithoutCalls: perDay.filter(day => day.scheduled === 0).length,
+    gaps: {
+      buckets,
+      minMinutes: gapMinutes[0] ?? null,
+      medianMinutes: gapMinutes.length > 0 ? gapMinutes[Math.floor(gapMinutes.length / 2)]! : null,
+      maxMinutes: gapMinutes[gapMinutes.length - 1] ?? null,
+    },
+  };
+}
+
+/**
+ * Render a report as plain text for the terminal
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines: string[] = [];
+  const bar = (count: number, max: number) => '#'.repeat(max > 0 ? Math.round((count / max) * 40) : 0);
+  const list = (counts: Record<string, number>) => {
+    const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+    return entries.length > 0 ? entries.map(([key, count]) => `  ${key}: ${count}`) : ['  none'];
+  };
+
+  lines.push(`Simulation ${report.start} → ${report.end} (seed ${report.seed})`);
+  lines.push(`Generated ${report.scheduled} calls, ${report.failures} failed generations`);
+  lines.push(`Outcomes: ${Object.entries(report.outcomes).map(([outcome, count]) => `${outcome} ${count}`).join(', ')}`);
+
+  lines.push('', 'Hour of day');
+  const maxHour = Math.max(...report.hourHistogram);
+  report.hourHistogram.forEach((count, hour) => {
+    if (count > 0) lines.push(`  ${String(hour).padStart(2, '0')}:00 ${String(count).padStart(4)} ${bar(count, maxHour)}`);
+  });
+
+  lines.push('', `Per day (limit ${report.dailyLimit}): ${report.daysOverLimit} over the limit, ${report.daysWithoutCalls} without calls`);
+  for (const day of report.perDay) {
+    const flag = day.called > report.dailyLimit ? ' over limit' : '';
+    lines.push(`  ${day.date} scheduled ${day.scheduled}, called ${day.called}${flag}`);
+  }
+
+  const { gaps } = report;
+  lines.push('', `Gaps: min ${gaps.minMinutes ?? '-'}m, median ${gaps.medianMinutes ?? '-'}m, max ${gaps.maxMinutes ?? '-'}m`);
+  const maxGap = Math.max(...gaps.buckets.map(bucket => bucket.count));
+  for (const bucket of gaps.buckets) {
+    lines.push(`  ${bucket.label.padEnd(6)} ${String(bucket.count).padStart(4)} ${bar(bucket.count, maxGap)}`);
+  }
+
+  lines.push('', 'Constraint violations', ...list(report.violations));
+  lines.push('', 'Strategies', ...list(report.strategies));
+  lines.push('', 'Relaxations', ...list(report.relaxations));
+
+  return lines.map(line => line.trimEnd()).join('\n');
+}
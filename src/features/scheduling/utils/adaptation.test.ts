@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getCadenceAdaptation } from './adaptation';
+import { CallHistory, CallStatus } from '@/types';
+
+describe('adaptive cadence', () => {
+    // Newest first: entry(0) is the most recent outcome
+    const entry = (hoursAgo: number, status: CallStatus, rating?: number): CallHistory => {
+        const time = new Date(Date.UTC(2023, 9, 24, 20) - hoursAgo * 60 * 60 * 1000).toISOString();
+        return { id: time, user_id: 'user-1', scheduled_time: time, status, success_rating: rating, created_at: time };
+    };
+
+    it('should leave the cadence alone without a clear signal', () => {
+        expect(getCadenceAdaptation([], 3)).toEqual({ level: 0, gapFactor: 1, dailyLimit: 3, reason: 'none' });
+        expect(getCadenceAdaptation([entry(0, CallStatus.SKIPPED), entry(5, CallStatus.CALLED, 3)], 3).level).toBe(0);
+    });
+
+    it('should back off after consecutive skips', () => {
+        const history = [
+            entry(0, CallStatus.SKIPPED),
+            entry(3, CallStatus.FAILED),
+            entry(6, CallStatus.SKIPPED),
+            entry(9, CallStatus.CALLED, 5),
+        ];
+
+        expect(getCadenceAdaptation(history, 3)).toEqual({ level: 2, gapFactor: 2, dailyLimit: 1, reason: 'consecutive_skips' });
+    });
+
+    it('should back off after low ratings and ignore snoozes', () => {
+        const history = [
+            entry(0, CallStatus.LATER),
+            entry(1, CallStatus.CALLED, 1),
+            entry(24, CallStatus.CALLED, 4),
+            entry(48, CallStatus.CALLED, 2),
+        ];
+
+        expect(getCadenceAdaptation(history, 4)).toEqual({ level: 2, gapFactor: 2, dailyLimit: 2, reason: 'low_ratings' });
+    });
+
+    it('should stay within the configured limits', () => {
+        const skips = Array.from({ length: 8 }, (_, i) => entry(i, CallStatus.SKIPPED));
+        const adaptation = getCadenceAdaptation(skips, 2);
+
+        expect(adaptation.level).toBe(3);
+        expect(adaptation.dailyLimit).toBe(1);
+    });
+
+    it('should pick up after a run of well-rated calls', () => {
+        const history = [entry(0, CallStatus.CALLED, 5), entry(20, CallStatus.CALLED, 4), entry(40, CallStatus.CALLED, 5)];
+
+        expect(getCadenceAdaptation(history, 3)).toEqual({ level: -1, gapFactor: 0.75, dailyLimit: 3, reason: 'well_rated_streak' });
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Adaptive Cadence
+ * Backs off after a run of skipped or missed calls or poorly rated ones, and picks up again
+ * after a few well-rated calls. Only ever moves within the user's own gap and daily limits.
+ */
+
+import { CadenceAdaptation, CallHistory, CallStatus } from '@/types';
+
+// Outcomes that say how the last offered calls went; snoozes are still undecided
+const OUTCOME_STATUSES: CallStatus[] = [CallStatus.CALLED, CallStatus.SKIPPED, CallStatus.FAILED];
+
+// A single skip is noise; each one after it backs off a step
+const SKIPS_BEFORE_BACKOFF = 1;
+
+// Ratings at or below this count against the cadence, at or above GOOD_RATING for it
+const LOW_RATING = 2;
+const GOOD_RATING = 4;
+
+// Rated calls looked at, and how many in a row must be good to pick up again
+const RATED_WINDOW = 3;
+
+const MAX_BACKOFF_LEVEL = 3;
+
+// Each back-off step adds half the minimum gap again
+const BACKOFF_GAP_STEP = 0.5;
+
+// Picking up keeps the next call in the nearer three quarters of the usual spread
+const PICKUP_GAP_FACTOR = 0.75;
+
+const NO_ADAPTATION: Omit<CadenceAdaptation, 'dailyLimit'> = { level: 0, gapFactor: 1, reason: 'none' };
+
+/**
+ * Adaptation from the most recent call outcomes in `history`, which may be in any order
+ */
+export function getCadenceAdaptation(history: CallHistory[], dailyCallLimit: number): CadenceAdaptation {
+  const outcomes = history
+    .filter(entry => OUTCOME_STATUSES.includes(entry.status))
+    .sort((a, b) => b.scheduled_time.localeCompare(a.scheduled_time));
+
+  const leadingSkips = outcomes.findIndex(entry => entry.status === CallStatus.CALLED);
+  const consecutiveSkips = leadingSkips === -1 ? outcomes.length : leadingSkips;
+  const skipSteps = Math.max(0, consecutiveSkips - SKIPS_BEFORE_BACKOFF);
+
+  const ratings = outcomes
+    .filter(entry => entry.status === CallStatus.CALLED && typeof entry.success_rating === 'number')
+    .slice(0, RATED_WINDOW)
+    .map(entry => entry.success_rating!);
+  const lowRatings = ratings.filter(rating => rating <= LOW_RATING).length;
+
+  const level = Math.min(MAX_BACKOFF_LEVEL, skipSteps + lowRatings);
+  if (level > 0) {
+    return {
+      level,
+      gapFactor: 1 + level * BACKOFF_GAP_STEP,
+      dailyLimit: Math.max(1, dailyCallLimit - level),
+      reason: skipSteps >= lowRatings ? 'consecutive_skips' : 'low_ratings',
+    };
+  }
+
+  if (consecutiveSkips === 0 && ratings.length === RATED_WINDOW && ratings.every(rating => rating >= GOOD_RATING)) {
+    return { level: -1, gapFactor: PICKUP_GAP_FACTOR, dailyLimit: dailyCallLimit, reason: 'well_rated_streak' };
+  }
+
+  return { ...NO_ADAPTATION, dailyLimit: dailyCallLimit };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getWeeklyAvailability,
+    migrateLegacyAvailability,
+    summarizeWeeklyAvailability,
+    validateWeeklyAvailability,
+} from './availability';
+
+describe('weekly availability', () => {
+    it('should migrate the legacy window onto every active day', () => {
+        const template = migrateLegacyAvailability('Mon,Wed', '09:00:00', '21:00:00');
+
+        expect(template['Mon']).toEqual([{ start: '09:00', end: '21:00' }]);
+        expect(template['Wed']).toEqual([{ start: '09:00', end: '21:00' }]);
+        expect(template['Tue']).toEqual([]);
+    });
+
+    it('should prefer a stored template over the legacy fields', () => {
+        const stored = { Sat: [{ start: '10:00', end: '22:00' }] };
+        const template = getWeeklyAvailability({
+            weekly_availability: stored,
+            active_days: 'Mon',
+            morning_start: '09:00',
+            evening_end: '21:00',
+        });
+
+        expect(template).toBe(stored);
+    });
+
+    it('should reject reversed, overlapping and empty templates', () => {
+        expect(validateWeeklyAvailability({ Mon: [{ start: '13:00', end: '12:00' }] }))
+            .toBe('Mon: each window must start before it ends');
+        expect(validateWeeklyAvailability({ Mon: [{ start: '18:00', end: '22:00' }, { start: '12:00', end: '19:00' }] }))
+            .toBe('Mon: windows overlap');
+        expect(validateWeeklyAvailability({ Mon: [] })).toBe('Add at least one availability window');
+        expect(validateWeeklyAvailability({ Mon: [{ start: '12:00', end: '13:00' }, { start: '18:00', end: '22:00' }] }))
+            .toBeNull();
+    });
+
+    it('should summarize a template into the legacy fields', () => {
+        const summary = summarizeWeeklyAvailability({
+            Mon: [{ start: '12:00', end: '13:00' }, { start: '18:00', end: '22:00' }],
+            Sat: [{ start: '10:00', end: '21:00' }],
+        });
+
+        expect(summary).toEqual({ active_days: 'Mon,Sat', morning_start: '10:00', evening_end: '22:00' });
+    });
+});
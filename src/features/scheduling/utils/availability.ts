@@ -0,0 +1,113 @@
+/**
+ * Weekly Availability Template
+ * Call windows per weekday, migrated on read from the legacy single daily window
+ */
+
+import { User, AvailabilityWindow, WeeklyAvailability, DateOverride, DateOverrideType, APP_CONFIG } from '@/types';
+import { parseTimeOfDay, formatTimeOfDay, getWeekdayOfDateKey } from './zonedTime';
+
+type AvailabilityFields = Pick<User, 'weekly_availability' | 'active_days' | 'morning_start' | 'evening_end'>;
+
+// Matches the users table column defaults
+const DEFAULT_WINDOW: AvailabilityWindow = { start: '09:00', end: '21:00' };
+
+/** The whole local day, used by AVAILABLE overrides without windows */
+export const ALL_DAY_WINDOW: AvailabilityWindow = { start: '00:00', end: '23:59' };
+
+/**
+ * Build a template from active_days/morning_start/evening_end: the same window on every active day
+ */
+export function migrateLegacyAvailability(
+  activeDays: string,
+  morningStart: string,
+  eveningEnd: string
+): WeeklyAvailability {
+  const days = activeDays.split(',').map(day => day.trim());
+  // Postgres TIME columns come back as HH:mm:ss
+  const window = { start: morningStart.slice(0, 5), end: eveningEnd.slice(0, 5) };
+
+  return Object.fromEntries(
+    APP_CONFIG.WEEKDAYS.map(day => [day, days.includes(day) ? [{ ...window }] : []])
+  );
+}
+
+/**
+ * The user's weekly template, falling back to the legacy fields for profiles that predate it
+ */
+export function getWeeklyAvailability(user: AvailabilityFields): WeeklyAvailability {
+  return user.weekly_availability
+    ?? migrateLegacyAvailability(user.active_days, user.morning_start, user.evening_end);
+}
+
+/**
+ * Windows on a weekday ("Mon"), sorted by start time
+ */
+export function getWindowsForWeekday(availability: WeeklyAvailability, weekday: string): AvailabilityWindow[] {
+  return [...(availability[weekday] ?? [])]
+    .sort((a, b) => parseTimeOfDay(a.start) - parseTimeOfDay(b.start));
+}
+
+/**
+ * Windows on a local date ("YYYY-MM-DD"). A date override replaces the weekly template for that day.
+ */
+export function getWindowsForDate(
+  availability: WeeklyAvailability,
+  dateKey: string,
+  override?: DateOverride
+): AvailabilityWindow[] {
+  if (!override) return getWindowsForWeekday(availability, getWeekdayOfDateKey(dateKey));
+  if (override.override_type === DateOverrideType.UNAVAILABLE) return [];
+
+  return override.windows?.length
+    ? getWindowsForWeekday({ [dateKey]: override.windows }, dateKey)
+    : [ALL_DAY_WINDOW];
+}
+
+/**
+ * Describe the first problem with a template, or null when it is usable
+ */
+export function validateWeeklyAvailability(availability: WeeklyAvailability): string | null {
+  let windowCount = 0;
+
+  for (const day of APP_CONFIG.WEEKDAYS) {
+    const windows = getWindowsForWeekday(availability, day);
+
+    for (let i = 0; i < windows.length; i++) {
+      const window = windows[i]!;
+      if (parseTimeOfDay(window.start) >= parseTimeOfDay(window.end)) {
+        return `${day}: each window must start before it ends`;
+      }
+
+      const previous = windows[i - 1];
+      if (previous && parseTimeOfDay(window.start) < parseTimeOfDay(previous.end)) {
+        return `${day}: windows overlap`;
+      }
+      windowCount++;
+    }
+  }
+
+  return windowCount > 0 ? null : 'Add at least one availability window';
+}
+
+/**
+ * Legacy single-window fields summarizing a template, kept in sync for readers that predate it
+ */
+export function summarizeWeeklyAvailability(
+  availability: WeeklyAvailability
+): Pick<User, 'active_days' | 'morning_start' | 'evening_end'> {
+  const activeDays = APP_CONFIG.WEEKDAYS.filter(day => (availability[day] ?? []).length > 0);
+  const windows = activeDays.flatMap(day => availability[day] ?? []);
+
+  if (windows.length === 0) {
+    return { active_days: '', morning_start: DEFAULT_WINDOW.start, evening_end: DEFAULT_WINDOW.end };
+  }
+
+  const starts = windows.map(window => parseTimeOfDay(window.start));
+  const ends = windows.map(window => parseTimeOfDay(window.end));
+
+  return {
+    active_days: activeDays.join(','),
+    morning_start: formatTimeOfDay(Math.min(...starts)),
+    evening_end: formatTimeOfDay(Math.max(...ends)),
+  };
+}
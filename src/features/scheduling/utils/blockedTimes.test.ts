@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+    blockAppliesOnDate,
+    describeBlockRepeat,
+    getBlockedTimeFields,
+    getWeekTimeline,
+    isFlexibleBlock,
+    sortBlockedTimes
+} from './blockedTimes';
+import { BlockedTime, BlockRepeatType, DateOverride, DateOverrideType } from '@/types';
+
+describe('blocked times', () => {
+    const block = (overrides: Partial<BlockedTime>): BlockedTime => ({
+        id: 'block-1',
+        user_id: 'user-1',
+        block_name: 'Work',
+        start_time: '09:00',
+        end_time: '17:00',
+        repeat_type: BlockRepeatType.WEEKDAYS,
+        is_active: true,
+        priority: 5,
+        created_at: '2024-01-01T00:00:00Z',
+        ...overrides,
+    });
+
+    const user = {
+        active_days: 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+        morning_start: '08:00',
+        evening_end: '22:00',
+    };
+
+    // Monday
+    const weekStart = '2024-03-04';
+
+    it('should apply repeat rules and date ranges', () => {
+        const custom = block({ repeat_type: BlockRepeatType.CUSTOM, days_of_week: 'Mon,Wed' });
+        const once = block({ repeat_type: BlockRepeatType.ONCE, start_date: '2024-03-05' });
+        const ranged = block({ repeat_type: BlockRepeatType.DAILY, start_date: '2024-03-05', end_date: '2024-03-06' });
+
+        expect(blockAppliesOnDate(block({}), '2024-03-08')).toBe(true);
+        expect(blockAppliesOnDate(block({}), '2024-03-09')).toBe(false);
+        expect(blockAppliesOnDate(custom, '2024-03-06')).toBe(true);
+        expect(blockAppliesOnDate(custom, '2024-03-07')).toBe(false);
+        expect(blockAppliesOnDate(once, '2024-03-05')).toBe(true);
+        expect(blockAppliesOnDate(once, '2024-03-06')).toBe(false);
+        expect(['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07'].map(date => blockAppliesOnDate(ranged, date)))
+            .toEqual([false, true, true, false]);
+    });
+
+    it('should describe repeat rules with custom days in week order', () => {
+        expect(describeBlockRepeat(block({}))).toBe('Weekdays');
+        expect(describeBlockRepeat(block({ repeat_type: BlockRepeatType.CUSTOM, days_of_week: 'Fri,Mon' }))).toBe('Mon, Fri');
+        expect(describeBlockRepeat(block({ repeat_type: BlockRepeatType.ONCE }))).toBe('Once');
+    });
+
+    it('should only treat priority 0 blocks as flexible', () => {
+        expect(isFlexibleBlock({ priority: 0 })).toBe(true);
+        expect(isFlexibleBlock({ priority: 1 })).toBe(false);
+    });
+
+    it('should turn a form into row fields', () => {
+        expect(getBlockedTimeFields({
+            block_name: '  Gym ',
+            start_time: '18:00',
+            end_time: '19:30',
+            repeat_type: BlockRepeatType.CUSTOM,
+            days_of_week: ['Thu', 'Mon'],
+            start_date: '',
+            is_active: true,
+            priority: 3,
+        })).toEqual({
+            block_name: 'Gym',
+            start_time: '18:00',
+            end_time: '19:30',
+            repeat_type: BlockRepeatType.CUSTOM,
+            days_of_week: 'Mon,Thu',
+            start_date: null,
+            end_date: null,
+            is_active: true,
+            priority: 3,
+        });
+
+        // A one-time block covers just its own date unless given a range
+        const once = getBlockedTimeFields({
+            block_name: 'Dentist',
+            start_time: '10:00',
+            end_time: '11:00',
+            repeat_type: BlockRepeatType.ONCE,
+            days_of_week: ['Mon'],
+            start_date: '2024-03-05',
+            is_active: true,
+            priority: 5,
+        });
+        expect(once.end_date).toBe('2024-03-05');
+        expect(once.days_of_week).toBeUndefined();
+    });
+
+    it('should sort by priority, then start time', () => {
+        const sorted = sortBlockedTimes([
+            block({ id: 'late', start_time: '18:00', priority: 2 }),
+            block({ id: 'low', priority: 0 }),
+            block({ id: 'early', start_time: '07:00', priority: 2 }),
+        ]);
+
+        expect(sorted.map(b => b.id)).toEqual(['early', 'late', 'low']);
+    });
+
+    it('should lay out availability and active blocks for each day of the week', () => {
+        const days = getWeekTimeline(user, [
+            block({}),
+            block({ id: 'paused', is_active: false, repeat_type: BlockRepeatType.DAILY }),
+            block({ id: 'coffee', block_name: 'Coffee', start_time: '08:00', end_time: '08:30', repeat_type: BlockRepeatType.DAILY, priority: 0 }),
+        ], [], weekStart);
+
+        expect(days.map(day => day.weekday)).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+        expect(days[0]).toEqual({
+            date: '2024-03-04',
+            weekday: 'Mon',
+            available: [{ start: 8 * 60, end: 22 * 60 }],
+            blocks: [
+                { blockId: 'coffee', name: 'Coffee', flexible: true, start: 8 * 60, end: 8 * 60 + 30 },
+                { blockId: 'block-1', name: 'Work', flexible: false, start: 9 * 60, end: 17 * 60 },
+            ],
+        });
+        expect(days[5]!.blocks.map(span => span.blockId)).toEqual(['coffee']);
+    });
+
+    it('should split overnight blocks across the days they touch', () => {
+        const night = block({ block_name: 'Night shift', start_time: '22:00', end_time: '06:00', repeat_type: BlockRepeatType.CUSTOM, days_of_week: 'Sun,Fri' });
+        const days = getWeekTimeline(user, [night], [], weekStart);
+
+        // Sunday night of the week before spills into Monday morning
+        expect(days[0]!.blocks.map(span => [span.start, span.end])).toEqual([[0, 6 * 60]]);
+        expect(days[4]!.blocks.map(span => [span.start, span.end])).toEqual([[22 * 60, 24 * 60]]);
+        expect(days[5]!.blocks.map(span => [span.start, span.end])).toEqual([[0, 6 * 60]]);
+        expect(days[6]!.blocks.map(span => [span.start, span.end])).toEqual([[22 * 60, 24 * 60]]);
+        expect(days.slice(1, 4).every(day => day.blocks.length === 0)).toBe(true);
+    });
+
+    it('should use date overrides in place of the weekly template', () => {
+        const overrides: DateOverride[] = [
+            {
+                id: 'override-1',
+                user_id: 'user-1',
+                date: '2024-03-06',
+                override_type: DateOverrideType.UNAVAILABLE,
+                windows: null,
+                label: 'Holiday',
+                holiday_country: null,
+                created_at: '2024-01-01T00:00:00Z',
+            },
+        ];
+        const days = getWeekTimeline(user, [], overrides, weekStart);
+
+        expect(days[2]!.available).toEqual([]);
+        expect(days[2]!.override?.label).toBe('Holiday');
+        expect(days[3]!.override).toBeUndefined();
+    });
+});
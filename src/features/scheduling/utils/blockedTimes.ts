@@ -0,0 +1,167 @@
+/**
+ * Blocked Times
+ * Repeat rules of the user's blocks and the week timeline of availability against them
+ */
+
+import { User, BlockedTime, BlockedTimeForm, BlockRepeatType, DateOverride, APP_CONFIG } from '@/types';
+import { getWeeklyAvailability, getWindowsForDate } from './availability';
+import { DEFAULT_CONSTRAINT_MODEL, getBlockRule } from './constraints';
+import { addDaysToDateKey, getWeekdayOfDateKey, parseTimeOfDay } from './zonedTime';
+
+type AvailabilityFields = Pick<User, 'weekly_availability' | 'active_days' | 'morning_start' | 'evening_end'>;
+
+const DAY_MINUTES = 24 * 60;
+
+export const BLOCK_REPEAT_OPTIONS: { type: BlockRepeatType; label: string }[] = [
+  { type: BlockRepeatType.DAILY, label: 'Every day' },
+  { type: BlockRepeatType.WEEKDAYS, label: 'Weekdays' },
+  { type: BlockRepeatType.WEEKENDS, label: 'Weekends' },
+  { type: BlockRepeatType.CUSTOM, label: 'Custom days' },
+  { type: BlockRepeatType.ONCE, label: 'Once' },
+];
+
+/** Span of a local day in minutes since midnight; the end is exclusive */
+export interface TimelineSpan {
+  start: number;
+  end: number;
+}
+
+export interface TimelineBlockSpan extends TimelineSpan {
+  blockId: string;
+  name: string;
+  /** Low priority blocks may be called through when nothing else is free */
+  flexible: boolean;
+}
+
+export interface TimelineDay {
+  /** Local "YYYY-MM-DD" */
+  date: string;
+  weekday: string;
+  available: TimelineSpan[];
+  blocks: TimelineBlockSpan[];
+  /** The date override replacing the weekly template that day, if any */
+  override?: DateOverride;
+}
+
+/**
+ * Check if a block's date range and repeat rule apply to a local calendar date
+ */
+export function blockAppliesOnDate(block: BlockedTime, dateKey: string): boolean {
+  if (block.start_date && dateKey < block.start_date) return false;
+  if (block.end_date && dateKey > block.end_date) return false;
+
+  const day = getWeekdayOfDateKey(dateKey);
+
+  switch (block.repeat_type) {
+    case BlockRepeatType.DAILY:
+      return true;
+    case BlockRepeatType.WEEKDAYS:
+      return !['Sat', 'Sun'].includes(day);
+    case BlockRepeatType.WEEKENDS:
+      return ['Sat', 'Sun'].includes(day);
+    case BlockRepeatType.CUSTOM:
+      return !!block.days_of_week?.split(',').includes(day);
+    case BlockRepeatType.ONCE:
+      // One-time blocks only apply on their own date (or explicit range)
+      return !!block.start_date && (!!block.end_date || dateKey === block.start_date);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether the scheduler may bend a block under its default constraint model
+ */
+export function isFlexibleBlock(block: Pick<BlockedTime, 'priority'>): boolean {
+  return !getBlockRule(DEFAULT_CONSTRAINT_MODEL, block.priority).hard;
+}
+
+/**
+ * The repeat rule in words, e.g. "Weekdays" or "Mon, Wed, Fri". Date ranges are left to the caller.
+ */
+export function describeBlockRepeat(block: Pick<BlockedTime, 'repeat_type' | 'days_of_week'>): string {
+  if (block.repeat_type === BlockRepeatType.CUSTOM) {
+    const days = block.days_of_week?.split(',') ?? [];
+    return APP_CONFIG.WEEKDAYS.filter(day => days.includes(day)).join(', ') || 'No days';
+  }
+
+  return BLOCK_REPEAT_OPTIONS.find(option => option.type === block.repeat_type)?.label ?? block.repeat_type;
+}
+
+/**
+ * Row fields for a submitted form. Custom days are stored in week order, and a one-time block
+ * without an end date covers just its own date.
+ */
+export function getBlockedTimeFields(form: BlockedTimeForm): Omit<BlockedTime, 'id' | 'user_id' | 'created_at'> {
+  const isOnce = form.repeat_type === BlockRepeatType.ONCE;
+
+  return {
+    block_name: form.block_name.trim(),
+    start_time: form.start_time,
+    end_time: form.end_time,
+    repeat_type: form.repeat_type,
+    ...(form.repeat_type === BlockRepeatType.CUSTOM && {
+      days_of_week: APP_CONFIG.WEEKDAYS.filter(day => form.days_of_week?.includes(day)).join(','),
+    }),
+    start_date: form.start_date || null,
+    end_date: form.end_date || (isOnce ? form.start_date || null : null),
+    is_active: form.is_active,
+    priority: form.priority,
+  };
+}
+
+/**
+ * Highest priority first, then by start time, as the database returns them
+ */
+export function sortBlockedTimes(blockedTimes: BlockedTime[]): BlockedTime[] {
+  return [...blockedTimes].sort((a, b) =>
+    b.priority - a.priority || parseTimeOfDay(a.start_time) - parseTimeOfDay(b.start_time)
+  );
+}
+
+/**
+ * Availability and active blocks on each of the seven local days from `weekStart`.
+ * An overnight block shows up on both days it touches.
+ */
+export function getWeekTimeline(
+  user: AvailabilityFields,
+  blockedTimes: BlockedTime[],
+  dateOverrides: DateOverride[],
+  weekStart: string
+): TimelineDay[] {
+  const availability = getWeeklyAvailability(user);
+  const overrides = new Map(dateOverrides.map(override => [override.date, override]));
+  const activeBlocks = blockedTimes.filter(block => block.is_active);
+
+  return Array.from({ length: APP_CONFIG.WEEK_PLAN_DAYS }, (_, index) => {
+    const date = addDaysToDateKey(weekStart, index);
+    const previousDate = addDaysToDateKey(date, -1);
+    const override = overrides.get(date);
+
+    const blocks: TimelineBlockSpan[] = [];
+    for (const block of activeBlocks) {
+      const start = parseTimeOfDay(block.start_time);
+      const end = parseTimeOfDay(block.end_time);
+      const span = { blockId: block.id, name: block.block_name, flexible: isFlexibleBlock(block) };
+
+      if (start < end) {
+        if (blockAppliesOnDate(block, date)) blocks.push({ ...span, start, end });
+        continue;
+      }
+      // Wraps past midnight: the early hours belong to the previous day's occurrence
+      if (end > 0 && blockAppliesOnDate(block, previousDate)) blocks.push({ ...span, start: 0, end });
+      if (blockAppliesOnDate(block, date)) blocks.push({ ...span, start, end: DAY_MINUTES });
+    }
+
+    return {
+      date,
+      weekday: getWeekdayOfDateKey(date),
+      available: getWindowsForDate(availability, date, override).map(window => ({
+        start: parseTimeOfDay(window.start),
+        end: parseTimeOfDay(window.end),
+      })),
+      blocks: blocks.sort((a, b) => a.start - b.start),
+      ...(override && { override }),
+    };
+  });
+}
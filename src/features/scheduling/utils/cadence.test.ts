@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { countCallsThisWeek, getCadenceWindow, getWeekStartKey } from './cadence';
+import { CallHistory, CallStatus } from '@/types';
+
+describe('weekly cadence', () => {
+    // 2023-10-23 is a Monday
+    it('should start weeks on Monday', () => {
+        expect(getWeekStartKey('2023-10-23')).toBe('2023-10-23');
+        expect(getWeekStartKey('2023-10-25')).toBe('2023-10-23');
+        expect(getWeekStartKey('2023-10-29')).toBe('2023-10-23');
+    });
+
+    it('should count completed calls in the local week', () => {
+        const entry = (time: string, status: CallStatus): CallHistory => ({
+            id: time,
+            user_id: 'user-1',
+            scheduled_time: time,
+            status,
+            created_at: time,
+        });
+        const history = [
+            entry('2023-10-22T16:00:00Z', CallStatus.CALLED), // Monday 01:00 in Tokyo
+            entry('2023-10-22T14:00:00Z', CallStatus.CALLED), // Sunday in Tokyo
+            entry('2023-10-24T03:00:00Z', CallStatus.SKIPPED),
+        ];
+
+        expect(countCallsThisWeek(history, 'Asia/Tokyo', new Date('2023-10-25T00:00:00Z'))).toBe(1);
+    });
+
+    it('should spread the weekly target over the days left', () => {
+        // Two calls over seven days: aim for Tuesday or Wednesday
+        expect(getCadenceWindow({ today: '2023-10-23', callsThisWeek: 0, lastCallDay: null, weeklyTarget: 2 })).toEqual({
+            start: '2023-10-24',
+            end: '2023-10-26',
+            callsPerDay: 1,
+            reason: 'weekly_target',
+        });
+
+        // Five calls over the weekend: start now and double up
+        expect(getCadenceWindow({ today: '2023-10-28', callsThisWeek: 0, lastCallDay: null, weeklyTarget: 5 })).toEqual({
+            start: '2023-10-28',
+            end: '2023-10-30',
+            callsPerDay: 3,
+            reason: 'weekly_target',
+        });
+    });
+
+    it('should aim for next week once the target is met', () => {
+        const window = getCadenceWindow({ today: '2023-10-25', callsThisWeek: 2, lastCallDay: '2023-10-25', weeklyTarget: 2 });
+
+        expect(window?.start).toBe('2023-10-31');
+        expect(window?.end).toBe('2023-11-02');
+    });
+
+    it('should call before the allowed silent days run out', () => {
+        // One silent day allowed after Monday's call: Wednesday at the latest
+        expect(getCadenceWindow({ today: '2023-10-24', callsThisWeek: 1, lastCallDay: '2023-10-23', maxSilenceDays: 1 })).toEqual({
+            start: '2023-10-24',
+            end: '2023-10-26',
+            callsPerDay: null,
+            reason: 'max_silence',
+        });
+
+        // Already overdue: today
+        expect(getCadenceWindow({ today: '2023-10-27', callsThisWeek: 1, lastCallDay: '2023-10-23', maxSilenceDays: 1, weeklyTarget: 2 })).toEqual({
+            start: '2023-10-27',
+            end: '2023-10-28',
+            callsPerDay: 1,
+            reason: 'max_silence',
+        });
+
+        // A target that already lands within the deadline is left alone
+        expect(getCadenceWindow({ today: '2023-10-23', callsThisWeek: 0, lastCallDay: '2023-10-22', maxSilenceDays: 3, weeklyTarget: 2 })?.reason)
+            .toBe('weekly_target');
+    });
+
+    it('should not narrow anything without settings', () => {
+        expect(getCadenceWindow({ today: '2023-10-23', callsThisWeek: 0, lastCallDay: '2023-10-20' })).toBeNull();
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Weekly Cadence
+ * Turns a weekly call target and a max number of silent days into the local days the next call
+ * should land on. Weeks run Monday to Sunday in the user's timezone.
+ */
+
+import { CallHistory, CallStatus, APP_CONFIG } from '@/types';
+import { addDaysToDateKey, getWeekdayOfDateKey, getZonedDateTime } from './zonedTime';
+
+const DAYS_PER_WEEK = 7;
+
+export interface CadenceInput {
+  /** User's current local day, "YYYY-MM-DD" */
+  today: string;
+  /** Calls completed so far in today's week */
+  callsThisWeek: number;
+  /** Local day of the most recent call, if any */
+  lastCallDay: string | null;
+  weeklyTarget?: number | null;
+  maxSilenceDays?: number | null;
+}
+
+export interface CadenceWindow {
+  /** First local day the next call should fall on */
+  start: string;
+  /** Day after the last one it should fall on */
+  end: string;
+  /** How many calls a day keep the target on track; null when only max silence applies */
+  callsPerDay: number | null;
+  /** The setting that shaped the window: 'weekly_target' or 'max_silence' */
+  reason: string;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Monday of the week containing `dateKey`
+ */
+export function getWeekStartKey(dateKey: string): string {
+  const index = (APP_CONFIG.WEEKDAYS as readonly string[]).indexOf(getWeekdayOfDateKey(dateKey));
+  return addDaysToDateKey(dateKey, -index);
+}
+
+/**
+ * Completed calls in the user's current local week
+ */
+export function countCallsThisWeek(history: CallHistory[], timezone: string, now: Date = new Date()): number {
+  const weekStart = getWeekStartKey(getZonedDateTime(now, timezone).dateKey);
+
+  return history.filter(entry => entry.status === CallStatus.CALLED
+    && getZonedDateTime(new Date(entry.actual_time || entry.scheduled_time), timezone).dateKey >= weekStart
+  ).length;
+}
+
+/**
+ * Local days the next call should fall on to keep pace with the weekly target without
+ * bunching calls together, and before the allowed run of silent days is over.
+ * Returns null when the user has neither setting.
+ */
+export function getCadenceWindow(input: CadenceInput): CadenceWindow | null {
+  const { today, lastCallDay, weeklyTarget, maxSilenceDays } = input;
+  let window: CadenceWindow | null = weeklyTarget ? getTargetWindow(input, weeklyTarget) : null;
+
+  if (maxSilenceDays !== null && maxSilenceDays !== undefined && lastCallDay) {
+    // Calling on the day after `maxSilenceDays` silent days is the latest that keeps the promise
+    const deadline = addDaysToDateKey(lastCallDay, maxSilenceDays + 2);
+
+    if (deadline <= today) {
+      return { start: today, end: addDaysToDateKey(today, 1), callsPerDay: window?.callsPerDay ?? null, reason: 'max_silence' };
+    }
+
+    if (!window || deadline < window.end) {
+      const from = lastCallDay === today ? addDaysToDateKey(today, 1) : today;
+      const start = window && window.start < deadline ? window.start : from;
+      window = { start, end: deadline, callsPerDay: window?.callsPerDay ?? null, reason: 'max_silence' };
+    }
+  }
+
+  return window;
+}
+
+/**
+ * Spread the calls still needed this week evenly over the days left in it.
+ * With a call a day or less to go, the next call aims for the middle of its share of days
+ * and never lands on a day that already had one.
+ */
+function getTargetWindow(input: CadenceInput, weeklyTarget: number): CadenceWindow {
+  const { today, callsThisWeek, lastCallDay } = input;
+  const nextWeek = addDaysToDateKey(getWeekStartKey(today), DAYS_PER_WEEK);
+  const from = lastCallDay === today ? addDaysToDateKey(today, 1) : today;
+  const remaining = weeklyTarget - callsThisWeek;
+  const daysLeft = daysBetween(from, nextWeek);
+
+  // Target met, or no days left to meet it: aim for next week's target instead
+  if (remaining <= 0 || daysLeft <= 0) {
+    return getTargetWindow({ ...input, today: nextWeek, callsThisWeek: 0 }, weeklyTarget);
+  }
+
+  const spacing = daysLeft / remaining;
+  if (spacing < 1) {
+    return {
+      start: today,
+      end: nextWeek,
+      callsPerDay: Math.ceil(remaining / daysBetween(today, nextWeek)),
+      reason: 'weekly_target',
+    };
+  }
+
+  return {
+    start: addDaysToDateKey(from, Math.floor((spacing - 1) / 2)),
+    end: addDaysToDateKey(from, Math.floor(spacing)),
+    callsPerDay: 1,
+    reason: 'weekly_target',
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_CONSTRAINT_MODEL,
+    findLowestCostIntervals,
+    getBlockRule,
+    getCallTimeCost,
+    getMinGapPenalties,
+    resolveConstraintModel,
+} from './constraints';
+
+const MINUTE = 60 * 1000;
+
+describe('constraint model', () => {
+    it('should keep default rules that are not overridden', () => {
+        const model = resolveConstraintModel({ dailyLimit: { hard: false, weight: 2 } });
+
+        expect(model.dailyLimit).toEqual({ hard: false, weight: 2 });
+        expect(model.minGap).toEqual(DEFAULT_CONSTRAINT_MODEL.minGap);
+    });
+
+    it('should weigh blocks by priority and harden them from the threshold', () => {
+        const model = resolveConstraintModel({ blocks: { hardFromPriority: 3, weight: 2 } });
+
+        expect(getBlockRule(model, 0)).toEqual({ hard: false, weight: 2 });
+        expect(getBlockRule(model, 2)).toEqual({ hard: false, weight: 6 });
+        expect(getBlockRule(model, 3).hard).toBe(true);
+    });
+
+    it('should charge more the further a call cuts into the min gap', () => {
+        const penalties = getMinGapPenalties(60 * MINUTE, 40, { hard: false, weight: 4, floor: 0.5 });
+
+        expect(penalties).toEqual([
+            { start: 50 * MINUTE, end: 60 * MINUTE, constraint: 'reduced_min_gap', weight: 1 },
+            { start: 40 * MINUTE, end: 50 * MINUTE, constraint: 'minimal_gap', weight: 2 },
+        ]);
+        expect(getMinGapPenalties(60 * MINUTE, 40, { hard: false, weight: 4, floor: 1 })).toEqual([]);
+    });
+
+    it('should find the free time that bends the least', () => {
+        const penalties = [
+            { start: 0, end: 30, constraint: 'minimal_gap', weight: 2 },
+            { start: 20, end: 60, constraint: 'ignore_low_priority_blocks', weight: 3 },
+            { start: 80, end: 100, constraint: 'reduced_min_gap', weight: 1 },
+        ];
+
+        expect(findLowestCostIntervals([{ start: 0, end: 60 }, { start: 70, end: 100 }], penalties))
+            .toEqual([{ start: 70, end: 80 }]);
+        expect(findLowestCostIntervals([{ start: 0, end: 60 }], penalties)).toEqual([{ start: 0, end: 20 }]);
+        expect(getCallTimeCost(25, penalties)).toEqual({ cost: 5, bent: ['minimal_gap', 'ignore_low_priority_blocks'] });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Constraint Model
+ * Marks each scheduling rule hard or soft. Soft rules turn into penalty spans: time a call
+ * may still use, at a cost, when nothing satisfies every rule.
+ */
+
+import { ConstraintModel, ConstraintRule, MinGapConstraintRule } from '@/types';
+import { TimeInterval, MINUTE_MS, normalizeIntervals } from './intervals';
+
+/**
+ * Free time that bends a soft rule, and what bending it there costs
+ */
+export interface PenaltySpan extends TimeInterval {
+  /** Relaxation reported when a call lands in the span, e.g. "reduced_min_gap" */
+  constraint: string;
+  weight: number;
+}
+
+// Soft min gap penalties rise in steps of this share of the gap
+const MIN_GAP_STEP = 0.25;
+
+/**
+ * Windows, active days and the daily limit hold; the min gap may shrink to half and
+ * priority 0 blocks may be overlapped, in that order of preference
+ */
+export const DEFAULT_CONSTRAINT_MODEL: ConstraintModel = {
+  dailyWindow: { hard: true, weight: 6 },
+  activeDays: { hard: true, weight: 8 },
+  minGap: { hard: false, weight: 4, floor: 0.5 },
+  dailyLimit: { hard: true, weight: 5 },
+  blocks: { hardFromPriority: 1, weight: 3 },
+};
+
+/**
+ * Fill rules left unset with the defaults
+ */
+export function resolveConstraintModel(overrides: Partial<ConstraintModel> = {}): ConstraintModel {
+  return { ...DEFAULT_CONSTRAINT_MODEL, ...overrides };
+}
+
+/**
+ * The rule a block is held to, by its priority
+ */
+export function getBlockRule(model: ConstraintModel, priority: number): ConstraintRule {
+  return {
+    hard: priority >= model.blocks.hardFromPriority,
+    weight: model.blocks.weight * (Math.max(0, priority) + 1),
+  };
+}
+
+/**
+ * Penalty spans for calling before the min gap ending at `gapEnd` is over, down to the rule's floor.
+ * Each step closer to the last call costs another MIN_GAP_STEP of the weight.
+ */
+export function getMinGapPenalties(gapEnd: number, minGapMinutes: number, rule: MinGapConstraintRule): PenaltySpan[] {
+  const gapMs = minGapMinutes * MINUTE_MS;
+  const steps = Math.floor((1 - rule.floor) / MIN_GAP_STEP);
+  const penalties: PenaltySpan[] = [];
+
+  for (let step = 1; step <= steps; step++) {
+    penalties.push({
+      start: gapEnd - step * MIN_GAP_STEP * gapMs,
+      end: gapEnd - (step - 1) * MIN_GAP_STEP * gapMs,
+      constraint: step === 1 ? 'reduced_min_gap' : 'minimal_gap',
+      weight: rule.weight * step * MIN_GAP_STEP,
+    });
+  }
+
+  return penalties;
+}
+
+/**
+ * Total penalty for a call at `time`, and the soft rules it bends
+ */
+export function getCallTimeCost(time: number, penalties: PenaltySpan[]): { cost: number; bent: string[] } {
+  let cost = 0;
+  const bent: string[] = [];
+
+  for (const penalty of penalties) {
+    if (time < penalty.start || time >= penalty.end) continue;
+    cost += penalty.weight;
+    if (!bent.includes(penalty.constraint)) bent.push(penalty.constraint);
+  }
+
+  return { cost, bent };
+}
+
+/**
+ * The parts of the free time with the lowest total penalty
+ */
+export function findLowestCostIntervals(intervals: TimeInterval[], penalties: PenaltySpan[]): TimeInterval[] {
+  const cheapest: TimeInterval[] = [];
+  let lowest = Infinity;
+
+  for (const interval of normalizeIntervals(intervals)) {
+    // Cost only changes where a penalty starts or ends
+    const cuts = [interval.start, interval.end];
+    for (const penalty of penalties) {
+      if (penalty.start > interval.start && penalty.start < interval.end) cuts.push(penalty.start);
+      if (penalty.end > interval.start && penalty.end < interval.end) cuts.push(penalty.end);
+    }
+    cuts.sort((a, b) => a - b);
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+      const start = cuts[i]!;
+      const end = cuts[i + 1]!;
+      if (start === end) continue;
+
+      const { cost } = getCallTimeCost(start, penalties);
+      if (cost < lowest) {
+        lowest = cost;
+        cheapest.length = 0;
+      }
+      if (cost === lowest) cheapest.push({ start, end });
+    }
+  }
+
+  return normalizeIntervals(cheapest);
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getCallsToday, getDailyResetUpdate, needsDailyReset } from './dailyReset';
+
+describe('daily reset', () => {
+    // 14:30 UTC on the 24th is already 01:30 on the 25th in Sydney
+    const now = new Date('2023-10-24T14:30:00Z');
+
+    it('should use the local date in the user timezone', () => {
+        expect(getDailyResetUpdate('Australia/Sydney', now)).toEqual({
+            calls_today: 0,
+            daily_reset_date: '2023-10-25',
+        });
+        expect(getDailyResetUpdate('America/New_York', now).daily_reset_date).toBe('2023-10-24');
+    });
+
+    it('should reset at local midnight rather than UTC midnight', () => {
+        const helper = { calls_today: 3, daily_reset_date: '2023-10-24' };
+
+        expect(needsDailyReset(helper, 'Australia/Sydney', now)).toBe(true);
+        expect(getCallsToday(helper, 'Australia/Sydney', now)).toBe(0);
+        expect(needsDailyReset(helper, 'America/New_York', now)).toBe(false);
+        expect(getCallsToday(helper, 'America/New_York', now)).toBe(3);
+    });
+
+    it('should accept a full timestamp in daily_reset_date', () => {
+        const helper = { calls_today: 2, daily_reset_date: '2023-10-25T00:00:00.000Z' };
+
+        expect(getCallsToday(helper, 'Australia/Sydney', now)).toBe(2);
+    });
+});
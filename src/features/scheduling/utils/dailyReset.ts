@@ -0,0 +1,47 @@
+/**
+ * Daily Call Counter
+ * `calls_today` belongs to the user's local calendar day, so the reset boundary is their midnight
+ */
+
+import { ScheduleHelper } from '@/types';
+import { getZonedDateTime } from './zonedTime';
+
+/**
+ * Local calendar date (`YYYY-MM-DD`) of an instant in the user's timezone
+ */
+export function getLocalDateKey(timezone: string, now: Date = new Date()): string {
+  return getZonedDateTime(now, timezone).dateKey;
+}
+
+/**
+ * Whether the stored counter belongs to an earlier local day than `now`
+ */
+export function needsDailyReset(
+  scheduleHelper: Pick<ScheduleHelper, 'daily_reset_date'>,
+  timezone: string,
+  now: Date = new Date()
+): boolean {
+  // DATE columns come back as YYYY-MM-DD; older rows may hold a full timestamp
+  return scheduleHelper.daily_reset_date?.slice(0, 10) !== getLocalDateKey(timezone, now);
+}
+
+/**
+ * Calls made on the user's current local day, treating a stale counter as already reset
+ */
+export function getCallsToday(
+  scheduleHelper: Pick<ScheduleHelper, 'calls_today' | 'daily_reset_date'>,
+  timezone: string,
+  now: Date = new Date()
+): number {
+  return needsDailyReset(scheduleHelper, timezone, now) ? 0 : scheduleHelper.calls_today;
+}
+
+/**
+ * Schedule helper fields that start a fresh local day
+ */
+export function getDailyResetUpdate(
+  timezone: string,
+  now: Date = new Date()
+): Pick<ScheduleHelper, 'calls_today' | 'daily_reset_date'> {
+  return { calls_today: 0, daily_reset_date: getLocalDateKey(timezone, now) };
+}
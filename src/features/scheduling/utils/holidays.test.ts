@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getPublicHolidays } from './holidays';
+
+describe('getPublicHolidays', () => {
+    const dateOf = (country: string, year: number, name: string) =>
+        getPublicHolidays(country, year).find(holiday => holiday.name === name)?.date;
+
+    it('should resolve nth and last weekday rules', () => {
+        expect(dateOf('US', 2026, 'Thanksgiving')).toBe('2026-11-26');
+        expect(dateOf('US', 2026, 'Memorial Day')).toBe('2026-05-25');
+        expect(dateOf('US', 2026, 'Labor Day')).toBe('2026-09-07');
+        expect(dateOf('CA', 2026, 'Victoria Day')).toBe('2026-05-18');
+    });
+
+    it('should resolve Easter-relative holidays', () => {
+        expect(dateOf('GB', 2026, 'Good Friday')).toBe('2026-04-03');
+        expect(dateOf('GB', 2026, 'Easter Monday')).toBe('2026-04-06');
+        expect(dateOf('DE', 2025, 'Pfingstmontag')).toBe('2025-06-09');
+    });
+
+    it('should return holidays sorted by date and nothing for unknown countries', () => {
+        const dates = getPublicHolidays('FR', 2026).map(holiday => holiday.date);
+
+        expect(dates).toEqual([...dates].sort());
+        expect(dates).toContain('2026-12-25');
+        expect(getPublicHolidays('XX', 2026)).toEqual([]);
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Bundled Public Holiday Calendar
+ * Rule-based national holidays per country, resolved to local calendar dates for any year
+ */
+
+export interface PublicHoliday {
+  /** Local "YYYY-MM-DD" */
+  date: string;
+  name: string;
+}
+
+type HolidayRule =
+  | { kind: 'fixed'; name: string; month: number; day: number }
+  /** nth weekday of the month (weekday 0 = Sunday); nth -1 is the last one */
+  | { kind: 'nth_weekday'; name: string; month: number; weekday: number; nth: number }
+  /** Last given weekday on or before a day of the month */
+  | { kind: 'weekday_on_or_before'; name: string; month: number; weekday: number; day: number }
+  /** Days relative to Western Easter Sunday */
+  | { kind: 'easter'; name: string; offset: number };
+
+interface HolidayCalendar {
+  name: string;
+  rules: HolidayRule[];
+}
+
+// National holidays only; regional ones and weekend substitute days are not included
+const HOLIDAY_CALENDARS: Record<string, HolidayCalendar> = {
+  US: {
+    name: 'United States',
+    rules: [
+      { kind: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { kind: 'nth_weekday', name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+      { kind: 'nth_weekday', name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { kind: 'nth_weekday', name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+      { kind: 'fixed', name: 'Juneteenth', month: 6, day: 19 },
+      { kind: 'fixed', name: 'Independence Day', month: 7, day: 4 },
+      { kind: 'nth_weekday', name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+      { kind: 'nth_weekday', name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+      { kind: 'fixed', name: 'Veterans Day', month: 11, day: 11 },
+      { kind: 'nth_weekday', name: 'Thanksgiving', month: 11, weekday: 4, nth: 4 },
+      { kind: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+    ],
+  },
+  GB: {
+    name: 'United Kingdom',
+    rules: [
+      { kind: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { kind: 'easter', name: 'Good Friday', offset: -2 },
+      { kind: 'easter', name: 'Easter Monday', offset: 1 },
+      { kind: 'nth_weekday', name: 'Early May Bank Holiday', month: 5, weekday: 1, nth: 1 },
+      { kind: 'nth_weekday', name: 'Spring Bank Holiday', month: 5, weekday: 1, nth: -1 },
+      { kind: 'nth_weekday', name: 'Summer Bank Holiday', month: 8, weekday: 1, nth: -1 },
+      { kind: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      { kind: 'fixed', name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  CA: {
+    name: 'Canada',
+    rules: [
+      { kind: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { kind: 'easter', name: 'Good Friday', offset: -2 },
+      { kind: 'weekday_on_or_before', name: 'Victoria Day', month: 5, weekday: 1, day: 24 },
+      { kind: 'fixed', name: 'Canada Day', month: 7, day: 1 },
+      { kind: 'nth_weekday', name: 'Labour Day', month: 9, weekday: 1, nth: 1 },
+      { kind: 'nth_weekday', name: 'Thanksgiving', month: 10, weekday: 1, nth: 2 },
+      { kind: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      { kind: 'fixed', name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  FR: {
+    name: 'France',
+    rules: [
+      { kind: 'fixed', name: "Jour de l'an", month: 1, day: 1 },
+      { kind: 'easter', name: 'Lundi de Pâques', offset: 1 },
+      { kind: 'fixed', name: 'Fête du Travail', month: 5, day: 1 },
+      { kind: 'fixed', name: 'Victoire 1945', month: 5, day: 8 },
+      { kind: 'easter', name: 'Ascension', offset: 39 },
+      { kind: 'easter', name: 'Lundi de Pentecôte', offset: 50 },
+      { kind: 'fixed', name: 'Fête nationale', month: 7, day: 14 },
+      { kind: 'fixed', name: 'Assomption', month: 8, day: 15 },
+      { kind: 'fixed', name: 'Toussaint', month: 11, day: 1 },
+      { kind: 'fixed', name: 'Armistice 1918', month: 11, day: 11 },
+      { kind: 'fixed', name: 'Noël', month: 12, day: 25 },
+    ],
+  },
+  DE: {
+    name: 'Germany',
+    rules: [
+      { kind: 'fixed', name: 'Neujahr', month: 1, day: 1 },
+      { kind: 'easter', name: 'Karfreitag', offset: -2 },
+      { kind: 'easter', name: 'Ostermontag', offset: 1 },
+      { kind: 'fixed', name: 'Tag der Arbeit', month: 5, day: 1 },
+      { kind: 'easter', name: 'Christi Himmelfahrt', offset: 39 },
+      { kind: 'easter', name: 'Pfingstmontag', offset: 50 },
+      { kind: 'fixed', name: 'Tag der Deutschen Einheit', month: 10, day: 3 },
+      { kind: 'fixed', name: '1. Weihnachtstag', month: 12, day: 25 },
+      { kind: 'fixed', name: '2. Weihnachtstag', month: 12, day: 26 },
+    ],
+  },
+  AU: {
+    name: 'Australia',
+    rules: [
+      { kind: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { kind: 'fixed', name: 'Australia Day', month: 1, day: 26 },
+      { kind: 'easter', name: 'Good Friday', offset: -2 },
+      { kind: 'easter', name: 'Easter Monday', offset: 1 },
+      { kind: 'fixed', name: 'Anzac Day', month: 4, day: 25 },
+      { kind: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      { kind: 'fixed', name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+};
+
+/** Countries with a bundled holiday calendar, for pickers */
+export const HOLIDAY_COUNTRIES = Object.entries(HOLIDAY_CALENDARS)
+  .map(([code, calendar]) => ({ code, name: calendar.name }));
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const toDateKey = (date: Date): string =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function resolveRule(rule: HolidayRule, year: number): Date {
+  switch (rule.kind) {
+    case 'fixed':
+      return new Date(Date.UTC(year, rule.month - 1, rule.day));
+    case 'nth_weekday': {
+      if (rule.nth < 0) {
+        const lastDay = new Date(Date.UTC(year, rule.month, 0));
+        const back = (lastDay.getUTCDay() - rule.weekday + 7) % 7;
+        return new Date(Date.UTC(year, rule.month - 1, lastDay.getUTCDate() - back - 7 * (-rule.nth - 1)));
+      }
+      const firstDay = new Date(Date.UTC(year, rule.month - 1, 1));
+      const forward = (rule.weekday - firstDay.getUTCDay() + 7) % 7;
+      return new Date(Date.UTC(year, rule.month - 1, 1 + forward + 7 * (rule.nth - 1)));
+    }
+    case 'weekday_on_or_before': {
+      const anchor = new Date(Date.UTC(year, rule.month - 1, rule.day));
+      const back = (anchor.getUTCDay() - rule.weekday + 7) % 7;
+      return new Date(Date.UTC(year, rule.month - 1, rule.day - back));
+    }
+    case 'easter': {
+      const easter = getEasterSunday(year);
+      return new Date(easter.getTime() + rule.offset * 24 * 60 * 60 * 1000);
+    }
+  }
+}
+
+/**
+ * Public holidays of a bundled country for a year, sorted by date. Unknown countries have none.
+ */
+export function getPublicHolidays(countryCode: string, year: number): PublicHoliday[] {
+  const calendar = HOLIDAY_CALENDARS[countryCode];
+  if (!calendar) return [];
+
+  return calendar.rules
+    .map(rule => ({ date: toDateKey(resolveRule(rule, year)), name: rule.name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,126 @@
+/**
+ * Time Interval Utilities
+ * Half-open [start, end) intervals of epoch milliseconds used by the availability engine
+ */
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export const MINUTE_MS = 60 * 1000;
+
+/**
+ * Sort, merge overlapping or touching intervals and drop empty ones
+ */
+export function normalizeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Remove a cut from a set of intervals
+ */
+export function subtractInterval(intervals: TimeInterval[], cut: TimeInterval): TimeInterval[] {
+  const result: TimeInterval[] = [];
+
+  for (const interval of intervals) {
+    if (cut.end <= interval.start || cut.start >= interval.end) {
+      result.push(interval);
+      continue;
+    }
+    if (cut.start > interval.start) {
+      result.push({ start: interval.start, end: cut.start });
+    }
+    if (cut.end < interval.end) {
+      result.push({ start: cut.end, end: interval.end });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Restrict intervals to [start, end)
+ */
+export function clipIntervals(intervals: TimeInterval[], start: number, end: number): TimeInterval[] {
+  return intervals
+    .map(interval => ({ start: Math.max(interval.start, start), end: Math.min(interval.end, end) }))
+    .filter(interval => interval.end > interval.start);
+}
+
+/**
+ * Total covered duration in milliseconds
+ */
+export function totalDuration(intervals: TimeInterval[]): number {
+  return intervals.reduce((sum, interval) => sum + (interval.end - interval.start), 0);
+}
+
+/**
+ * Number of granularity-aligned instants inside an interval
+ */
+function countAlignedInstants(interval: TimeInterval, granularityMs: number): number {
+  const first = Math.ceil(interval.start / granularityMs) * granularityMs;
+  return Math.max(0, Math.ceil((interval.end - first) / granularityMs));
+}
+
+/**
+ * Pick an instant uniformly among the granularity-aligned instants covered by the intervals.
+ * `random` is a number in [0, 1). Returns null when no aligned instant exists.
+ */
+export function pickInstantInIntervals(
+  intervals: TimeInterval[],
+  random: number,
+  granularityMs: number = MINUTE_MS
+): number | null {
+  const counts = intervals.map(interval => countAlignedInstants(interval, granularityMs));
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  let index = Math.min(total - 1, Math.floor(random * total));
+  for (let i = 0; i < intervals.length; i++) {
+    const count = counts[i]!;
+    if (index < count) {
+      const first = Math.ceil(intervals[i]!.start / granularityMs) * granularityMs;
+      return first + index * granularityMs;
+    }
+    index -= count;
+  }
+
+  return null;
+}
+
+/**
+ * Pick an interval index with probability proportional to its weight.
+ * `random` is a number in [0, 1). Returns null when every weight is zero.
+ */
+export function pickWeightedIndex(weights: number[], random: number): number | null {
+  const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (total <= 0) return null;
+
+  let target = random * total;
+  let lastPositive: number | null = null;
+  for (let i = 0; i < weights.length; i++) {
+    const weight = Math.max(0, weights[i]!);
+    if (weight === 0) continue;
+    if (target < weight) return i;
+    target -= weight;
+    lastPositive = i;
+  }
+
+  // Floating point drift can leave a sliver past the last weight
+  return lastPositive;
+}
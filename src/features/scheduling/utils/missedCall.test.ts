@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getMissedCallAction, getMissedCallDeadline, isCallMissed } from './missedCall';
+import { CallHistory, CallStatus, MissedCallFollowUp } from '@/types';
+
+describe('missed calls', () => {
+    const dueTime = new Date('2023-10-24T18:00:00Z');
+    const user = { timezone: 'Europe/London', missed_call_grace_minutes: 20 };
+
+    it('should count a call as missed once the grace period is over', () => {
+        expect(getMissedCallDeadline(user, dueTime).toISOString()).toBe('2023-10-24T18:20:00.000Z');
+        expect(isCallMissed(user, dueTime, new Date('2023-10-24T18:19:00Z'))).toBe(false);
+        expect(isCallMissed(user, dueTime, new Date('2023-10-24T18:20:00Z'))).toBe(true);
+
+        // 30 minutes by default
+        expect(isCallMissed({ timezone: 'UTC' }, dueTime, new Date('2023-10-24T18:25:00Z'))).toBe(false);
+    });
+
+    it('should regenerate from now by default', () => {
+        const now = new Date('2023-10-24T18:30:00Z');
+
+        expect(getMissedCallAction(user, dueTime, null, now)).toEqual({
+            followUp: MissedCallFollowUp.REGENERATE,
+            nudgeTime: null,
+            from: now,
+        });
+    });
+
+    it('should nudge only once', () => {
+        const nudgeUser = { ...user, missed_call_follow_up: MissedCallFollowUp.NUDGE };
+        const action = getMissedCallAction(nudgeUser, dueTime, null, new Date('2023-10-24T18:30:00Z'));
+
+        expect(action.followUp).toBe(MissedCallFollowUp.NUDGE);
+        expect(action.nudgeTime?.toISOString()).toBe('2023-10-24T18:45:00.000Z');
+
+        const missedNudge: CallHistory = {
+            id: 'missed-1',
+            user_id: 'user-1',
+            scheduled_time: dueTime.toISOString(),
+            status: CallStatus.FAILED,
+            metadata: { nudged_to: action.nudgeTime!.toISOString() },
+            created_at: '2023-10-24T18:30:00Z',
+        };
+        const second = getMissedCallAction(nudgeUser, action.nudgeTime!, missedNudge, new Date('2023-10-24T19:10:00Z'));
+
+        expect(second.followUp).toBe(MissedCallFollowUp.REGENERATE);
+        expect(second.nudgeTime).toBeNull();
+    });
+
+    it('should roll over to local midnight when trying again tomorrow', () => {
+        const action = getMissedCallAction(
+            { timezone: 'America/New_York', missed_call_follow_up: MissedCallFollowUp.TOMORROW },
+            new Date('2023-10-25T02:00:00Z'),
+            null,
+            new Date('2023-10-25T02:30:00Z')
+        );
+
+        // Still the 24th in New York (UTC-4): the next call comes from the 25th
+        expect(action.from.toISOString()).toBe('2023-10-25T04:00:00.000Z');
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Missed Calls
+ * A due call nobody acted on becomes missed once its grace period is over. The user's
+ * follow-up rule then decides when the next call is: regenerate from now, nudge once more
+ * a little later, or roll over to tomorrow.
+ */
+
+import { CallHistory, MissedCallFollowUp, User } from '@/types';
+import { getNextLocalMidnight } from './zonedTime';
+
+export const DEFAULT_MISSED_CALL_GRACE_MINUTES = 30;
+
+/** How long after the miss the single nudge comes back */
+export const MISSED_CALL_NUDGE_MINUTES = 15;
+
+export const MISSED_CALL_GRACE_OPTIONS = [15, 30, 60, 120];
+
+export const MISSED_CALL_FOLLOW_UP_OPTIONS: { value: MissedCallFollowUp; label: string }[] = [
+  { value: MissedCallFollowUp.REGENERATE, label: 'Pick a new time' },
+  { value: MissedCallFollowUp.NUDGE, label: `Remind me once more ${MISSED_CALL_NUDGE_MINUTES} minutes later` },
+  { value: MissedCallFollowUp.TOMORROW, label: 'Try again tomorrow' },
+];
+
+type MissedCallFields = Pick<User, 'timezone' | 'missed_call_grace_minutes' | 'missed_call_follow_up'>;
+
+export interface MissedCallAction {
+  /** Rule applied; a nudge that was already used falls back to regenerate */
+  followUp: MissedCallFollowUp;
+  /** The nudged call time, for a nudge */
+  nudgeTime: Date | null;
+  /** Earliest time the next call may be generated from otherwise */
+  from: Date;
+}
+
+/**
+ * When a call due at `dueTime` counts as missed
+ */
+export function getMissedCallDeadline(user: MissedCallFields, dueTime: Date): Date {
+  const grace = user.missed_call_grace_minutes ?? DEFAULT_MISSED_CALL_GRACE_MINUTES;
+  return new Date(dueTime.getTime() + grace * 60 * 1000);
+}
+
+/**
+ * Whether a call due at `dueTime` has been missed by `now`
+ */
+export function isCallMissed(user: MissedCallFields, dueTime: Date, now: Date = new Date()): boolean {
+  return now >= getMissedCallDeadline(user, dueTime);
+}
+
+/**
+ * Whether the call due at `dueTime` is the nudge recorded by `lastMissed`
+ */
+export function isNudgedCall(lastMissed: CallHistory | null, dueTime: Date): boolean {
+  return lastMissed?.metadata?.['nudged_to'] === dueTime.toISOString();
+}
+
+/**
+ * The follow-up for a missed call. A nudge is only given once: missing the nudged call too
+ * picks a new time instead.
+ */
+export function getMissedCallAction(
+  user: MissedCallFields,
+  dueTime: Date,
+  lastMissed: CallHistory | null,
+  now: Date = new Date()
+): MissedCallAction {
+  const followUp = user.missed_call_follow_up ?? MissedCallFollowUp.REGENERATE;
+
+  if (followUp === MissedCallFollowUp.NUDGE && !isNudgedCall(lastMissed, dueTime)) {
+    return {
+      followUp,
+      nudgeTime: new Date(now.getTime() + MISSED_CALL_NUDGE_MINUTES * 60 * 1000),
+      from: now,
+    };
+  }
+
+  if (followUp === MissedCallFollowUp.TOMORROW) {
+    return { followUp, nudgeTime: null, from: getNextLocalMidnight(now, user.timezone) };
+  }
+
+  return { followUp: MissedCallFollowUp.REGENERATE, nudgeTime: null, from: now };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { getSchedulerOptions, lineUpNextCall, planNextCall, NextCallInput } from './nextCall';
+import { CallHistory, CallStatus, MissedCallFollowUp, ScheduleHelper, User } from '@/types';
+
+describe('next call planning', () => {
+    // 10:00 Wednesday in London
+    const now = new Date('2023-10-25T09:00:00Z');
+    const user: User = {
+        id: 'user-1',
+        email: 'test@example.com',
+        name: 'Test User',
+        partner_name: 'Partner',
+        daily_call_limit: 3,
+        active_days: 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+        morning_start: '09:00',
+        evening_end: '21:00',
+        preferred_platforms: 'phone',
+        timezone: 'Europe/London',
+        is_active: true,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+        version: 1,
+    };
+    const scheduleHelper: ScheduleHelper = {
+        id: 'helper-1',
+        user_id: 'user-1',
+        calls_today: 1,
+        daily_reset_date: '2023-10-25',
+        last_generated: now.toISOString(),
+        updated_at: now.toISOString(),
+        lock_version: 1,
+    };
+    const input = (changes: Partial<NextCallInput> = {}): NextCallInput => ({
+        user,
+        scheduleHelper,
+        blockedTimes: [],
+        dateOverrides: [],
+        history: [],
+        now,
+        seed: 7,
+        ...changes,
+    });
+
+    it('should generate a time when there is no next call', async () => {
+        const plan = await planNextCall(input());
+
+        expect(plan.status).toBe('scheduled');
+        expect(plan.missedCall).toBeNull();
+        expect(plan.result?.metadata?.seed).toBe(7);
+        expect(new Date(plan.updates.next_call_due!).getTime()).toBeGreaterThan(now.getTime());
+        expect(plan.updates).toMatchObject({ last_generated: now.toISOString(), snooze_count: 0 });
+    });
+
+    it('should leave an upcoming call alone and not schedule paused or inactive users', async () => {
+        const pending = await planNextCall(input({ scheduleHelper: { ...scheduleHelper, next_call_due: '2023-10-25T08:45:00Z' } }));
+        expect(pending).toMatchObject({ status: 'pending', updates: {} });
+
+        const paused = await planNextCall(input({ user: { ...user, paused_at: '2023-10-24T00:00:00Z', paused_until: null } }));
+        expect(paused).toMatchObject({ status: 'skipped', reason: 'scheduling_paused' });
+
+        const inactive = await planNextCall(input({ user: { ...user, is_active: false } }));
+        expect(inactive).toMatchObject({ status: 'skipped', reason: 'user_inactive' });
+    });
+
+    it('should record a missed call and follow the user\'s policy', async () => {
+        const missed = { ...scheduleHelper, next_call_due: '2023-10-25T08:00:00Z' };
+
+        const nudged = await planNextCall(input({
+            user: { ...user, missed_call_follow_up: MissedCallFollowUp.NUDGE },
+            scheduleHelper: missed,
+        }));
+        expect(nudged.status).toBe('scheduled');
+        expect(nudged.missedCall).toMatchObject({ status: CallStatus.FAILED, scheduled_time: '2023-10-25T08:00:00.000Z' });
+        expect(nudged.updates.next_call_due).toBe('2023-10-25T09:15:00.000Z');
+
+        // Tomorrow starts at local midnight, 23:00 UTC during British Summer Time
+        const tomorrow = await planNextCall(input({
+            user: { ...user, missed_call_follow_up: MissedCallFollowUp.TOMORROW },
+            scheduleHelper: missed,
+        }));
+        expect(tomorrow.missedCall?.metadata).toMatchObject({ missed: true, follow_up: 'tomorrow' });
+        expect(new Date(tomorrow.updates.next_call_due!).getTime()).toBeGreaterThanOrEqual(new Date('2023-10-25T23:00:00Z').getTime());
+    });
+
+    it('should take the next slot of a week plan', async () => {
+        const weekPlan = {
+            slots: [
+                { time: '2023-10-25T08:00:00Z', date: '2023-10-25' },
+                { time: '2023-10-25T17:00:00Z', date: '2023-10-25' },
+            ],
+            seed: 1,
+            generatedAt: '2023-10-23T00:00:00Z',
+            constraints: [],
+        };
+        const plan = await planNextCall(input({ scheduleHelper: { ...scheduleHelper, week_plan: weekPlan } }));
+
+        expect(plan.result).toBeNull();
+        expect(plan.updates.next_call_due).toBe('2023-10-25T17:00:00Z');
+        expect(plan.updates.week_plan?.slots).toEqual([weekPlan.slots[1]]);
+    });
+
+    it('should line up a call no earlier than a later start', async () => {
+        // Tomorrow starts at local midnight, 23:00 UTC during British Summer Time
+        const tomorrow = new Date('2023-10-25T23:00:00Z');
+        const plan = await lineUpNextCall(
+            input({ scheduleHelper: { ...scheduleHelper, next_call_due: '2023-10-25T12:00:00Z' } }),
+            tomorrow
+        );
+
+        expect(plan.status).toBe('scheduled');
+        expect(new Date(plan.updates.next_call_due!).getTime()).toBeGreaterThanOrEqual(tomorrow.getTime());
+        expect(plan.updates).toMatchObject({ last_generated: now.toISOString(), snooze_count: 0 });
+    });
+
+    it('should learn from history as of the given time', () => {
+        // Answered evening calls over the two weeks before `now`
+        const history: CallHistory[] = Array.from({ length: 14 }, (_, day) => ({
+            id: `call-${day}`,
+            user_id: 'user-1',
+            scheduled_time: new Date(now.getTime() - (day + 1) * 24 * 60 * 60 * 1000 + 9 * 60 * 60 * 1000).toISOString(),
+            status: CallStatus.CALLED,
+            created_at: now.toISOString(),
+        }));
+
+        const options = getSchedulerOptions(user, history, [], now);
+
+        expect(options.preferences?.sampleSize).toBe(14);
+        expect(options.callsThisWeek).toBe(2);
+    });
+});
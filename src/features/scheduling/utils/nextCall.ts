@@ -0,0 +1,187 @@
+/**
+ * Next Call Planning
+ * Decides what a user's schedule should look like now: keep the pending call, follow up on a
+ * missed one, take the next week plan slot or generate a fresh time. Pure, so it runs the
+ * same in the browser and in a server runtime; callers persist the result.
+ */
+
+import {
+  User,
+  BlockedTime,
+  CallHistory,
+  CallStatus,
+  CallGenerationOptions,
+  ConstraintModel,
+  DateOverride,
+  ScheduleHelper,
+  SchedulingLogger,
+  SchedulingResult,
+  WeekPlan,
+} from '@/types';
+import { createScheduler } from './scheduler';
+import { buildTimePreferenceModel } from './preferences';
+import { getCadenceAdaptation } from './adaptation';
+import { countCallsThisWeek } from './cadence';
+import { getDailyResetUpdate, needsDailyReset } from './dailyReset';
+import { MissedCallAction, getMissedCallAction, isCallMissed } from './missedCall';
+import { getPauseState } from './pause';
+import { createFixedClock } from './random';
+
+export interface NextCallInput {
+  user: User;
+  scheduleHelper: ScheduleHelper;
+  blockedTimes: BlockedTime[];
+  dateOverrides: DateOverride[];
+  /** Recent call history, newest first */
+  history: CallHistory[];
+  now: Date;
+  seed?: number;
+  logger?: SchedulingLogger;
+  /** Overrides for the default hard/soft rules */
+  constraints?: Partial<ConstraintModel>;
+}
+
+/**
+ * 'scheduled' set a new next call, 'pending' left an upcoming one alone, 'skipped' means the
+ * user isn't being scheduled right now and 'failed' found no time
+ */
+export type NextCallStatus = 'scheduled' | 'pending' | 'skipped' | 'failed';
+
+export interface NextCallPlan {
+  status: NextCallStatus;
+  /** Schedule helper changes to persist; empty when nothing changed */
+  updates: Partial<ScheduleHelper>;
+  /** History entry to record for a call that went by unanswered */
+  missedCall: Omit<CallHistory, 'id' | 'created_at'> | null;
+  /** How the missed call is followed up, when there is one */
+  missedCallAction?: MissedCallAction;
+  /** The generation behind a fresh time, null when the time came from a plan or a nudge */
+  result: SchedulingResult | null;
+  /** Why nothing was scheduled, e.g. "scheduling_paused" */
+  reason?: string;
+}
+
+/**
+ * Planned slots that start after `after`
+ */
+export function getUpcomingSlots(plan: WeekPlan, after: Date = new Date()): WeekPlan['slots'] {
+  return plan.slots.filter(slot => new Date(slot.time) > after);
+}
+
+/**
+ * Scheduler options learned from the user's history and date overrides
+ */
+export function getSchedulerOptions(
+  user: User,
+  history: CallHistory[],
+  dateOverrides: DateOverride[],
+  now: Date = new Date()
+): Partial<CallGenerationOptions> {
+  return {
+    dateOverrides,
+    callsThisWeek: countCallsThisWeek(history, user.timezone, now),
+    preferences: buildTimePreferenceModel(history, user.timezone, now),
+    adaptation: getCadenceAdaptation(history, user.daily_call_limit),
+  };
+}
+
+/**
+ * Work out the user's next call as of `now`
+ */
+export async function planNextCall(input: NextCallInput): Promise<NextCallPlan> {
+  const { user, scheduleHelper, now } = input;
+  const unchanged = { updates: {}, missedCall: null, result: null };
+
+  if (!user.is_active) {
+    return { status: 'skipped', reason: 'user_inactive', ...unchanged };
+  }
+  if (getPauseState(user, now).isPaused) {
+    return { status: 'skipped', reason: 'scheduling_paused', ...unchanged };
+  }
+
+  const dueTime = scheduleHelper.next_call_due ? new Date(scheduleHelper.next_call_due) : null;
+  if (dueTime && !isCallMissed(user, dueTime, now)) {
+    return { status: 'pending', ...unchanged };
+  }
+
+  const updates: Partial<ScheduleHelper> = needsDailyReset(scheduleHelper, user.timezone, now)
+    ? getDailyResetUpdate(user.timezone, now)
+    : {};
+
+  if (!dueTime) {
+    const next = await lineUpNextCall({ ...input, scheduleHelper: { ...scheduleHelper, ...updates } }, now);
+    return { ...next, updates: { ...updates, ...next.updates } };
+  }
+
+  const lastMissed = input.history.find(entry => entry.status === CallStatus.FAILED) ?? null;
+  const action = getMissedCallAction(user, dueTime, lastMissed, now);
+  const missedCall: NextCallPlan['missedCall'] = {
+    user_id: user.id,
+    scheduled_time: dueTime.toISOString(),
+    status: CallStatus.FAILED,
+    metadata: {
+      missed: true,
+      follow_up: action.followUp,
+      ...(action.nudgeTime && { nudged_to: action.nudgeTime.toISOString() }),
+    },
+  };
+
+  // The missed slot is used up; a plan carries on after the nudge
+  if (action.nudgeTime) {
+    updates.next_call_due = action.nudgeTime.toISOString();
+    updates.snooze_count = 0;
+    if (scheduleHelper.week_plan) {
+      const upcoming = getUpcomingSlots(scheduleHelper.week_plan, now);
+      updates.week_plan = upcoming.length > 0 ? { ...scheduleHelper.week_plan, slots: upcoming } : null;
+    }
+    return { status: 'scheduled', updates, missedCall, missedCallAction: action, result: null };
+  }
+
+  const history = [{ ...missedCall, id: `missed-${dueTime.toISOString()}`, created_at: now.toISOString() }, ...input.history];
+  const next = await lineUpNextCall({ ...input, scheduleHelper: { ...scheduleHelper, ...updates }, history }, action.from);
+  return { ...next, updates: { ...updates, ...next.updates }, missedCall, missedCallAction: action };
+}
+
+/**
+ * Line up the call that follows one taken out of the schedule, no earlier than `from`: the next
+ * slot of an active plan, or a freshly generated time
+ */
+export async function lineUpNextCall(input: NextCallInput, from: Date): Promise<NextCallPlan> {
+  const { user, scheduleHelper, now } = input;
+  const updates: Partial<ScheduleHelper> = {};
+
+  // An active plan already has the next call
+  if (scheduleHelper.week_plan) {
+    const upcoming = getUpcomingSlots(scheduleHelper.week_plan, new Date(from.getTime() - 1))
+      .filter(slot => slot.time !== scheduleHelper.next_call_due);
+    updates.week_plan = upcoming.length > 0 ? { ...scheduleHelper.week_plan, slots: upcoming } : null;
+
+    if (upcoming[0]) {
+      updates.next_call_due = upcoming[0].time;
+      updates.snooze_count = 0;
+      return { status: 'scheduled', updates, missedCall: null, result: null };
+    }
+  }
+
+  // Starting later than now generates as if it already were that time
+  const scheduler = createScheduler(user, {
+    ...getSchedulerOptions(user, input.history, input.dateOverrides, now),
+    clock: createFixedClock(from),
+    seed: input.seed,
+    logger: input.logger,
+    constraints: input.constraints,
+  });
+  const result = await scheduler.generateNextCallTime(input.blockedTimes, scheduleHelper);
+
+  if (!result.success || !result.nextCallTime) {
+    // Recording the attempt sends the user to the back of the batch queue
+    if (scheduleHelper.next_call_due) updates.next_call_due = null;
+    updates.last_generated = now.toISOString();
+    return { status: 'failed', reason: result.error, updates, missedCall: null, result };
+  }
+
+  updates.next_call_due = result.nextCallTime.toISOString();
+  updates.last_generated = now.toISOString();
+  updates.snooze_count = 0;
+  return { status: 'scheduled', updates, missedCall: null, result };
+}
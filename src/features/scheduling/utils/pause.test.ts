@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getPauseState, getPauseUpdate, getResumeUpdate } from './pause';
+
+describe('scheduling pause', () => {
+    const now = new Date('2023-10-24T14:30:00Z');
+
+    it('should not be paused without paused_at', () => {
+        expect(getPauseState({ paused_at: null, paused_until: null }, now)).toEqual({ isPaused: false, until: null });
+        expect(getPauseState({}, now).isPaused).toBe(false);
+    });
+
+    it('should stay paused indefinitely without an end', () => {
+        const pause = getPauseUpdate('UTC', null, now);
+
+        expect(pause).toEqual({ paused_at: now.toISOString(), paused_until: null });
+        expect(getPauseState(pause, new Date('2030-01-01T00:00:00Z'))).toEqual({ isPaused: true, until: null });
+    });
+
+    it('should resume at local midnight of the resume date', () => {
+        const pause = getPauseUpdate('Australia/Sydney', '2023-11-01', now);
+
+        // Midnight on Nov 1st in Sydney (UTC+11) is 13:00 UTC the day before
+        expect(pause.paused_until).toBe('2023-10-31T13:00:00.000Z');
+        expect(getPauseState(pause, new Date('2023-10-31T12:59:00Z')).isPaused).toBe(true);
+        expect(getPauseState(pause, new Date('2023-10-31T13:00:00Z'))).toEqual({ isPaused: false, until: null });
+    });
+
+    it('should clear both fields on resume', () => {
+        expect(getPauseState(getResumeUpdate(), now).isPaused).toBe(false);
+    });
+});
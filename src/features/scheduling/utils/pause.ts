@@ -0,0 +1,54 @@
+/**
+ * Scheduling Pause
+ * A pause stops call generation until `paused_until`, or until the user resumes when it has no end.
+ * Pauses end on their own: nothing has to run at `paused_until` for scheduling to be allowed again.
+ */
+
+import { User } from '@/types';
+import { zonedTimeToInstant } from './zonedTime';
+
+export interface PauseState {
+  isPaused: boolean;
+  /** When scheduling resumes; null while paused indefinitely or not paused */
+  until: Date | null;
+}
+
+type PauseFields = Pick<User, 'paused_at' | 'paused_until'>;
+
+/**
+ * Whether scheduling is paused at `now`
+ */
+export function getPauseState(user: PauseFields, now: Date = new Date()): PauseState {
+  if (!user.paused_at) {
+    return { isPaused: false, until: null };
+  }
+
+  if (!user.paused_until) {
+    return { isPaused: true, until: null };
+  }
+
+  const until = new Date(user.paused_until);
+  return until > now ? { isPaused: true, until } : { isPaused: false, until: null };
+}
+
+/**
+ * Profile fields that pause scheduling until the start of `resumeDate` (YYYY-MM-DD, user's local day),
+ * or indefinitely when no date is given
+ */
+export function getPauseUpdate(
+  timezone: string,
+  resumeDate: string | null,
+  now: Date = new Date()
+): Required<PauseFields> {
+  return {
+    paused_at: now.toISOString(),
+    paused_until: resumeDate ? zonedTimeToInstant(resumeDate, '00:00', timezone).toISOString() : null,
+  };
+}
+
+/**
+ * Profile fields that end a pause
+ */
+export function getResumeUpdate(): Required<PauseFields> {
+  return { paused_at: null, paused_until: null };
+}
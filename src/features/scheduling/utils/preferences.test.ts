@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimePreferenceModel, getPreferenceScore, NEUTRAL_PREFERENCE_SCORE } from './preferences';
+import { CallHistory, CallStatus } from '@/types';
+
+describe('buildTimePreferenceModel', () => {
+    const now = new Date('2023-10-25T12:00:00Z');
+    let nextId = 0;
+
+    const entry = (scheduledTime: string, status: CallStatus, rating?: number): CallHistory => ({
+        id: `call-${nextId++}`,
+        user_id: 'user-1',
+        scheduled_time: scheduledTime,
+        status,
+        success_rating: rating,
+        created_at: scheduledTime,
+    });
+
+    it('should bucket by weekday and hour in the user timezone', () => {
+        // 2023-10-23T10:30Z is Monday 19:30 in Tokyo
+        const model = buildTimePreferenceModel([entry('2023-10-23T10:30:00Z', CallStatus.CALLED, 5)], 'Asia/Tokyo', now);
+
+        expect(Object.keys(model.buckets)).toEqual(['Mon-19']);
+        expect(model.sampleSize).toBe(1);
+    });
+
+    it('should score answered, well-rated hours above skipped ones', () => {
+        const model = buildTimePreferenceModel([
+            entry('2023-10-23T10:30:00Z', CallStatus.CALLED, 5),
+            entry('2023-10-16T10:10:00Z', CallStatus.CALLED, 4),
+            entry('2023-10-23T01:00:00Z', CallStatus.SKIPPED),
+            entry('2023-10-16T01:20:00Z', CallStatus.FAILED),
+        ], 'Asia/Tokyo', now);
+
+        expect(getPreferenceScore(model, 'Mon', 19)).toBeGreaterThan(NEUTRAL_PREFERENCE_SCORE);
+        expect(getPreferenceScore(model, 'Mon', 10)).toBeLessThan(NEUTRAL_PREFERENCE_SCORE);
+        expect(getPreferenceScore(model, 'Tue', 12)).toBe(NEUTRAL_PREFERENCE_SCORE);
+    });
+
+    it('should ignore suggestions and entries older than the history window', () => {
+        const model = buildTimePreferenceModel([
+            entry('2023-10-23T10:30:00Z', CallStatus.SUGGESTED),
+            entry('2023-06-01T10:30:00Z', CallStatus.CALLED, 5),
+        ], 'Asia/Tokyo', now);
+
+        expect(model.sampleSize).toBe(0);
+        expect(model.buckets).toEqual({});
+    });
+});
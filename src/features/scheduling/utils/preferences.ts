@@ -0,0 +1,101 @@
+/**
+ * Learned Time Preferences
+ * Per-user weekday/hour model built from call history, mirroring the daily_call_patterns view
+ */
+
+import { CallHistory, CallStatus, TimePreferenceBucket, TimePreferenceModel, APP_CONFIG } from '@/types';
+import { getZonedDateTime } from './zonedTime';
+
+/** Share of sampling weight every free minute keeps regardless of history */
+export const DEFAULT_EXPLORATION_RATE = 0.2;
+
+/** Neutral score for buckets without history (Beta(1,1) pickup prior × mid rating) */
+export const NEUTRAL_PREFERENCE_SCORE = 0.375;
+
+// Statuses that count as the user being offered a call in that bucket
+const OFFERED_STATUSES: CallStatus[] = [
+  CallStatus.CALLED,
+  CallStatus.SKIPPED,
+  CallStatus.LATER,
+  CallStatus.FAILED,
+];
+
+export function getPreferenceBucketKey(day: string, hour: number): string {
+  return `${day}-${hour}`;
+}
+
+/**
+ * Score a bucket in [0, 1] from its pickup rate and average rating.
+ * Pickup uses a Beta(1,1) prior so a single outcome never dominates.
+ */
+function scoreBucket(offered: number, answered: number, averageRating: number | null): number {
+  const pickupRate = (answered + 1) / (offered + 2);
+  const ratingFactor = averageRating === null ? 0.5 : (averageRating - 1) / 4;
+  return pickupRate * (0.5 + 0.5 * ratingFactor);
+}
+
+/**
+ * Build a preference model from call history, bucketing by the user's local weekday and hour
+ */
+export function buildTimePreferenceModel(
+  history: CallHistory[],
+  timezone: string,
+  now: Date = new Date(),
+  explorationRate: number = DEFAULT_EXPLORATION_RATE
+): TimePreferenceModel {
+  const since = now.getTime() - APP_CONFIG.MAX_CALL_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  const tallies = new Map<string, { day: string; hour: number; offered: number; answered: number; ratings: number[] }>();
+  let sampleSize = 0;
+
+  for (const entry of history) {
+    if (!OFFERED_STATUSES.includes(entry.status)) continue;
+
+    const scheduled = new Date(entry.scheduled_time);
+    if (scheduled.getTime() < since) continue;
+
+    const local = getZonedDateTime(scheduled, timezone);
+    const key = getPreferenceBucketKey(local.weekday, local.hour);
+    const tally = tallies.get(key) || { day: local.weekday, hour: local.hour, offered: 0, answered: 0, ratings: [] };
+
+    tally.offered++;
+    if (entry.status === CallStatus.CALLED) {
+      tally.answered++;
+      if (entry.success_rating) tally.ratings.push(entry.success_rating);
+    }
+
+    tallies.set(key, tally);
+    sampleSize++;
+  }
+
+  const buckets: Record<string, TimePreferenceBucket> = {};
+  for (const [key, tally] of tallies) {
+    const averageRating = tally.ratings.length > 0
+      ? tally.ratings.reduce((sum, rating) => sum + rating, 0) / tally.ratings.length
+      : null;
+
+    buckets[key] = {
+      day: tally.day,
+      hour: tally.hour,
+      offered: tally.offered,
+      answered: tally.answered,
+      averageRating,
+      score: scoreBucket(tally.offered, tally.answered, averageRating),
+    };
+  }
+
+  return { buckets, sampleSize, explorationRate };
+}
+
+/**
+ * Learned score for a local weekday/hour, or the neutral score when there is no history
+ */
+export function getPreferenceScore(model: TimePreferenceModel, day: string, hour: number): number {
+  return model.buckets[getPreferenceBucketKey(day, hour)]?.score ?? NEUTRAL_PREFERENCE_SCORE;
+}
+
+/**
+ * Sampling weight for a local weekday/hour: a fixed exploration floor plus the learned score
+ */
+export function getPreferenceWeight(model: TimePreferenceModel, day: string, hour: number): number {
+  return model.explorationRate + (1 - model.explorationRate) * getPreferenceScore(model, day, hour);
+}
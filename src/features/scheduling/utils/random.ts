@@ -0,0 +1,45 @@
+/**
+ * Deterministic Randomness and Time Sources
+ * Seeded PRNG and clocks so generated call times can be reproduced exactly
+ */
+
+import { Clock, RandomSource } from '@/types';
+
+/**
+ * Create a seeded pseudo-random source (mulberry32) returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a fresh 32-bit seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Clock backed by the device time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock frozen at a given instant, for tests and replaying a generation
+ */
+export function createFixedClock(instant: Date | string): Clock {
+  const time = new Date(instant).getTime();
+  return {
+    now: () => new Date(time),
+  };
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createScheduler } from './scheduler';
+import { createFixedClock } from './random';
+import { APP_CONFIG, BlockedTime, BlockRepeatType, ConstraintModel, ScheduleHelper, User } from '@/types';
+
+/**
+ * Generative tests: random users, blocks and clocks, with invariants checked on every
+ * generated time. fast-check shrinks a failure to a minimal case and prints its seed, which
+ * `fc.assert(..., { seed, path })` replays.
+ */
+
+const WEEKDAYS = APP_CONFIG.WEEKDAYS;
+const MIN_GAP_MINUTES = APP_CONFIG.MIN_CALL_GAP_MINUTES;
+const RUNS = 150;
+
+interface Scenario {
+    user: User;
+    blockedTimes: BlockedTime[];
+    scheduleHelper: ScheduleHelper;
+    now: Date;
+    seed: number;
+}
+
+function formatMinutes(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function parseMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours! * 60 + minutes!;
+}
+
+// Kept apart from zonedTime.ts so a bug there can't hide in both the scheduler and the check
+function getLocalTime(time: Date, timezone: string): { weekday: string; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(time);
+    const part = (type: string) => parts.find(p => p.type === type)!.value;
+    return { weekday: part('weekday'), minutes: Number(part('hour')) * 60 + Number(part('minute')) };
+}
+
+function blockAppliesOn(block: BlockedTime, weekday: string): boolean {
+    switch (block.repeat_type) {
+        case BlockRepeatType.WEEKDAYS:
+            return weekday !== 'Sat' && weekday !== 'Sun';
+        case BlockRepeatType.WEEKENDS:
+            return weekday === 'Sat' || weekday === 'Sun';
+        case BlockRepeatType.CUSTOM:
+            return !!block.days_of_week?.split(',').includes(weekday);
+        default:
+            return true;
+    }
+}
+
+function getCoveringBlocks(time: Date, scenario: Scenario): BlockedTime[] {
+    const { weekday, minutes } = getLocalTime(time, scenario.user.timezone);
+    const previousDay = WEEKDAYS[(WEEKDAYS.indexOf(weekday as typeof WEEKDAYS[number]) + 6) % 7]!;
+
+    return scenario.blockedTimes.filter(block => {
+        const start = parseMinutes(block.start_time);
+        const end = parseMinutes(block.end_time);
+        if (start < end) return minutes >= start && minutes < end && blockAppliesOn(block, weekday);
+        // Wraps past midnight: the early part belongs to the previous day's block
+        return (minutes >= start && blockAppliesOn(block, weekday))
+            || (minutes < end && blockAppliesOn(block, previousDay));
+    });
+}
+
+const blockArb = fc.record({
+    start: fc.integer({ min: 0, max: 1439 }),
+    length: fc.integer({ min: 15, max: 600 }),
+    repeatType: fc.constantFrom(
+        BlockRepeatType.DAILY,
+        BlockRepeatType.WEEKDAYS,
+        BlockRepeatType.WEEKENDS,
+        BlockRepeatType.CUSTOM
+    ),
+    days: fc.subarray([...WEEKDAYS], { minLength: 1 }),
+    priority: fc.integer({ min: 0, max: 5 }),
+});
+
+const scenarioArb: fc.Arbitrary<Scenario> = fc.record({
+    timezone: fc.constantFrom(...APP_CONFIG.SUPPORTED_TIMEZONES),
+    morningStart: fc.integer({ min: 5 * 60, max: 12 * 60 }),
+    eveningEnd: fc.integer({ min: 14 * 60, max: 23 * 60 + 59 }),
+    activeDays: fc.subarray([...WEEKDAYS], { minLength: 1 }),
+    dailyLimit: fc.integer({ min: 1, max: 5 }),
+    blocks: fc.array(blockArb, { maxLength: 4 }),
+    now: fc.date({ min: new Date('2024-01-01T00:00:00Z'), max: new Date('2026-12-31T00:00:00Z'), noInvalidDate: true }),
+    callsToday: fc.integer({ min: 0, max: 5 }),
+    minutesSinceLastCall: fc.option(fc.integer({ min: 0, max: 24 * 60 })),
+    seed: fc.integer({ min: 0, max: 2 ** 31 - 1 }),
+}).map(({ timezone, morningStart, eveningEnd, activeDays, dailyLimit, blocks, now, callsToday, minutesSinceLastCall, seed }) => ({
+    user: {
+        id: 'user-1',
+        email: 'test@example.com',
+        name: 'Test User',
+        partner_name: 'Partner',
+        daily_call_limit: dailyLimit,
+        // Kept in week order, as the settings screen saves it
+        active_days: WEEKDAYS.filter(day => activeDays.includes(day)).join(','),
+        morning_start: formatMinutes(morningStart),
+        evening_end: formatMinutes(eveningEnd),
+        preferred_platforms: 'phone',
+        timezone,
+        is_active: true,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+        version: 1,
+    },
+    blockedTimes: blocks.map((block, index) => ({
+        id: `block-${index + 1}`,
+        user_id: 'user-1',
+        block_name: `Block ${index + 1}`,
+        start_time: formatMinutes(block.start),
+        end_time: formatMinutes((block.start + block.length) % 1440),
+        repeat_type: block.repeatType,
+        ...(block.repeatType === BlockRepeatType.CUSTOM && { days_of_week: block.days.join(',') }),
+        is_active: true,
+        priority: block.priority,
+        created_at: '2024-01-01T00:00:00Z',
+    })),
+    scheduleHelper: {
+        id: 'helper-1',
+        user_id: 'user-1',
+        calls_today: Math.min(callsToday, dailyLimit),
+        daily_reset_date: now.toISOString().split('T')[0]!,
+        last_generated: now.toISOString(),
+        updated_at: now.toISOString(),
+        lock_version: 1,
+        ...(minutesSinceLastCall !== null && {
+            last_call_time: new Date(now.getTime() - minutesSinceLastCall * 60000).toISOString(),
+        }),
+    },
+    now,
+    seed,
+}));
+
+async function generate(scenario: Scenario, constraints?: Partial<ConstraintModel>) {
+    const scheduler = createScheduler(scenario.user, {
+        clock: createFixedClock(scenario.now),
+        seed: scenario.seed,
+        constraints,
+    });
+    return scheduler.generateNextCallTime(scenario.blockedTimes, scenario.scheduleHelper);
+}
+
+function getGapMinutes(time: Date, scenario: Scenario): number | null {
+    const lastCall = scenario.scheduleHelper.last_call_time;
+    return lastCall ? (time.getTime() - new Date(lastCall).getTime()) / 60000 : null;
+}
+
+function expectInsideWindow(time: Date, scenario: Scenario): void {
+    const { user } = scenario;
+    const local = getLocalTime(time, user.timezone);
+
+    expect(time.getTime()).toBeGreaterThan(scenario.now.getTime());
+    expect(user.active_days.split(',')).toContain(local.weekday);
+    expect(local.minutes).toBeGreaterThanOrEqual(parseMinutes(user.morning_start));
+    expect(local.minutes).toBeLessThanOrEqual(parseMinutes(user.evening_end));
+}
+
+describe('CallScheduler invariants', () => {
+    it('should only generate allowed times when every rule is hard', async () => {
+        const strict: Partial<ConstraintModel> = {
+            minGap: { hard: true, weight: 4, floor: 1 },
+            blocks: { hardFromPriority: 0, weight: 3 },
+        };
+
+        await fc.assert(
+            fc.asyncProperty(scenarioArb, async scenario => {
+                const result = await generate(scenario, strict);
+                if (!result.success || !result.nextCallTime) return;
+
+                const time = result.nextCallTime;
+                expectInsideWindow(time, scenario);
+                expect(getCoveringBlocks(time, scenario).map(block => block.block_name)).toEqual([]);
+                expect(getGapMinutes(time, scenario) ?? Infinity).toBeGreaterThanOrEqual(MIN_GAP_MINUTES);
+                expect(result.metadata?.trace?.relaxations ?? []).toEqual([]);
+            }),
+            { numRuns: RUNS }
+        );
+    });
+
+    it('should only bend soft rules, within their limits, and report it', async () => {
+        await fc.assert(
+            fc.asyncProperty(scenarioArb, async scenario => {
+                const result = await generate(scenario);
+                if (!result.success || !result.nextCallTime) return;
+
+                const time = result.nextCallTime;
+                const relaxations = result.metadata?.trace?.relaxations ?? [];
+                expectInsideWindow(time, scenario);
+
+                // Only priority 0 blocks are soft by default
+                const covering = getCoveringBlocks(time, scenario);
+                expect(covering.filter(block => block.priority > 0).map(block => block.block_name)).toEqual([]);
+                if (covering.length > 0) expect(relaxations).toContain('ignore_low_priority_blocks');
+
+                const gap = getGapMinutes(time, scenario);
+                if (gap !== null && gap < MIN_GAP_MINUTES) {
+                    expect(gap).toBeGreaterThanOrEqual(MIN_GAP_MINUTES / 2);
+                    expect(relaxations.some(r => r === 'reduced_min_gap' || r === 'minimal_gap')).toBe(true);
+                }
+            }),
+            { numRuns: RUNS }
+        );
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CallScheduler } from './scheduler';
-import { User, BlockedTime, ScheduleHelper, BlockRepeatType } from '@/types';
+import { createFixedClock } from './random';
+import { User, BlockedTime, ScheduleHelper, BlockRepeatType, TimePreferenceModel, DateOverride, DateOverrideType, SpontaneityLevel } from '@/types';
 
 describe('CallScheduler', () => {
     const mockUser: User = {
@@ -111,4 +112,800 @@ describe('CallScheduler', () => {
         const result = await scheduler.validateCallTime(targetTime, [blockedTime], mockScheduleHelper);
         expect(result.isValid).toBe(true);
     });
+
+    it('should suggest exactly the window start when proposed before the window', async () => {
+        // 22:00 UTC is 07:00 Tokyo, before the 09:00 window start
+        const targetTime = new Date('2023-10-24T22:00:00Z');
+        vi.setSystemTime(new Date('2023-10-24T21:00:00Z'));
+
+        const result = await scheduler.validateCallTime(targetTime, mockBlockedTimes, mockScheduleHelper);
+        expect(result.reason).toBe('outside_daily_window');
+        expect(result.suggestedTime?.toISOString()).toBe('2023-10-25T00:00:00.000Z'); // 09:00 Tokyo
+    });
+
+    it('should suggest the next morning when proposed after the window', async () => {
+        // 13:00 UTC is 22:00 Tokyo, after the 21:00 window end
+        const targetTime = new Date('2023-10-25T13:00:00Z');
+        vi.setSystemTime(new Date('2023-10-25T12:00:00Z'));
+
+        const result = await scheduler.validateCallTime(targetTime, mockBlockedTimes, mockScheduleHelper);
+        expect(result.reason).toBe('outside_daily_window');
+        expect(result.suggestedTime?.toISOString()).toBe('2023-10-26T00:00:00.000Z'); // 09:00 Tokyo
+    });
+
+    it('should reject a call past the daily limit and suggest the next morning', async () => {
+        // 14:00 Tokyo, with today's three calls made
+        vi.setSystemTime(new Date('2023-10-25T04:00:00Z'));
+        const fullDay = { ...mockScheduleHelper, calls_today: 3, daily_reset_date: '2023-10-25' };
+
+        const result = await scheduler.validateCallTime(new Date('2023-10-25T05:00:00Z'), mockBlockedTimes, fullDay);
+        expect(result.reason).toBe('daily_limit_reached');
+        expect(result.suggestedTime?.toISOString()).toBe('2023-10-26T00:00:00.000Z'); // 09:00 Thursday
+
+        const tomorrow = await scheduler.validateCallTime(result.suggestedTime!, mockBlockedTimes, fullDay);
+        expect(tomorrow.isValid).toBe(true);
+    });
+
+    it('should suggest exactly the block end time and treat it as free', async () => {
+        const blockedTime: BlockedTime = {
+            id: 'block-1',
+            user_id: 'user-1',
+            block_name: 'Lunch',
+            start_time: '12:00',
+            end_time: '13:00',
+            repeat_type: BlockRepeatType.DAILY,
+            is_active: true,
+            priority: 1,
+            created_at: new Date().toISOString(),
+        };
+
+        // 03:30 UTC is 12:30 Tokyo time (inside block)
+        vi.setSystemTime(new Date('2023-10-25T03:29:00Z'));
+        const result = await scheduler.validateCallTime(
+            new Date('2023-10-25T03:30:00Z'),
+            [blockedTime],
+            mockScheduleHelper
+        );
+        expect(result.suggestedTime?.toISOString()).toBe('2023-10-25T04:00:00.000Z'); // 13:00 Tokyo
+
+        const followUp = await scheduler.validateCallTime(result.suggestedTime!, [blockedTime], mockScheduleHelper);
+        expect(followUp.isValid).toBe(true);
+    });
+
+    describe('overnight blocks', () => {
+        const allDayUser: User = { ...mockUser, morning_start: '00:00', evening_end: '23:59' };
+
+        // Weekday nights: Mon-Fri 23:00 through the following morning 07:00 Tokyo time
+        const sleepBlock: BlockedTime = {
+            id: 'block-2',
+            user_id: 'user-1',
+            block_name: 'Sleep',
+            start_time: '23:00',
+            end_time: '07:00',
+            repeat_type: BlockRepeatType.WEEKDAYS,
+            is_active: true,
+            priority: 5,
+            created_at: new Date().toISOString(),
+        };
+
+        beforeEach(() => {
+            scheduler = new CallScheduler(allDayUser);
+            vi.setSystemTime(new Date('2023-10-26T00:00:00Z'));
+        });
+
+        it('should block the evening part on the start day', async () => {
+            // Friday 23:30 Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-27T14:30:00Z'), [sleepBlock], mockScheduleHelper);
+            expect(result.reason).toBe('blocked_sleep');
+        });
+
+        it('should block the early-morning part after a weekday start and suggest the block end', async () => {
+            // Saturday 02:00 Tokyo, inside the block that started Friday night
+            const result = await scheduler.validateCallTime(new Date('2023-10-27T17:00:00Z'), [sleepBlock], mockScheduleHelper);
+            expect(result.reason).toBe('blocked_sleep');
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-27T22:00:00.000Z'); // Saturday 07:00 Tokyo
+        });
+
+        it('should suggest the next morning when inside the evening part', async () => {
+            // Friday 23:30 Tokyo resolves to Saturday 07:00 Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-27T14:30:00Z'), [sleepBlock], mockScheduleHelper);
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-27T22:00:00.000Z');
+        });
+
+        it('should not block early morning after a weekend start', async () => {
+            // Sunday 02:00 Tokyo belongs to a block that would have started on Saturday
+            const result = await scheduler.validateCallTime(new Date('2023-10-28T17:00:00Z'), [sleepBlock], mockScheduleHelper);
+            expect(result.isValid).toBe(true);
+        });
+    });
+
+    describe('one-time blocks', () => {
+        const dentistBlock: BlockedTime = {
+            id: 'block-3',
+            user_id: 'user-1',
+            block_name: 'Dentist',
+            start_time: '12:00',
+            end_time: '13:00',
+            repeat_type: BlockRepeatType.ONCE,
+            start_date: '2023-10-25',
+            is_active: true,
+            priority: 5,
+            created_at: new Date().toISOString(),
+        };
+
+        beforeEach(() => {
+            vi.setSystemTime(new Date('2023-10-24T00:00:00Z'));
+        });
+
+        it('should block on its date', async () => {
+            // 2023-10-25 12:30 Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T03:30:00Z'), [dentistBlock], mockScheduleHelper);
+            expect(result.reason).toBe('blocked_dentist');
+        });
+
+        it('should not block on other dates', async () => {
+            // 2023-10-26 12:30 Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-26T03:30:00Z'), [dentistBlock], mockScheduleHelper);
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should block every day of a from/until range', async () => {
+            const tripBlock: BlockedTime = { ...dentistBlock, block_name: 'Trip', end_date: '2023-10-27' };
+
+            const inside = await scheduler.validateCallTime(new Date('2023-10-27T03:30:00Z'), [tripBlock], mockScheduleHelper);
+            const after = await scheduler.validateCallTime(new Date('2023-10-28T03:30:00Z'), [tripBlock], mockScheduleHelper);
+            expect(inside.reason).toBe('blocked_trip');
+            expect(after.isValid).toBe(true);
+        });
+    });
+
+    describe('generateNextCallTime', () => {
+        const workBlock: BlockedTime = {
+            id: 'block-4',
+            user_id: 'user-1',
+            block_name: 'Work',
+            start_time: '09:00',
+            end_time: '20:30',
+            repeat_type: BlockRepeatType.DAILY,
+            is_active: true,
+            priority: 5,
+            created_at: new Date().toISOString(),
+        };
+
+        beforeEach(() => {
+            // 09:00 Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should always find the only free slot in a single pass', async () => {
+            for (let i = 0; i < 20; i++) {
+                const result = await scheduler.generateNextCallTime([workBlock], mockScheduleHelper);
+
+                expect(result.success).toBe(true);
+                expect(result.metadata?.attempts).toBe(1);
+                expect(result.metadata?.constraints).toContain('blocked_work');
+
+                // Between 20:30 and 21:00 Tokyo today
+                const time = result.nextCallTime!.getTime();
+                expect(time).toBeGreaterThanOrEqual(new Date('2023-10-25T11:30:00Z').getTime());
+                expect(time).toBeLessThanOrEqual(new Date('2023-10-25T12:00:00Z').getTime());
+
+                const validation = await scheduler.validateCallTime(result.nextCallTime!, [workBlock], mockScheduleHelper);
+                expect(validation.isValid).toBe(true);
+            }
+        });
+
+        it('should explain the choice with a decision trace', async () => {
+            const result = await scheduler.generateNextCallTime([workBlock], mockScheduleHelper);
+            const trace = result.metadata!.trace!;
+
+            expect(trace.strategy).toBe('interval_sampling');
+            expect(trace.strategies).toEqual([{ strategy: 'interval_sampling', success: true, attempts: 1 }]);
+            expect(trace.windows.length).toBeGreaterThan(0);
+            expect(trace.rejections).toContainEqual(expect.objectContaining({
+                constraint: 'blocked_work',
+                label: 'Work',
+            }));
+            expect(trace.relaxations).toEqual([]);
+        });
+
+        it('should record the relaxation that made room for a call', async () => {
+            // A low-priority block over the whole window leaves only the relaxation strategy
+            const allDay: BlockedTime = { ...workBlock, block_name: 'Busy', start_time: '00:00', end_time: '23:59', priority: 0 };
+            const result = await scheduler.generateNextCallTime([allDay], mockScheduleHelper);
+            const trace = result.metadata!.trace!;
+
+            expect(result.success).toBe(true);
+            expect(trace.strategy).toBe('constraint_relaxation');
+            expect(trace.relaxations).toEqual(['ignore_low_priority_blocks']);
+            expect(trace.strategies.map(step => step.success)).toEqual([false, false, true]);
+            expect(trace.rejections.some(rejection => rejection.constraint === 'blocked_busy' && !rejection.end)).toBe(true);
+        });
+
+        it('should offer diverse valid alternatives alongside the chosen time', async () => {
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+            const alternatives = result.metadata!.alternatives!;
+            const times = [result.nextCallTime!, ...alternatives].map(time => time.getTime());
+
+            expect(alternatives.length).toBeGreaterThanOrEqual(2);
+            expect(alternatives.length).toBeLessThanOrEqual(4);
+            times.forEach((time, i) => times.slice(i + 1).forEach(other => {
+                expect(Math.abs(time - other)).toBeGreaterThanOrEqual(60 * 60 * 1000);
+            }));
+
+            const partOfDay = (time: Date) => {
+                const hour = Number(time.toLocaleString('en-GB', { timeZone: 'Asia/Tokyo', hour: '2-digit', hour12: false }));
+                const day = time.toLocaleDateString('en-GB', { timeZone: 'Asia/Tokyo' });
+                return `${day}-${hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : 'evening'}`;
+            };
+            const parts = [result.nextCallTime!, ...alternatives].map(partOfDay);
+            expect(new Set(parts).size).toBe(parts.length);
+
+            for (const alternative of alternatives) {
+                const validation = await scheduler.validateCallTime(alternative, [], mockScheduleHelper);
+                expect(validation.isValid).toBe(true);
+            }
+        });
+
+        it('should move to the next local day once the daily limit is reached', async () => {
+            const result = await scheduler.generateNextCallTime([], { ...mockScheduleHelper, calls_today: 3, daily_reset_date: '2023-10-25' });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata?.constraints).toContain('daily_limit_reached');
+            expect(result.nextCallTime!.getTime()).toBeGreaterThanOrEqual(new Date('2023-10-26T00:00:00Z').getTime());
+        });
+
+        it('should ignore a counter left over from an earlier local day', async () => {
+            // The counter was stamped on the 24th; it is now the 25th in Tokyo
+            const result = await scheduler.generateNextCallTime([], { ...mockScheduleHelper, calls_today: 3, daily_reset_date: '2023-10-24' });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata?.constraints).not.toContain('daily_limit_reached');
+        });
+    });
+
+    describe('weekly availability', () => {
+        // Lunch and evenings on weekdays, long days at the weekend
+        const weekday = [{ start: '12:00', end: '13:00' }, { start: '18:00', end: '22:00' }];
+        const weekend = [{ start: '10:00', end: '22:00' }];
+        const templateUser: User = {
+            ...mockUser,
+            weekly_availability: { Mon: weekday, Tue: weekday, Wed: weekday, Thu: weekday, Fri: weekday, Sat: weekend, Sun: weekend },
+        };
+        const tokyoMinutes = (date: Date) => {
+            const [hour, minute] = date
+                .toLocaleTimeString('en-GB', { timeZone: 'Asia/Tokyo', hour: '2-digit', minute: '2-digit' })
+                .split(':')
+                .map(Number);
+            return hour! * 60 + minute!;
+        };
+
+        beforeEach(() => {
+            scheduler = new CallScheduler(templateUser);
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should accept times inside any of the day\'s windows', async () => {
+            // 12:30 Wednesday in Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T03:30:00Z'), [], mockScheduleHelper);
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should reject the gap between windows and suggest the next window', async () => {
+            // 15:00 Wednesday in Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T06:00:00Z'), [], mockScheduleHelper);
+
+            expect(result.isValid).toBe(false);
+            expect(result.reason).toBe('outside_daily_window');
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-25T09:00:00.000Z'); // 18:00 Tokyo
+        });
+
+        it('should use the weekend windows on weekends', async () => {
+            // 15:00 Saturday in Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-28T06:00:00Z'), [], mockScheduleHelper);
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should only generate times inside the template', async () => {
+            for (const seed of [1, 2, 3, 4, 5]) {
+                const result = await new CallScheduler(templateUser, { seed }).generateNextCallTime([], mockScheduleHelper);
+                const minutes = tokyoMinutes(result.nextCallTime!);
+
+                expect(result.success).toBe(true);
+                expect((minutes >= 12 * 60 && minutes <= 13 * 60) || (minutes >= 18 * 60 && minutes <= 22 * 60)).toBe(true);
+            }
+        });
+    });
+
+    describe('date overrides', () => {
+        const override = (date: string, type: DateOverrideType, label?: string): DateOverride => ({
+            id: `override-${date}`,
+            user_id: 'user-1',
+            date,
+            override_type: type,
+            label,
+            created_at: new Date().toISOString(),
+        });
+        const weekdaysUser: User = { ...mockUser, active_days: 'Mon,Tue,Wed,Thu,Fri' };
+
+        beforeEach(() => {
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should reject an unavailable date before checking anything else', async () => {
+            const scheduler = new CallScheduler(mockUser, {
+                dateOverrides: [override('2023-10-25', DateOverrideType.UNAVAILABLE, 'Dentist')],
+            });
+            // 12:00 Wednesday in Tokyo
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T03:00:00Z'), [], mockScheduleHelper);
+
+            expect(result.isValid).toBe(false);
+            expect(result.reason).toBe('date_override');
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-26T00:00:00.000Z'); // 09:00 Thursday
+        });
+
+        it('should open an inactive day all day when marked available', async () => {
+            const scheduler = new CallScheduler(weekdaysUser, {
+                dateOverrides: [override('2023-10-28', DateOverrideType.AVAILABLE)],
+            });
+            // 07:00 Saturday in Tokyo, outside the usual window on a usually inactive day
+            const saturday = await scheduler.validateCallTime(new Date('2023-10-27T22:00:00Z'), [], mockScheduleHelper);
+            // 12:00 Sunday in Tokyo is still inactive
+            const sunday = await scheduler.validateCallTime(new Date('2023-10-29T03:00:00Z'), [], mockScheduleHelper);
+
+            expect(saturday.isValid).toBe(true);
+            expect(sunday.reason).toBe('inactive_day');
+        });
+
+        it('should skip unavailable dates when generating and explain why', async () => {
+            const scheduler = new CallScheduler(mockUser, {
+                seed: 3,
+                dateOverrides: [override('2023-10-25', DateOverrideType.UNAVAILABLE, 'Dentist')],
+            });
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+
+            expect(result.success).toBe(true);
+            expect(result.nextCallTime!.getTime()).toBeGreaterThanOrEqual(new Date('2023-10-26T00:00:00Z').getTime());
+            expect(result.metadata?.trace?.rejections).toContainEqual(
+                expect.objectContaining({ constraint: 'date_override', label: 'Dentist' })
+            );
+        });
+    });
+
+    describe('pause', () => {
+        beforeEach(() => {
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should not generate while paused indefinitely', async () => {
+            const scheduler = new CallScheduler({ ...mockUser, paused_at: '2023-10-20T00:00:00Z', paused_until: null });
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+
+            expect(result.success).toBe(false);
+            expect(result.metadata?.constraints).toEqual(['scheduling_paused']);
+        });
+
+        it('should schedule normally once the pause has ended', async () => {
+            const scheduler = new CallScheduler(
+                { ...mockUser, paused_at: '2023-10-20T00:00:00Z', paused_until: '2023-10-24T15:00:00Z' },
+                { seed: 3 }
+            );
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject times before the pause ends and suggest the first window after it', async () => {
+            // Paused until midnight Friday in Tokyo
+            const scheduler = new CallScheduler({ ...mockUser, paused_at: '2023-10-20T00:00:00Z', paused_until: '2023-10-26T15:00:00Z' });
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T03:00:00Z'), [], mockScheduleHelper);
+
+            expect(result.isValid).toBe(false);
+            expect(result.reason).toBe('scheduling_paused');
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-27T00:00:00.000Z'); // 09:00 Friday
+        });
+    });
+
+    describe('weekly cadence', () => {
+        beforeEach(() => {
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should hold the only call of a weekly target for the middle of the days left', async () => {
+            const scheduler = new CallScheduler({ ...mockUser, weekly_call_target: 1 }, { seed: 3 });
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+
+            // Wednesday to Sunday left: aim for Friday to Sunday
+            expect(result.success).toBe(true);
+            expect(result.nextCallTime!.getTime()).toBeGreaterThanOrEqual(new Date('2023-10-26T15:00:00Z').getTime());
+            expect(result.nextCallTime!.getTime()).toBeLessThan(new Date('2023-10-29T15:00:00Z').getTime());
+            expect(result.metadata?.trace?.rejections).toContainEqual(
+                expect.objectContaining({ constraint: 'weekly_target' })
+            );
+        });
+
+        it('should call before the silent days run out even when the target is met', async () => {
+            const scheduler = new CallScheduler(
+                { ...mockUser, weekly_call_target: 2, max_silence_days: 1 },
+                { seed: 3, callsThisWeek: 2 }
+            );
+            // Last call on Tuesday morning in Tokyo
+            const result = await scheduler.generateNextCallTime([], { ...mockScheduleHelper, last_call_time: '2023-10-24T01:00:00Z' });
+
+            expect(result.success).toBe(true);
+            expect(result.nextCallTime!.getTime()).toBeLessThan(new Date('2023-10-25T15:00:00Z').getTime());
+        });
+
+        it('should reject a call before the days the weekly target points to', async () => {
+            const scheduler = new CallScheduler({ ...mockUser, weekly_call_target: 1 }, { seed: 3 });
+
+            // 14:00 Wednesday, when the only call of the week is held for Friday onwards
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T05:00:00Z'), [], mockScheduleHelper);
+            expect(result.reason).toBe('weekly_target');
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-27T00:00:00.000Z'); // 09:00 Friday
+
+            const friday = await scheduler.validateCallTime(result.suggestedTime!, [], mockScheduleHelper);
+            expect(friday.isValid).toBe(true);
+        });
+
+        it('should plan the weekly target one call a day across the week', async () => {
+            const scheduler = new CallScheduler({ ...mockUser, weekly_call_target: 3 }, { seed: 3 });
+            const plan = await scheduler.generateWeekPlan([], mockScheduleHelper);
+            const thisWeek = plan.slots.filter(slot => slot.date < '2023-10-30');
+
+            expect(thisWeek.map(slot => slot.date)).toEqual(['2023-10-25', '2023-10-26', '2023-10-28']);
+        });
+    });
+
+    describe('constraint model', () => {
+        const block = (name: string, start: string, end: string, priority: number): BlockedTime => ({
+            id: name,
+            user_id: 'user-1',
+            block_name: name,
+            start_time: start,
+            end_time: end,
+            repeat_type: BlockRepeatType.DAILY,
+            is_active: true,
+            priority,
+            created_at: new Date().toISOString(),
+        });
+        // Free at 09:30-09:45 Tokyo, inside the gap after a 09:00 call, and at 15:00-16:00 under a low-priority block
+        const blocks = [block('Work', '09:45', '15:00', 5), block('Evening', '16:00', '09:30', 5), block('Errands', '15:00', '16:00', 0)];
+        const justCalled: ScheduleHelper = { ...mockScheduleHelper, last_call_time: '2023-10-25T00:00:00Z' };
+
+        beforeEach(() => {
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should bend the cheapest soft rule', async () => {
+            const result = await new CallScheduler(mockUser, { seed: 1, horizonDays: 1 }).generateNextCallTime(blocks, justCalled);
+            const time = result.nextCallTime!.getTime();
+
+            // A quarter off the 45 minute gap costs less than overlapping the block
+            expect(result.metadata?.trace?.strategy).toBe('constraint_relaxation');
+            expect(result.metadata?.trace?.relaxations).toEqual(['reduced_min_gap']);
+            expect(time).toBeGreaterThanOrEqual(new Date('2023-10-25T00:33:45Z').getTime());
+            expect(time).toBeLessThan(new Date('2023-10-25T00:45:00Z').getTime());
+        });
+
+        it('should never bend a hard rule', async () => {
+            const scheduler = new CallScheduler(mockUser, {
+                seed: 1,
+                horizonDays: 1,
+                constraints: { minGap: { hard: true, weight: 4, floor: 0.5 } },
+            });
+            const result = await scheduler.generateNextCallTime(blocks, justCalled);
+            const time = result.nextCallTime!.getTime();
+
+            expect(result.metadata?.trace?.relaxations).toEqual(['ignore_low_priority_blocks']);
+            expect(time).toBeGreaterThanOrEqual(new Date('2023-10-25T06:00:00Z').getTime());
+            expect(time).toBeLessThan(new Date('2023-10-25T07:00:00Z').getTime());
+
+            const noSoftBlocks = new CallScheduler(mockUser, {
+                seed: 1,
+                horizonDays: 1,
+                constraints: { minGap: { hard: true, weight: 4, floor: 0.5 }, blocks: { hardFromPriority: 0, weight: 3 } },
+            });
+            expect((await noSoftBlocks.generateNextCallTime(blocks, justCalled)).success).toBe(false);
+        });
+
+        it('should open an inactive day only when active days are soft', async () => {
+            const mondaysOnly = { ...mockUser, active_days: 'Mon' };
+
+            const strict = await new CallScheduler(mondaysOnly, { seed: 1, horizonDays: 1 }).generateNextCallTime([], mockScheduleHelper);
+            expect(strict.success).toBe(false);
+
+            const soft = await new CallScheduler(mondaysOnly, {
+                seed: 1,
+                horizonDays: 1,
+                constraints: { activeDays: { hard: false, weight: 8 } },
+            }).generateNextCallTime([], mockScheduleHelper);
+            expect(soft.success).toBe(true);
+            expect(soft.metadata?.trace?.relaxations).toEqual(['used_inactive_day']);
+            expect(soft.metadata?.constraints).toContain('used_inactive_day');
+
+            // Within Monday's usual 09:00-21:00 hours
+            const validation = await scheduler.validateCallTime(soft.nextCallTime!, [], mockScheduleHelper);
+            expect(validation.isValid).toBe(true);
+        });
+    });
+
+    describe('adaptive cadence', () => {
+        beforeEach(() => {
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should widen the gap and cut the day short when backing off', async () => {
+            const adaptation = { level: 2, gapFactor: 2, dailyLimit: 1, reason: 'consecutive_skips' };
+            const scheduler = new CallScheduler(mockUser, { seed: 3, adaptation });
+            const result = await scheduler.generateNextCallTime([], { ...mockScheduleHelper, calls_today: 1, daily_reset_date: '2023-10-25' });
+
+            // One call already made today is the adapted limit: nothing before Thursday
+            expect(result.success).toBe(true);
+            expect(result.nextCallTime!.getTime()).toBeGreaterThanOrEqual(new Date('2023-10-25T15:00:00Z').getTime());
+            expect(result.metadata?.adaptation).toEqual(adaptation);
+
+            // Twice the 45 minute minimum gap
+            for (const seed of [1, 2, 3, 4, 5]) {
+                const next = await new CallScheduler(mockUser, { seed, adaptation }).generateNextCallTime([], mockScheduleHelper);
+                expect(next.nextCallTime!.getTime()).toBeGreaterThanOrEqual(new Date('2023-10-25T01:30:00Z').getTime());
+            }
+        });
+
+        it('should never go past the configured limits', async () => {
+            const scheduler = new CallScheduler(
+                { ...mockUser, daily_call_limit: 2 },
+                { seed: 3, adaptation: { level: -1, gapFactor: 0.75, dailyLimit: 5, reason: 'well_rated_streak' } }
+            );
+            const plan = await scheduler.generateWeekPlan([], mockScheduleHelper);
+            const perDay = plan.slots.reduce<Record<string, number>>((counts, slot) => {
+                counts[slot.date] = (counts[slot.date] ?? 0) + 1;
+                return counts;
+            }, {});
+
+            expect(Math.max(...Object.values(perDay))).toBeLessThanOrEqual(2);
+        });
+    });
+
+    describe('spontaneity', () => {
+        beforeEach(() => {
+            // 09:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-25T00:00:00Z'));
+        });
+
+        it('should pick round times shortly after the min gap when predictable', async () => {
+            const scheduler = new CallScheduler({ ...mockUser, spontaneity_level: SpontaneityLevel.PREDICTABLE }, { seed: 3 });
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+
+            // A quarter of the 45-360 minute spread past the min gap: by 11:04 in Tokyo
+            expect(result.success).toBe(true);
+            expect(result.nextCallTime!.getUTCMinutes() % 30).toBe(0);
+            expect(result.nextCallTime!.getTime()).toBeLessThanOrEqual(new Date('2023-10-25T02:04:00Z').getTime());
+        });
+
+        it('should not repeat the previous day\'s hour', async () => {
+            // Yesterday's call was at 10:00 in Tokyo
+            const helper = { ...mockScheduleHelper, last_call_time: '2023-10-24T01:00:00Z' };
+
+            for (let seed = 1; seed <= 10; seed++) {
+                const scheduler = new CallScheduler(mockUser, { seed });
+                const result = await scheduler.generateNextCallTime([], helper);
+
+                expect(result.nextCallTime!.getTime()).toBeGreaterThanOrEqual(new Date('2023-10-25T02:00:00Z').getTime());
+            }
+        });
+
+        it('should still repeat an hour when nothing else is free', async () => {
+            const narrowUser: User = {
+                ...mockUser,
+                spontaneity_level: SpontaneityLevel.WILD,
+                weekly_availability: { Wed: [{ start: '10:00', end: '10:30' }] },
+            };
+            const scheduler = new CallScheduler(narrowUser, { seed: 3 });
+            const result = await scheduler.generateNextCallTime([], { ...mockScheduleHelper, last_call_time: '2023-10-24T01:00:00Z' });
+
+            expect(result.success).toBe(true);
+            expect(result.nextCallTime!.toISOString().slice(0, 13)).toBe('2023-10-25T01');
+        });
+    });
+
+    describe('partner availability', () => {
+        // Caller in Tokyo 09:00-21:00, partner in New York awake 08:00-23:00 (EDT, UTC-4 in October)
+        const partnerUser: User = {
+            ...mockUser,
+            partner_timezone: 'America/New_York',
+            partner_morning_start: '08:00',
+            partner_evening_end: '23:00',
+            partner_active_days: 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+        };
+
+        beforeEach(() => {
+            // 08:00 Wednesday in Tokyo
+            vi.setSystemTime(new Date('2023-10-24T23:00:00Z'));
+            scheduler = new CallScheduler(partnerUser);
+        });
+
+        it('should accept a time inside both windows', async () => {
+            // 21:00 Tokyo = 08:00 New York
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T12:00:00Z'), [], mockScheduleHelper);
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should reject a time while the partner is asleep and suggest the next joint time', async () => {
+            // 13:00 Tokyo = midnight in New York, past the partner's window
+            const result = await scheduler.validateCallTime(new Date('2023-10-25T04:00:00Z'), [], mockScheduleHelper);
+
+            expect(result.isValid).toBe(false);
+            expect(result.reason).toBe('outside_partner_window');
+            // 08:00 New York = 21:00 Tokyo, when both are next awake
+            expect(result.suggestedTime?.toISOString()).toBe('2023-10-25T12:00:00.000Z');
+        });
+
+        it('should reject a partner inactive day', async () => {
+            const weekdayPartner = new CallScheduler({ ...partnerUser, partner_active_days: 'Mon,Tue,Thu,Fri' });
+            // 21:00 Wednesday Tokyo = 08:00 Wednesday New York
+            const result = await weekdayPartner.validateCallTime(new Date('2023-10-25T12:00:00Z'), [], mockScheduleHelper);
+
+            expect(result.isValid).toBe(false);
+            expect(result.reason).toBe('outside_partner_window');
+        });
+
+        it('should only generate times inside both windows', async () => {
+            const result = await scheduler.generateNextCallTime([], mockScheduleHelper);
+
+            expect(result.success).toBe(true);
+            expect(result.metadata?.constraints).toContain('outside_partner_window');
+            const validation = await scheduler.validateCallTime(result.nextCallTime!, [], mockScheduleHelper);
+            expect(validation.isValid).toBe(true);
+        });
+    });
+
+    describe('week plan', () => {
+        // 09:00 Wednesday in Tokyo
+        const clock = createFixedClock('2023-10-25T00:00:00Z');
+        const lunch: BlockedTime = {
+            id: 'block-lunch',
+            user_id: 'user-1',
+            block_name: 'Lunch',
+            start_time: '12:00',
+            end_time: '13:00',
+            repeat_type: BlockRepeatType.DAILY,
+            is_active: true,
+            priority: 1,
+            created_at: new Date().toISOString(),
+        };
+        const tokyoTime = (iso: string) =>
+            new Date(iso).toLocaleTimeString('en-GB', { timeZone: 'Asia/Tokyo', hour: '2-digit', minute: '2-digit' });
+
+        beforeEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should plan up to the daily limit on each of the next 7 days within every constraint', async () => {
+            const plan = await new CallScheduler(mockUser, { seed: 7, clock }).generateWeekPlan([lunch], mockScheduleHelper);
+            const dates = plan.slots.map(slot => slot.date);
+
+            expect(new Set(dates).size).toBe(7);
+            for (const date of new Set(dates)) {
+                expect(dates.filter(d => d === date).length).toBeLessThanOrEqual(3);
+            }
+
+            plan.slots.forEach((slot, i) => {
+                const time = tokyoTime(slot.time);
+                expect(time >= '09:00' && time <= '21:00').toBe(true);
+                expect(time >= '12:00' && time < '13:00').toBe(false);
+                if (i > 0) {
+                    const gap = new Date(slot.time).getTime() - new Date(plan.slots[i - 1]!.time).getTime();
+                    expect(gap).toBeGreaterThanOrEqual(45 * 60 * 1000);
+                }
+            });
+        });
+
+        it('should count calls already made today against the limit', async () => {
+            const plan = await new CallScheduler(mockUser, { seed: 7, clock })
+                .generateWeekPlan([], { ...mockScheduleHelper, calls_today: 3, daily_reset_date: '2023-10-25' });
+
+            expect(plan.slots.some(slot => slot.date === '2023-10-25')).toBe(false);
+        });
+
+        it('should re-plan only the affected day and keep a fixed time', async () => {
+            const scheduler = new CallScheduler(mockUser, { seed: 7, clock });
+            const plan = await scheduler.generateWeekPlan([], mockScheduleHelper);
+            const fixedTime = new Date('2023-10-26T06:00:00Z'); // 15:00 Thursday in Tokyo
+
+            const replanned = await scheduler.replanDay(plan, '2023-10-26', [], mockScheduleHelper, fixedTime);
+
+            const untouched = (p: typeof plan) => p.slots.filter(slot => slot.date !== '2023-10-26');
+            expect(untouched(replanned)).toEqual(untouched(plan));
+            expect(replanned.slots.map(slot => slot.time)).toContain(fixedTime.toISOString());
+            replanned.slots
+                .filter(slot => slot.date === '2023-10-26')
+                .forEach(slot => expect(new Date(slot.time).getTime()).toBeGreaterThanOrEqual(fixedTime.getTime()));
+        });
+
+        it('should keep to the weekly target when re-planning a day', async () => {
+            const scheduler = new CallScheduler({ ...mockUser, weekly_call_target: 3 }, { seed: 7, clock });
+            const plan = await scheduler.generateWeekPlan([], mockScheduleHelper);
+
+            // Friday has no call under a target of 3, and Thursday gets only one
+            const friday = await scheduler.replanDay(plan, '2023-10-27', [], mockScheduleHelper);
+            const thursday = await scheduler.replanDay(plan, '2023-10-26', [], mockScheduleHelper);
+
+            expect(friday.slots.filter(slot => slot.date === '2023-10-27')).toEqual([]);
+            expect(thursday.slots.filter(slot => slot.date === '2023-10-26')).toHaveLength(1);
+        });
+    });
+
+    describe('learned preferences', () => {
+        // 09:00 Wednesday in Tokyo
+        const clock = createFixedClock('2023-10-25T00:00:00Z');
+
+        // Every Wednesday hour in the window has history, but only 13:00 ever worked
+        const buckets: TimePreferenceModel['buckets'] = {};
+        for (let hour = 9; hour <= 21; hour++) {
+            buckets[`Wed-${hour}`] = {
+                day: 'Wed', hour, offered: 4, answered: hour === 13 ? 4 : 0,
+                averageRating: hour === 13 ? 5 : null, score: hour === 13 ? 1 : 0,
+            };
+        }
+        const preferences: TimePreferenceModel = { buckets, sampleSize: 52, explorationRate: 0 };
+
+        beforeEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should only pick the preferred hour when exploration is off', async () => {
+            for (let seed = 1; seed <= 20; seed++) {
+                const result = await new CallScheduler(mockUser, { seed, clock, preferences }).generateNextCallTime([], mockScheduleHelper);
+                // 13:xx Tokyo is 04:xx UTC
+                expect(result.nextCallTime!.getUTCHours()).toBe(4);
+            }
+        });
+
+        it('should still explore other hours when exploration is on', async () => {
+            const hours = new Set<number>();
+            for (let seed = 1; seed <= 40; seed++) {
+                const result = await new CallScheduler(mockUser, {
+                    seed, clock, preferences: { ...preferences, explorationRate: 0.5 },
+                }).generateNextCallTime([], mockScheduleHelper);
+                hours.add(result.nextCallTime!.getUTCHours());
+            }
+            expect(hours.size).toBeGreaterThan(1);
+        });
+    });
+
+    describe('reproducibility', () => {
+        // 09:00 Tokyo, injected instead of faking timers
+        const clock = createFixedClock('2023-10-25T00:00:00Z');
+
+        beforeEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should produce the same time for the same seed and clock', async () => {
+            const first = await new CallScheduler(mockUser, { seed: 42, clock }).generateNextCallTime([], mockScheduleHelper);
+            const second = await new CallScheduler(mockUser, { seed: 42, clock }).generateNextCallTime([], mockScheduleHelper);
+
+            expect(first.nextCallTime?.toISOString()).toBe(second.nextCallTime?.toISOString());
+            expect(first.metadata?.seed).toBe(42);
+            expect(first.metadata?.generatedAt).toBe('2023-10-25T00:00:00.000Z');
+        });
+
+        it('should replay an unseeded generation from its recorded metadata', async () => {
+            const original = await new CallScheduler(mockUser, { clock }).generateNextCallTime([], mockScheduleHelper);
+            const replay = await new CallScheduler(mockUser, {
+                seed: original.metadata!.seed,
+                clock: createFixedClock(original.metadata!.generatedAt!),
+            }).generateNextCallTime([], mockScheduleHelper);
+
+            expect(typeof original.metadata?.seed).toBe('number');
+            expect(replay.nextCallTime?.toISOString()).toBe(original.nextCallTime?.toISOString());
+        });
+    });
 });
@@ -1,6 +1,8 @@
 /**
  * Advanced Call Scheduling Engine
- * Implements intelligent algorithms for optimal call timing with constraint satisfaction
+ * Implements intelligent algorithms for optimal call timing with constraint satisfaction.
+ * Free of browser and database dependencies so the same engine runs server-side;
+ * logs go to the logger passed in the options.
  */
 
 import {
@@ -9,12 +11,111 @@ import {
   ScheduleHelper,
   CallGenerationOptions,
   CallValidationResult,
+  Clock,
+  RandomSource,
+  SchedulingLogger,
   SchedulingResult,
-  BlockRepeatType,
+  SchedulingStrategy,
+  SchedulingTrace,
+  TraceRejection,
+  TraceWindow,
+  TimePreferenceModel,
+  CadenceAdaptation,
+  ConstraintModel,
+  DateOverride,
+  PlannedCall,
+  WeekPlan,
   APP_CONFIG,
 } from '@/types';
-import { logger, withPerformanceLogging, withErrorLogging } from '@/lib/logger';
 import { ValidationError, AppError } from '@/types';
+import {
+  ZonedDateTime,
+  getZonedDateTime,
+  zonedTimeToInstant,
+  addDaysToDateKey,
+  getWeekdayOfDateKey,
+  getPartOfDay,
+  parseTimeOfDay,
+  formatTimeOfDay,
+} from './zonedTime';
+import {
+  TimeInterval,
+  MINUTE_MS,
+  normalizeIntervals,
+  subtractInterval,
+  clipIntervals,
+  totalDuration,
+  pickInstantInIntervals,
+  pickWeightedIndex,
+} from './intervals';
+import { createSeededRandom, generateSeed, systemClock } from './random';
+import { getPreferenceScore, getPreferenceWeight } from './preferences';
+import { getCallsToday } from './dailyReset';
+import { getWeeklyAvailability, getWindowsForDate, summarizeWeeklyAvailability } from './availability';
+import { getPauseState } from './pause';
+import { blockAppliesOnDate } from './blockedTimes';
+import { CadenceWindow, getCadenceWindow, getWeekStartKey } from './cadence';
+import { SpontaneityProfile, getSpontaneityProfile } from './spontaneity';
+import {
+  PenaltySpan,
+  resolveConstraintModel,
+  getBlockRule,
+  getMinGapPenalties,
+  getCallTimeCost,
+  findLowestCostIntervals,
+} from './constraints';
+
+/**
+ * Free time left after applying the user's constraints, plus the constraints that removed any of it
+ */
+interface Availability {
+  intervals: TimeInterval[];
+  constraints: string[];
+  /** Spans of time each constraint removed */
+  rejections: TraceRejection[];
+  /** Time left in only because a soft rule was bent, when built against a constraint model */
+  penalties: PenaltySpan[];
+}
+
+/**
+ * A strategy's result plus the free time it picked from, used to offer alternatives
+ */
+interface StrategyOutcome extends SchedulingResult {
+  freeIntervals?: TimeInterval[];
+}
+
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Research-based calling hours used until the user has call history
+const DEFAULT_PREFERRED_HOURS = [10, 11, 14, 16, 19, 20];
+
+// How many of the best-scoring hours the pattern strategy tries
+const PREFERRED_SLOT_COUNT = 6;
+
+// Local hour ranges alternatives are spread across: morning, afternoon, evening
+const DAY_PARTS = [
+  { startHour: 0, endHour: 12 },
+  { startHour: 12, endHour: 17 },
+  { startHour: 17, endHour: 24 },
+];
+
+const MAX_ALTERNATIVES = 4;
+
+// Partner availability defaults, matching the users table column defaults
+const DEFAULT_WINDOW_START = '09:00';
+const DEFAULT_WINDOW_END = '21:00';
+const DEFAULT_ACTIVE_DAYS = 'Mon,Tue,Wed,Thu,Fri,Sat,Sun';
+
+// Alternatives closer than this to the chosen time or each other are not worth offering
+const ALTERNATIVE_SPACING_MINUTES = 60;
+
+// Used when no log sink is passed in
+const SILENT_LOGGER: SchedulingLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
 
 /**
  * Core scheduling engine that generates optimal call times
@@ -25,17 +126,58 @@ export class CallScheduler {
   private readonly minGapMinutes: number;
   private readonly maxGapMinutes: number;
   private readonly maxAttempts: number;
+  private readonly horizonDays: number;
+  private readonly clock: Clock;
+  private readonly fixedSeed?: number;
+  private readonly preferences?: TimePreferenceModel;
+  /** Date overrides keyed by local "YYYY-MM-DD" */
+  private readonly dateOverrides: Map<string, DateOverride>;
+  /** Completed calls in the current local week, for the weekly target */
+  private readonly callsThisWeek: number;
+  private readonly spontaneity: SpontaneityProfile;
+  /** Back-off or pick-up from recent outcomes, already applied to the gaps and daily limit */
+  private readonly adaptation: CadenceAdaptation | null;
+  private readonly dailyLimit: number;
+  /** Hard and soft rules the relaxation strategy scores times against */
+  private readonly constraintModel: ConstraintModel;
+  private readonly logger: SchedulingLogger;
+  private random: RandomSource;
+  private frozenNow: Date | null = null;
 
   constructor(
     user: User,
     options: Partial<CallGenerationOptions> = {}
   ) {
     this.user = user;
-    this.minGapMinutes = options.minGapMinutes || APP_CONFIG.MIN_CALL_GAP_MINUTES;
-    this.maxGapMinutes = options.maxGapMinutes || APP_CONFIG.MAX_CALL_GAP_MINUTES;
+    this.spontaneity = getSpontaneityProfile(user);
+    const minGapMinutes = options.minGapMinutes || APP_CONFIG.MIN_CALL_GAP_MINUTES;
+    // Spontaneity widens or narrows how far past the min gap the next call may land
+    const configuredMaxGap = options.maxGapMinutes || APP_CONFIG.MAX_CALL_GAP_MINUTES;
+    const maxGapMinutes = Math.round(
+      minGapMinutes + (configuredMaxGap - minGapMinutes) * this.spontaneity.gapScale
+    );
+
+    // Adapting stays inside those gaps: backing off raises the minimum toward the maximum,
+    // picking up pulls the maximum toward the minimum
+    this.adaptation = options.adaptation ?? null;
+    const gapFactor = this.adaptation?.gapFactor ?? 1;
+    this.minGapMinutes = gapFactor > 1 ? Math.min(maxGapMinutes, Math.round(minGapMinutes * gapFactor)) : minGapMinutes;
+    this.maxGapMinutes = gapFactor < 1
+      ? Math.round(minGapMinutes + (maxGapMinutes - minGapMinutes) * gapFactor)
+      : maxGapMinutes;
+    this.dailyLimit = Math.max(1, Math.min(user.daily_call_limit, this.adaptation?.dailyLimit ?? user.daily_call_limit));
     this.maxAttempts = options.maxAttempts || 50;
-
-    logger.debug('CallScheduler initialized', {
+    this.horizonDays = options.horizonDays || APP_CONFIG.SCHEDULING_HORIZON_DAYS;
+    this.clock = options.clock || systemClock;
+    this.fixedSeed = options.seed;
+    this.preferences = options.preferences;
+    this.dateOverrides = new Map((options.dateOverrides || []).map(override => [override.date, override]));
+    this.callsThisWeek = options.callsThisWeek ?? 0;
+    this.constraintModel = resolveConstraintModel(options.constraints);
+    this.logger = options.logger ?? SILENT_LOGGER;
+    this.random = createSeededRandom(options.seed ?? generateSeed());
+
+    this.logger.debug('CallScheduler initialized', {
       userId: user.id,
       component: 'CallScheduler',
       action: 'initialize',
@@ -43,32 +185,96 @@ export class CallScheduler {
         minGapMinutes: this.minGapMinutes,
         maxGapMinutes: this.maxGapMinutes,
         maxAttempts: this.maxAttempts,
+        horizonDays: this.horizonDays,
         timezone: user.timezone,
+        preferenceSamples: this.preferences?.sampleSize ?? 0,
+        dateOverrides: this.dateOverrides.size,
+        callsThisWeek: this.callsThisWeek,
+        spontaneity: user.spontaneity_level ?? 'balanced',
+        adaptation: this.adaptation,
       },
     });
   }
 
+  /**
+   * Current time; frozen for the duration of a generation so it can be replayed exactly
+   */
+  private now(): Date {
+    return this.frozenNow ? new Date(this.frozenNow) : this.clock.now();
+  }
+
   /**
    * Get user's local time components from a Date object
    */
-  private getUserLocalTime(date: Date): { hour: number; minute: number; day: string; timeStr: string } {
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: this.user.timezone,
-      hour: 'numeric',
-      minute: 'numeric',
-      weekday: 'short',
-      hour12: false,
+  private getUserLocalTime(date: Date): ZonedDateTime {
+    return getZonedDateTime(date, this.user.timezone);
+  }
+
+  /**
+   * Calls already made on the user's local day containing `date`; a counter left over
+   * from an earlier local day counts as zero even if the reset hasn't been persisted yet
+   */
+  private getCallsToday(scheduleHelper: ScheduleHelper, date: Date = this.now()): number {
+    return getCallsToday(scheduleHelper, this.user.timezone, date);
+  }
+
+  /**
+   * Local day of the most recent call, if there has been one
+   */
+  private getLastCallDay(scheduleHelper: ScheduleHelper): string | null {
+    return scheduleHelper.last_call_time
+      ? this.getUserLocalTime(new Date(scheduleHelper.last_call_time)).dateKey
+      : null;
+  }
+
+  private getLastCallInstant(scheduleHelper: ScheduleHelper): number | null {
+    return scheduleHelper.last_call_time ? new Date(scheduleHelper.last_call_time).getTime() : null;
+  }
+
+  /**
+   * Days the next call after `lastCallDay` should land on, seen from local day `dateKey`
+   */
+  private getCadence(dateKey: string, callsThisWeek: number, lastCallDay: string | null): CadenceWindow | null {
+    return getCadenceWindow({
+      today: dateKey,
+      callsThisWeek,
+      lastCallDay,
+      weeklyTarget: this.user.weekly_call_target,
+      maxSilenceDays: this.user.max_silence_days,
     });
+  }
 
-    const parts = formatter.formatToParts(date);
-    const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
-    const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
-    const day = parts.find(p => p.type === 'weekday')?.value || '';
+  /**
+   * How many calls to plan on local day `day`: the weekly cadence decides which days get calls
+   * and how many, up to what is left of the daily limit
+   */
+  private getDayCallCount(
+    day: string,
+    today: string,
+    scheduleHelper: ScheduleHelper,
+    callsThisWeek: number,
+    lastCallDay: string | null
+  ): number {
+    const limit = this.dailyLimit - (day === today ? this.getCallsToday(scheduleHelper) : 0);
+    const cadence = this.getCadence(day, callsThisWeek, lastCallDay);
+    return !cadence ? limit : day < cadence.start ? 0 : Math.min(limit, cadence.callsPerDay ?? limit);
+  }
 
-    // Ensure 2-digit format for comparison (e.g., "09:05")
-    const timeStr = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+  /**
+   * Exact instant of "HH:mm" on a local calendar day in the user's timezone
+   */
+  private getUserInstant(dateKey: string, time: string): Date {
+    return zonedTimeToInstant(dateKey, time, this.user.timezone);
+  }
 
-    return { hour, minute, day, timeStr };
+  /**
+   * Give a generation its own seed and a frozen clock so its random choices can be replayed
+   */
+  private startGeneration(): { seed: number; generatedAt: string } {
+    const seed = this.fixedSeed ?? generateSeed();
+    this.random = createSeededRandom(seed);
+    this.frozenNow = this.clock.now();
+    return { seed, generatedAt: this.frozenNow.toISOString() };
   }
 
   /**
@@ -78,62 +284,89 @@ export class CallScheduler {
     blockedTimes: BlockedTime[],
     scheduleHelper: ScheduleHelper
   ): Promise<SchedulingResult> {
-    logger.info('Generating next call time', {
+    this.logger.info('Generating next call time', {
       userId: this.user.id,
       component: 'CallScheduler',
       action: 'generateNextCallTime',
       metadata: {
         blockedTimesCount: blockedTimes.length,
-        callsToday: scheduleHelper.calls_today,
-        dailyLimit: this.user.daily_call_limit,
+        callsToday: this.getCallsToday(scheduleHelper),
+        dailyLimit: this.dailyLimit,
         timezone: this.user.timezone,
       },
     });
 
+    const { seed, generatedAt } = this.startGeneration();
+
     try {
-      // Validate daily limit
-      if (scheduleHelper.calls_today >= this.user.daily_call_limit) {
-        const nextDayTime = await this.getNextDayFirstCall();
-        logger.info('Daily limit reached, scheduling for next day', {
+      // No calls are generated while paused; scheduling picks up again once the pause ends
+      const pause = getPauseState(this.user, this.now());
+      if (pause.isPaused) {
+        this.logger.info('Scheduling is paused', {
           userId: this.user.id,
           component: 'CallScheduler',
-          action: 'dailyLimitReached',
-          metadata: { nextDayTime: nextDayTime.toISOString() },
+          action: 'generatePaused',
+          metadata: { pausedUntil: pause.until?.toISOString() ?? null, seed },
         });
 
         return {
-          success: true,
-          nextCallTime: nextDayTime,
-          metadata: {
-            attempts: 1,
-            constraints: ['daily_limit_reached'],
-          },
+          success: false,
+          error: 'Scheduling is paused',
+          metadata: { attempts: 0, constraints: ['scheduling_paused'], seed, generatedAt },
         };
       }
 
-      // Use multi-strategy approach for optimal time finding
-      const strategies = [
-        () => this.findTimeWithBasicRandomization(blockedTimes, scheduleHelper),
-        () => this.findTimeWithPatternOptimization(blockedTimes, scheduleHelper),
-        () => this.findTimeWithConstraintRelaxation(blockedTimes, scheduleHelper),
+      // Use multi-strategy approach for optimal time finding.
+      // The daily limit is applied inside the availability engine by closing out the rest of today.
+      const strategies: { name: SchedulingStrategy; run: () => Promise<StrategyOutcome> }[] = [
+        {
+          name: SchedulingStrategy.INTERVAL_SAMPLING,
+          run: () => this.findTimeWithIntervalSampling(blockedTimes, scheduleHelper),
+        },
+        {
+          name: SchedulingStrategy.PATTERN_OPTIMIZATION,
+          run: () => this.findTimeWithPatternOptimization(blockedTimes, scheduleHelper),
+        },
+        {
+          name: SchedulingStrategy.CONSTRAINT_RELAXATION,
+          run: () => this.findTimeWithConstraintRelaxation(blockedTimes, scheduleHelper),
+        },
       ];
 
       let totalAttempts = 0;
       const allConstraints: string[] = [];
+      const trace: SchedulingTrace = { strategies: [], windows: [], rejections: [], relaxations: [] };
 
       for (const strategy of strategies) {
-        const result = await strategy();
-        totalAttempts += result.metadata?.attempts || 0;
+        const { freeIntervals, ...result } = await strategy.run();
+        const attempts = result.metadata?.attempts || 0;
+        totalAttempts += attempts;
+
+        const success = !!(result.success && result.nextCallTime);
+        trace.strategies.push({ strategy: strategy.name, success, attempts });
+        this.mergeRejections(trace, result.metadata?.trace?.rejections || []);
+
+        if (success) {
+          trace.strategy = strategy.name;
+          trace.windows = result.metadata?.trace?.windows || [];
+          trace.relaxations = result.metadata?.trace?.relaxations || [];
+
+          const alternatives = this.findAlternatives(
+            freeIntervals ?? this.buildAvailability(blockedTimes, scheduleHelper, this.minGapMinutes).intervals,
+            result.nextCallTime!
+          );
 
-        if (result.success && result.nextCallTime) {
-          logger.info('Successfully generated call time', {
+          this.logger.info('Successfully generated call time', {
             userId: this.user.id,
             component: 'CallScheduler',
             action: 'generateSuccess',
             metadata: {
-              nextCallTime: result.nextCallTime.toISOString(),
+              nextCallTime: result.nextCallTime!.toISOString(),
               totalAttempts,
-              strategy: strategy.name, // Note: Function names might be minified in prod
+              strategy: strategy.name,
+              relaxations: trace.relaxations,
+              alternatives: alternatives.length,
+              seed,
             },
           });
 
@@ -142,6 +375,11 @@ export class CallScheduler {
             metadata: {
               ...result.metadata,
               attempts: totalAttempts,
+              alternatives,
+              seed,
+              generatedAt,
+              trace,
+              ...(this.adaptation && { adaptation: this.adaptation }),
             },
           };
         }
@@ -152,13 +390,14 @@ export class CallScheduler {
       }
 
       // All strategies failed
-      logger.warn('Failed to generate call time with all strategies', {
+      this.logger.warn('Failed to generate call time with all strategies', {
         userId: this.user.id,
         component: 'CallScheduler',
         action: 'generateFailed',
         metadata: {
           totalAttempts,
           constraints: allConstraints,
+          seed,
         },
       });
 
@@ -168,14 +407,18 @@ export class CallScheduler {
         metadata: {
           attempts: totalAttempts,
           constraints: allConstraints,
+          seed,
+          generatedAt,
+          trace,
+          ...(this.adaptation && { adaptation: this.adaptation }),
         },
       };
     } catch (error) {
-      logger.error('Error in call time generation', {
+      this.logger.error('Error in call time generation', {
         userId: this.user.id,
         component: 'CallScheduler',
         action: 'generateError',
-        metadata: { error },
+        metadata: { error, seed },
       });
 
       throw new AppError(
@@ -184,93 +427,287 @@ export class CallScheduler {
         500,
         error
       );
+    } finally {
+      this.frozenNow = null;
+    }
+  }
+
+  /**
+   * Add rejections to a trace, skipping ones an earlier strategy already reported
+   */
+  private mergeRejections(trace: SchedulingTrace, rejections: TraceRejection[]): void {
+    const key = (rejection: TraceRejection) => `${rejection.constraint}|${rejection.start}|${rejection.end ?? ''}`;
+    const seen = new Set(trace.rejections.map(key));
+
+    for (const rejection of rejections) {
+      if (!seen.has(key(rejection))) {
+        seen.add(key(rejection));
+        trace.rejections.push(rejection);
+      }
+    }
+  }
+
+  private toTraceWindow(interval: TimeInterval): TraceWindow {
+    return { start: new Date(interval.start).toISOString(), end: new Date(interval.end).toISOString() };
+  }
+
+  /**
+   * Pick up to MAX_ALTERNATIVES other times from the free intervals, spread across parts
+   * of the day: one per morning, afternoon and evening, soonest first, skipping the part
+   * the chosen time falls in
+   */
+  private findAlternatives(intervals: TimeInterval[], chosen: Date): Date[] {
+    if (intervals.length === 0) return [];
+
+    const chosenLocal = this.getUserLocalTime(chosen);
+    const firstDay = this.getUserLocalTime(new Date(intervals[0]!.start)).dateKey;
+    const lastDay = this.getUserLocalTime(new Date(intervals[intervals.length - 1]!.end - 1)).dateKey;
+    const spacing = ALTERNATIVE_SPACING_MINUTES * MINUTE_MS;
+    const picked: number[] = [chosen.getTime()];
+
+    for (let day = firstDay; day <= lastDay && picked.length <= MAX_ALTERNATIVES; day = addDaysToDateKey(day, 1)) {
+      for (const part of DAY_PARTS) {
+        if (picked.length > MAX_ALTERNATIVES) break;
+
+        const isChosenPart = day === chosenLocal.dateKey
+          && chosenLocal.hour >= part.startHour
+          && chosenLocal.hour < part.endHour;
+        if (isChosenPart) continue;
+
+        const partStart = this.getUserInstant(day, formatTimeOfDay(part.startHour * 60)).getTime();
+        const partEnd = part.endHour === 24
+          ? this.getUserInstant(addDaysToDateKey(day, 1), '00:00').getTime()
+          : this.getUserInstant(day, formatTimeOfDay(part.endHour * 60)).getTime();
+
+        const time = pickInstantInIntervals(clipIntervals(intervals, partStart, partEnd), this.random());
+        if (time !== null && picked.every(other => Math.abs(time - other) >= spacing)) {
+          picked.push(time);
+        }
+      }
     }
+
+    return picked.slice(1).map(time => new Date(time));
   }
 
   /**
-   * Strategy 1: Basic randomization within constraints
+   * Lay out every call for the coming week, respecting the daily limit, gaps, active days and blocks
    */
-  private async findTimeWithBasicRandomization(
+  public async generateWeekPlan(
     blockedTimes: BlockedTime[],
     scheduleHelper: ScheduleHelper
-  ): Promise<SchedulingResult> {
-    const now = new Date();
-    let attempts = 0;
-    const constraints: string[] = [];
+  ): Promise<WeekPlan> {
+    const { seed, generatedAt } = this.startGeneration();
 
-    while (attempts < this.maxAttempts) {
-      attempts++;
+    try {
+      const today = this.getUserLocalTime(this.now()).dateKey;
+      const planEnd = this.getUserInstant(addDaysToDateKey(today, APP_CONFIG.WEEK_PLAN_DAYS), '00:00').getTime();
+      const availability = this.buildAvailability(blockedTimes, scheduleHelper, this.minGapMinutes, planEnd);
+
+      const slots: PlannedCall[] = [];
+      let previous = scheduleHelper.last_call_time ? new Date(scheduleHelper.last_call_time).getTime() : null;
+      let callsThisWeek = this.callsThisWeek;
+      let lastCallDay = this.getLastCallDay(scheduleHelper);
+
+      for (let i = 0; i < APP_CONFIG.WEEK_PLAN_DAYS; i++) {
+        const day = addDaysToDateKey(today, i);
+        if (i > 0 && day === getWeekStartKey(day)) callsThisWeek = 0;
+
+        const count = this.getDayCallCount(day, today, scheduleHelper, callsThisWeek, lastCallDay);
+        const times = this.planDay(availability.intervals, day, count, previous, planEnd);
+
+        slots.push(...times.map(time => this.toPlannedCall(time)));
+        if (times.length > 0) {
+          previous = times[times.length - 1]!;
+          callsThisWeek += times.length;
+          lastCallDay = day;
+        }
+      }
 
-      // Generate random interval
-      const randomMinutes = Math.floor(
-        Math.random() * (this.maxGapMinutes - this.minGapMinutes) + this.minGapMinutes
-      );
-      const proposedTime = new Date(now.getTime() + randomMinutes * 60000);
+      this.logger.info('Generated week plan', {
+        userId: this.user.id,
+        component: 'CallScheduler',
+        action: 'generateWeekPlan',
+        metadata: { slots: slots.length, constraints: availability.constraints, seed },
+      });
 
-      const validation = await this.validateCallTime(
-        proposedTime,
-        blockedTimes,
-        scheduleHelper
+      return { slots, seed, generatedAt, constraints: availability.constraints };
+    } finally {
+      this.frozenNow = null;
+    }
+  }
+
+  /**
+   * Re-plan a single local day of an existing plan, leaving every other day untouched.
+   * A `fixedTime` (e.g. a rescheduled call) is kept and the day is filled in after it.
+   */
+  public async replanDay(
+    plan: WeekPlan,
+    dateKey: string,
+    blockedTimes: BlockedTime[],
+    scheduleHelper: ScheduleHelper,
+    fixedTime?: Date
+  ): Promise<WeekPlan> {
+    const { seed, generatedAt } = this.startGeneration();
+
+    try {
+      const today = this.getUserLocalTime(this.now()).dateKey;
+      const otherSlots = plan.slots.filter(slot => slot.date !== dateKey);
+      const fixed = fixedTime ? [fixedTime.getTime()] : [];
+
+      // The next planned day caps this one so the min gap holds across midnight
+      const nextSlot = otherSlots.find(slot => slot.date > dateKey);
+      const dayEnd = this.getUserInstant(addDaysToDateKey(dateKey, 1), '00:00').getTime();
+      const latest = nextSlot
+        ? Math.min(dayEnd, new Date(nextSlot.time).getTime() - this.minGapMinutes * MINUTE_MS)
+        : dayEnd;
+
+      const previousSlot = otherSlots.filter(slot => slot.date < dateKey).pop();
+      const previous = fixed[0]
+        ?? (previousSlot ? new Date(previousSlot.time).getTime() : null)
+        ?? (scheduleHelper.last_call_time ? new Date(scheduleHelper.last_call_time).getTime() : null);
+
+      // Calls planned earlier in the same week count towards its target
+      const weekStart = getWeekStartKey(dateKey);
+      const callsThisWeek = (weekStart === getWeekStartKey(today) ? this.callsThisWeek : 0)
+        + otherSlots.filter(slot => slot.date >= weekStart && slot.date < dateKey).length;
+      const lastCallDay = previousSlot?.date ?? this.getLastCallDay(scheduleHelper);
+      const count = Math.max(
+        0,
+        this.getDayCallCount(dateKey, today, scheduleHelper, callsThisWeek, lastCallDay) - fixed.length
       );
 
-      if (validation.isValid) {
-        return {
-          success: true,
-          nextCallTime: proposedTime,
-          metadata: {
-            attempts,
-            constraints,
-          },
-        };
-      }
+      const availability = this.buildAvailability(blockedTimes, scheduleHelper, this.minGapMinutes, dayEnd);
+      const times = [...fixed, ...this.planDay(availability.intervals, dateKey, count, previous, latest)];
 
-      if (validation.reason && !constraints.includes(validation.reason)) {
-        constraints.push(validation.reason);
-      }
+      const slots = [...otherSlots, ...times.map(time => this.toPlannedCall(time))]
+        .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
 
-      // Try suggested time if available
-      if (validation.suggestedTime) {
-        const suggestedValidation = await this.validateCallTime(
-          validation.suggestedTime,
-          blockedTimes,
-          scheduleHelper
-        );
+      this.logger.info('Re-planned day', {
+        userId: this.user.id,
+        component: 'CallScheduler',
+        action: 'replanDay',
+        metadata: { date: dateKey, slots: times.length, fixedTime: fixedTime?.toISOString(), seed },
+      });
 
-        if (suggestedValidation.isValid) {
-          return {
-            success: true,
-            nextCallTime: validation.suggestedTime,
-            metadata: {
-              attempts,
-              constraints,
-            },
-          };
-        }
-      }
+      return { slots, seed, generatedAt, constraints: availability.constraints };
+    } finally {
+      this.frozenNow = null;
+    }
+  }
+
+  /**
+   * Pick up to `count` calls on one local day, each at least the min gap after the previous one.
+   * Each call lands within the max gap of the previous call, or within the same spread of the
+   * day's first free minute when the previous call is too far back (e.g. overnight).
+   */
+  private planDay(
+    intervals: TimeInterval[],
+    dateKey: string,
+    count: number,
+    previous: number | null,
+    latest: number
+  ): number[] {
+    const dayStart = this.getUserInstant(dateKey, '00:00').getTime();
+    const dayEnd = Math.min(this.getUserInstant(addDaysToDateKey(dateKey, 1), '00:00').getTime(), latest);
+    const spread = (this.maxGapMinutes - this.minGapMinutes) * MINUTE_MS;
+    const times: number[] = [];
+
+    while (times.length < count) {
+      const lower = previous === null ? dayStart : Math.max(dayStart, previous + this.minGapMinutes * MINUTE_MS);
+      const free = clipIntervals(intervals, lower, dayEnd);
+      if (free.length === 0) break;
+
+      const gapEnd = previous === null ? 0 : previous + this.maxGapMinutes * MINUTE_MS;
+      const upper = Math.max(gapEnd, free[0]!.start + spread);
+      const picked = this.pickFromCandidates(clipIntervals(free, lower, upper), previous);
+      if (picked === null) break;
+
+      times.push(picked);
+      previous = picked;
+    }
+
+    return times;
+  }
+
+  private toPlannedCall(time: number): PlannedCall {
+    const date = new Date(time);
+    return { time: date.toISOString(), date: this.getUserLocalTime(date).dateKey };
+  }
+
+  /**
+   * Strategy 1: Uniform sampling over the exact free intervals
+   */
+  private async findTimeWithIntervalSampling(
+    blockedTimes: BlockedTime[],
+    scheduleHelper: ScheduleHelper
+  ): Promise<StrategyOutcome> {
+    const availability = this.buildAvailability(blockedTimes, scheduleHelper, this.minGapMinutes);
+    const intervals = this.focusOnCadence(availability, scheduleHelper);
+    const { nextCallTime, windows } = this.sampleAvailability(intervals, this.minGapMinutes, this.getLastCallInstant(scheduleHelper));
+    const trace: SchedulingTrace = {
+      strategies: [],
+      windows: windows.map(window => this.toTraceWindow(window)),
+      rejections: availability.rejections,
+      relaxations: [],
+    };
+
+    if (nextCallTime) {
+      return {
+        success: true,
+        nextCallTime,
+        freeIntervals: intervals,
+        metadata: {
+          attempts: 1,
+          constraints: availability.constraints,
+          trace,
+        },
+      };
     }
 
     return {
       success: false,
-      error: 'Max attempts reached with basic randomization',
+      error: `No free time in the next ${this.horizonDays} days`,
       metadata: {
-        attempts,
-        constraints,
+        attempts: 1,
+        constraints: availability.constraints,
+        trace,
       },
     };
   }
 
+  /**
+   * Narrow free time to the days the weekly target and max silence point to. The cadence is a
+   * goal rather than a rule, so all free time is kept when none of it falls on those days.
+   */
+  private focusOnCadence(availability: Availability, scheduleHelper: ScheduleHelper): TimeInterval[] {
+    const today = this.getUserLocalTime(this.now()).dateKey;
+    const cadence = this.getCadence(today, this.callsThisWeek, this.getLastCallDay(scheduleHelper));
+    if (!cadence) return availability.intervals;
+
+    const start = this.getUserInstant(cadence.start, '00:00').getTime();
+    const end = this.getUserInstant(cadence.end, '00:00').getTime();
+    const focused = clipIntervals(availability.intervals, start, end);
+    if (focused.length === 0) return availability.intervals;
+
+    const firstFree = availability.intervals[0]!.start;
+    if (start > firstFree) {
+      if (!availability.constraints.includes(cadence.reason)) availability.constraints.push(cadence.reason);
+      availability.rejections.push({ constraint: cadence.reason, ...this.toTraceWindow({ start: firstFree, end: start }) });
+    }
+
+    return focused;
+  }
+
   /**
    * Strategy 2: Pattern-based optimization using historical data
    */
   private async findTimeWithPatternOptimization(
     blockedTimes: BlockedTime[],
     scheduleHelper: ScheduleHelper
-  ): Promise<SchedulingResult> {
-    // This would integrate with call history to find optimal patterns
-    // For now, implement preferred time slots based on user preferences
-
+  ): Promise<StrategyOutcome> {
     const preferredSlots = this.getPreferredTimeSlots();
     const constraints: string[] = [];
+    const rejections: TraceRejection[] = [];
     let attempts = 0;
 
     for (const slot of preferredSlots) {
@@ -290,12 +727,19 @@ export class CallScheduler {
           metadata: {
             attempts,
             constraints,
+            trace: {
+              strategies: [],
+              windows: [this.toTraceWindow({ start: proposedTime.getTime(), end: proposedTime.getTime() + MINUTE_MS })],
+              rejections,
+              relaxations: [],
+            },
           },
         };
       }
 
-      if (validation.reason && !constraints.includes(validation.reason)) {
-        constraints.push(validation.reason);
+      if (validation.reason) {
+        rejections.push({ constraint: validation.reason, start: proposedTime.toISOString() });
+        if (!constraints.includes(validation.reason)) constraints.push(validation.reason);
       }
     }
 
@@ -305,92 +749,406 @@ export class CallScheduler {
       metadata: {
         attempts,
         constraints,
+        trace: { strategies: [], windows: [], rejections, relaxations: [] },
       },
     };
   }
 
   /**
-   * Strategy 3: Constraint relaxation for edge cases
+   * Strategy 3: Constraint relaxation for edge cases.
+   * Keeps the hard rules, lets soft ones bend at a cost and picks from the cheapest free time.
    */
   private async findTimeWithConstraintRelaxation(
     blockedTimes: BlockedTime[],
     scheduleHelper: ScheduleHelper
-  ): Promise<SchedulingResult> {
-    // Gradually relax constraints to find acceptable times
-    const relaxationStrategies = [
-      { minGap: this.minGapMinutes * 0.75, description: 'reduced_min_gap' },
-      { minGap: this.minGapMinutes * 0.5, description: 'minimal_gap' },
-      { ignoreLowPriorityBlocks: true, description: 'ignore_low_priority_blocks' },
-    ];
-
-    let totalAttempts = 0;
-    const allConstraints: string[] = [];
-
-    for (const strategy of relaxationStrategies) {
-      const filteredBlocks = strategy.ignoreLowPriorityBlocks
-        ? blockedTimes.filter(block => block.priority > 0)
-        : blockedTimes;
-
-      const tempMinGap = strategy.minGap || this.minGapMinutes;
-      let attempts = 0;
-
-      while (attempts < Math.floor(this.maxAttempts / relaxationStrategies.length)) {
-        attempts++;
-        totalAttempts++;
-
-        const randomMinutes = Math.floor(
-          Math.random() * (this.maxGapMinutes - tempMinGap) + tempMinGap
-        );
-        const proposedTime = new Date(Date.now() + randomMinutes * 60000);
-
-        // Create temporary scheduler with relaxed constraints
-        const relaxedScheduler = new CallScheduler(this.user, {
-          minGapMinutes: tempMinGap,
-        });
+  ): Promise<StrategyOutcome> {
+    const availability = this.buildAvailability(
+      blockedTimes,
+      scheduleHelper,
+      this.minGapMinutes,
+      undefined,
+      this.constraintModel
+    );
+    const cheapest = findLowestCostIntervals(availability.intervals, availability.penalties);
+    // The soft min gap is already in the penalties, so sampling starts from now
+    const { nextCallTime, windows } = this.sampleAvailability(cheapest, 0, this.getLastCallInstant(scheduleHelper));
+    const trace: SchedulingTrace = { strategies: [], windows: [], rejections: availability.rejections, relaxations: [] };
+
+    if (!nextCallTime) {
+      return {
+        success: false,
+        error: 'No valid time slots found with relaxed constraints',
+        metadata: { attempts: 1, constraints: availability.constraints, trace },
+      };
+    }
 
-        const validation = await relaxedScheduler.validateCallTime(
-          proposedTime,
-          filteredBlocks,
-          scheduleHelper
-        );
+    const { cost, bent } = getCallTimeCost(nextCallTime.getTime(), availability.penalties);
 
-        if (validation.isValid) {
-          logger.info('Found time with relaxed constraints', {
-            userId: this.user.id,
-            component: 'CallScheduler',
-            action: 'constraintRelaxation',
-            metadata: {
-              strategy: strategy.description,
-              originalMinGap: this.minGapMinutes,
-              relaxedMinGap: tempMinGap,
-              blocksIgnored: blockedTimes.length - filteredBlocks.length,
-            },
-          });
+    this.logger.info('Found time with relaxed constraints', {
+      userId: this.user.id,
+      component: 'CallScheduler',
+      action: 'constraintRelaxation',
+      metadata: { cost, relaxations: bent, minGap: this.minGapMinutes },
+    });
 
-          return {
-            success: true,
-            nextCallTime: proposedTime,
-            metadata: {
-              attempts: totalAttempts,
-              constraints: [...allConstraints, strategy.description],
-            },
-          };
+    return {
+      success: true,
+      nextCallTime,
+      freeIntervals: cheapest,
+      metadata: {
+        attempts: 1,
+        constraints: [...availability.constraints, ...bent],
+        trace: {
+          ...trace,
+          windows: windows.map(window => this.toTraceWindow(window)),
+          relaxations: bent,
+        },
+      },
+    };
+  }
+
+  /**
+   * Build the exact free intervals between now + min gap and the scheduling horizon
+   * (or `until`, when given). Applies the daily window, active days, min gap since the
+   * last call, the daily limit and every active block in O(days × blocks).
+   * With a constraint model, soft rules leave their time in and add penalties for it instead.
+   */
+  private buildAvailability(
+    blockedTimes: BlockedTime[],
+    scheduleHelper: ScheduleHelper,
+    minGapMinutes: number,
+    until?: number,
+    model?: ConstraintModel
+  ): Availability {
+    const constraints: string[] = [];
+    const rejections: TraceRejection[] = [];
+    const penalties: PenaltySpan[] = [];
+    const record = (reason: string, span: TimeInterval, label?: string) => {
+      if (!constraints.includes(reason)) constraints.push(reason);
+      rejections.push({ constraint: reason, ...this.toTraceWindow(span), ...(label && { label }) });
+    };
+
+    const now = this.now().getTime();
+    const horizonEnd = until ?? now + this.horizonDays * DAY_MS;
+    let earliest = now + minGapMinutes * MINUTE_MS;
+
+    // Minimum gap since the last call
+    if (scheduleHelper.last_call_time) {
+      const gapEnd = new Date(scheduleHelper.last_call_time).getTime() + minGapMinutes * MINUTE_MS;
+      if (gapEnd > earliest) {
+        record('min_gap_violation', { start: earliest, end: gapEnd });
+        earliest = gapEnd;
+      }
+    }
+
+    // A soft min gap lets a call come sooner, down to the rule's floor
+    if (model && !model.minGap.hard) {
+      const gapPenalties = getMinGapPenalties(earliest, minGapMinutes, model.minGap);
+      penalties.push(...gapPenalties);
+      earliest = Math.min(earliest, ...gapPenalties.map(penalty => penalty.start));
+    }
+
+    // A pause holds every call until it ends; an open-ended pause covers the whole horizon
+    const pause = getPauseState(this.user, new Date(now));
+    if (pause.isPaused) {
+      const pauseEnd = pause.until?.getTime() ?? horizonEnd;
+      if (pauseEnd > earliest) {
+        record('scheduling_paused', { start: earliest, end: Math.min(pauseEnd, horizonEnd) });
+        earliest = pauseEnd;
+      }
+    }
+
+    // Daily limit closes out the rest of today
+    const today = this.getUserLocalTime(new Date(now)).dateKey;
+    if (this.getCallsToday(scheduleHelper, new Date(now)) >= this.dailyLimit) {
+      const tomorrow = this.getUserInstant(addDaysToDateKey(today, 1), '00:00').getTime();
+      if (tomorrow > earliest && model && !model.dailyLimit.hard) {
+        penalties.push({ start: earliest, end: tomorrow, constraint: 'exceeded_daily_limit', weight: model.dailyLimit.weight });
+      } else if (tomorrow > earliest) {
+        record('daily_limit_reached', { start: earliest, end: tomorrow });
+        earliest = tomorrow;
+      }
+    }
+
+    if (earliest >= horizonEnd) {
+      return { intervals: [], constraints, rejections, penalties };
+    }
+
+    // Daily windows on active days
+    const firstDay = this.getUserLocalTime(new Date(earliest)).dateKey;
+    const lastDay = this.getUserLocalTime(new Date(horizonEnd)).dateKey;
+    const softActiveDays = !!model && !model.activeDays.hard;
+    const windows = this.getDailyWindows(firstDay, lastDay, (day, override) => {
+      if (softActiveDays && !override) return;
+      record(override ? 'date_override' : 'inactive_day', {
+        start: Math.max(earliest, this.getUserInstant(day, '00:00').getTime()),
+        end: Math.min(horizonEnd, this.getUserInstant(addDaysToDateKey(day, 1), '00:00').getTime()),
+      }, override?.label || undefined);
+    });
+
+    let intervals = clipIntervals(windows, earliest, horizonEnd);
+
+    // Soft windows and active days open up the time outside them at a cost
+    if (model) {
+      const windowPenalties = this.getWindowPenalties(firstDay, lastDay, model)
+        .map(penalty => ({ ...penalty, start: Math.max(penalty.start, earliest), end: Math.min(penalty.end, horizonEnd) }))
+        .filter(penalty => penalty.end > penalty.start);
+      penalties.push(...windowPenalties);
+      intervals = normalizeIntervals([...intervals, ...windowPenalties.map(({ start, end }) => ({ start, end }))]);
+    }
+
+    // The partner's waking window, in their own timezone
+    for (const offHours of this.getPartnerOffHours(earliest, horizonEnd)) {
+      const before = totalDuration(intervals);
+      intervals = subtractInterval(intervals, offHours);
+      if (totalDuration(intervals) < before) {
+        record('outside_partner_window', offHours);
+      }
+    }
+
+    // Blocks, including overnight occurrences that started the day before
+    for (const block of blockedTimes.filter(b => b.is_active)) {
+      for (let day = addDaysToDateKey(firstDay, -1); day <= lastDay; day = addDaysToDateKey(day, 1)) {
+        if (!blockAppliesOnDate(block, day)) continue;
+
+        const occurrence = this.getBlockOccurrence(block, day);
+        const rule = model && getBlockRule(model, block.priority);
+        if (rule && !rule.hard) {
+          penalties.push({ ...occurrence, constraint: 'ignore_low_priority_blocks', weight: rule.weight });
+          continue;
         }
 
-        if (validation.reason && !allConstraints.includes(validation.reason)) {
-          allConstraints.push(validation.reason);
+        const before = totalDuration(intervals);
+        intervals = subtractInterval(intervals, occurrence);
+        if (totalDuration(intervals) < before) {
+          record(
+            this.getBlockReason(block),
+            { start: Math.max(occurrence.start, earliest), end: Math.min(occurrence.end, horizonEnd) },
+            block.block_name
+          );
         }
       }
     }
 
-    return {
-      success: false,
-      error: 'All constraint relaxation strategies failed',
-      metadata: {
-        attempts: totalAttempts,
-        constraints: allConstraints,
-      },
-    };
+    return { intervals, constraints, rejections, penalties };
+  }
+
+  /**
+   * Time outside the user's windows that soft window and active-day rules open up, with its cost.
+   * An inactive day opens from the earliest to the latest of the user's usual hours;
+   * days with a date override keep it.
+   */
+  private getWindowPenalties(firstDay: string, lastDay: string, model: ConstraintModel): PenaltySpan[] {
+    const availability = getWeeklyAvailability(this.user);
+    const usualHours = summarizeWeeklyAvailability(availability);
+    const penalties: PenaltySpan[] = [];
+
+    for (let day = firstDay; day <= lastDay; day = addDaysToDateKey(day, 1)) {
+      if (this.dateOverrides.has(day)) continue;
+
+      const dayWindows = getWindowsForDate(availability, day);
+      if (dayWindows.length === 0) {
+        if (!model.activeDays.hard) {
+          penalties.push({
+            start: this.getUserInstant(day, usualHours.morning_start).getTime(),
+            end: this.getUserInstant(day, usualHours.evening_end).getTime() + MINUTE_MS,
+            constraint: 'used_inactive_day',
+            weight: model.activeDays.weight,
+          });
+        }
+        continue;
+      }
+
+      if (model.dailyWindow.hard) continue;
+
+      let outside: TimeInterval[] = [{
+        start: this.getUserInstant(day, '00:00').getTime(),
+        end: this.getUserInstant(addDaysToDateKey(day, 1), '00:00').getTime(),
+      }];
+      for (const window of dayWindows) {
+        outside = subtractInterval(outside, {
+          start: this.getUserInstant(day, window.start).getTime(),
+          end: this.getUserInstant(day, window.end).getTime() + MINUTE_MS,
+        });
+      }
+      penalties.push(...outside.map(span => ({
+        ...span,
+        constraint: 'extended_daily_window',
+        weight: model.dailyWindow.weight,
+      })));
+    }
+
+    return penalties;
+  }
+
+  /**
+   * The user's availability windows on local days from firstDay to lastDay (inclusive),
+   * with date overrides replacing the weekly template on their day.
+   * A window's end is its last allowed minute, so each interval ends one minute after it.
+   */
+  private getDailyWindows(
+    firstDay: string,
+    lastDay: string,
+    onClosedDay?: (day: string, override?: DateOverride) => void
+  ): TimeInterval[] {
+    const availability = getWeeklyAvailability(this.user);
+    const windows: TimeInterval[] = [];
+
+    for (let day = firstDay; day <= lastDay; day = addDaysToDateKey(day, 1)) {
+      const override = this.dateOverrides.get(day);
+      const dayWindows = getWindowsForDate(availability, day, override);
+      if (dayWindows.length === 0) {
+        onClosedDay?.(day, override);
+        continue;
+      }
+      for (const window of dayWindows) {
+        windows.push({
+          start: this.getUserInstant(day, window.start).getTime(),
+          end: this.getUserInstant(day, window.end).getTime() + MINUTE_MS,
+        });
+      }
+    }
+
+    return normalizeIntervals(windows);
+  }
+
+  private hasPartnerAvailability(): boolean {
+    return !!this.user.partner_timezone;
+  }
+
+  /**
+   * Spans between start and end when the partner is asleep or on an inactive day,
+   * evaluated in the partner's timezone. Empty when partner availability is not set.
+   */
+  private getPartnerOffHours(start: number, end: number): TimeInterval[] {
+    if (!this.hasPartnerAvailability() || start >= end) return [];
+
+    const timezone = this.user.partner_timezone!;
+    const activeDays = (this.user.partner_active_days || DEFAULT_ACTIVE_DAYS).split(',');
+    const morningStart = this.user.partner_morning_start || DEFAULT_WINDOW_START;
+    const eveningEnd = this.user.partner_evening_end || DEFAULT_WINDOW_END;
+
+    const firstDay = getZonedDateTime(new Date(start), timezone).dateKey;
+    const lastDay = getZonedDateTime(new Date(end), timezone).dateKey;
+    let offHours: TimeInterval[] = [{ start, end }];
+
+    for (let day = firstDay; day <= lastDay; day = addDaysToDateKey(day, 1)) {
+      if (!activeDays.includes(getWeekdayOfDateKey(day))) continue;
+      offHours = subtractInterval(offHours, {
+        start: zonedTimeToInstant(day, morningStart, timezone).getTime(),
+        end: zonedTimeToInstant(day, eveningEnd, timezone).getTime() + MINUTE_MS,
+      });
+    }
+
+    return offHours;
+  }
+
+  /**
+   * First instant at or after `time` inside both the user's and the partner's windows
+   */
+  private getNextJointWindowStart(time: Date): Date {
+    const start = time.getTime();
+    const end = start + (APP_CONFIG.WEEK_PLAN_DAYS + 1) * DAY_MS;
+    const today = this.getUserLocalTime(time).dateKey;
+
+    let windows = clipIntervals(this.getDailyWindows(today, addDaysToDateKey(today, APP_CONFIG.WEEK_PLAN_DAYS + 1)), start, end);
+    for (const offHours of this.getPartnerOffHours(start, end)) {
+      windows = subtractInterval(windows, offHours);
+    }
+
+    // Windows that never overlap fall back to a day later, where validation reports the conflict again
+    return windows[0] ? new Date(windows[0].start) : new Date(start + DAY_MS);
+  }
+
+  /**
+   * Pick a random minute from the free intervals, uniformly or weighted by learned preferences.
+   * Prefers the spontaneous gap range (min to max gap from now); if that is fully
+   * booked, falls back to the first local day that has any free time.
+   * Also returns the candidate windows the minute was picked from.
+   */
+  private sampleAvailability(
+    intervals: TimeInterval[],
+    minGapMinutes: number,
+    lastCall: number | null
+  ): { nextCallTime: Date | null; windows: TimeInterval[] } {
+    if (intervals.length === 0) return { nextCallTime: null, windows: [] };
+
+    const now = this.now().getTime();
+    let candidates = clipIntervals(
+      intervals,
+      now + minGapMinutes * MINUTE_MS,
+      now + this.maxGapMinutes * MINUTE_MS
+    );
+
+    if (candidates.length === 0) {
+      const firstStart = intervals[0]!.start;
+      const firstDay = this.getUserLocalTime(new Date(firstStart)).dateKey;
+      const dayEnd = this.getUserInstant(addDaysToDateKey(firstDay, 1), '00:00').getTime();
+      candidates = clipIntervals(intervals, firstStart, dayEnd);
+    }
+
+    const picked = this.pickFromCandidates(candidates, lastCall);
+    return { nextCallTime: picked === null ? null : new Date(picked), windows: candidates };
+  }
+
+  /**
+   * Pick a minute from candidate intervals, weighted by learned preferences when available
+   * and snapped to the spontaneity level's granularity when the candidates allow it
+   */
+  private pickFromCandidates(candidates: TimeInterval[], previous: number | null = null): number | null {
+    candidates = this.avoidRepeatedTime(candidates, previous);
+
+    if (this.hasLearnedPreferences()) {
+      candidates = this.pickPreferredHour(candidates);
+    }
+
+    const random = this.random();
+    return pickInstantInIntervals(candidates, random, this.spontaneity.snapMinutes * MINUTE_MS)
+      ?? pickInstantInIntervals(candidates, random);
+  }
+
+  /**
+   * Keep a call on the day after `previous` away from the time of day `previous` was at.
+   * Repeats are only avoided, so the candidates stay as they are when nothing else is free.
+   */
+  private avoidRepeatedTime(candidates: TimeInterval[], previous: number | null): TimeInterval[] {
+    const avoidMs = this.spontaneity.repeatAvoidMinutes * MINUTE_MS;
+    if (previous === null || avoidMs === 0) return candidates;
+
+    const local = this.getUserLocalTime(new Date(previous));
+    const repeat = this.getUserInstant(addDaysToDateKey(local.dateKey, 1), local.timeStr).getTime();
+    const remaining = subtractInterval(candidates, { start: repeat - avoidMs, end: repeat + avoidMs });
+
+    return remaining.length > 0 ? remaining : candidates;
+  }
+
+  private hasLearnedPreferences(): boolean {
+    return !!this.preferences && this.preferences.sampleSize > 0;
+  }
+
+  /**
+   * Split free time at local hour boundaries and pick one hour, weighted by its
+   * free minutes times the learned preference for that weekday and hour
+   */
+  private pickPreferredHour(intervals: TimeInterval[]): TimeInterval[] {
+    const pieces: TimeInterval[] = [];
+    const weights: number[] = [];
+
+    for (const interval of intervals) {
+      let start = interval.start;
+      while (start < interval.end) {
+        const local = this.getUserLocalTime(new Date(start));
+        const minuteStart = Math.floor(start / MINUTE_MS) * MINUTE_MS;
+        const end = Math.min(interval.end, minuteStart + (60 - local.minute) * MINUTE_MS);
+
+        pieces.push({ start, end });
+        weights.push((end - start) * getPreferenceWeight(this.preferences!, local.weekday, local.hour));
+        start = end;
+      }
+    }
+
+    const index = pickWeightedIndex(weights, this.random());
+    return index === null ? intervals : [pieces[index]!];
   }
 
   /**
@@ -403,24 +1161,57 @@ export class CallScheduler {
   ): Promise<CallValidationResult> {
     try {
       const localTime = this.getUserLocalTime(time);
+      const localMinutes = parseTimeOfDay(localTime.timeStr);
+      const override = this.dateOverrides.get(localTime.dateKey);
+      const dayWindows = getWindowsForDate(getWeeklyAvailability(this.user), localTime.dateKey, override);
 
-      // Check if within daily time window (using Local Time)
-      if (localTime.timeStr < this.user.morning_start || localTime.timeStr > this.user.evening_end) {
-        const suggestedTime = this.adjustToTimeWindow(time);
+      // Nothing is valid during a pause
+      const pause = getPauseState(this.user, time);
+      if (pause.isPaused) {
         return {
           isValid: false,
-          reason: 'outside_daily_window',
-          suggestedTime,
+          reason: 'scheduling_paused',
+          ...(pause.until && { suggestedTime: this.getNextWindowStart(pause.until) }),
+        };
+      }
+
+      // Date overrides take precedence over the weekly pattern and blocks
+      if (override && dayWindows.length === 0) {
+        return {
+          isValid: false,
+          reason: 'date_override',
+          suggestedTime: this.getNextWindowStart(time),
         };
       }
 
       // Check if day is active (using Local Time)
-      if (!this.user.active_days.includes(localTime.day)) {
-        const suggestedTime = this.getNextActiveDay(time);
+      if (dayWindows.length === 0) {
         return {
           isValid: false,
           reason: 'inactive_day',
-          suggestedTime,
+          suggestedTime: this.getNextWindowStart(time),
+        };
+      }
+
+      // Check if within one of the day's availability windows (using Local Time)
+      const inWindow = dayWindows.some(window =>
+        localMinutes >= parseTimeOfDay(window.start) && localMinutes <= parseTimeOfDay(window.end)
+      );
+      if (!inWindow) {
+        return {
+          isValid: false,
+          reason: 'outside_daily_window',
+          suggestedTime: this.getNextWindowStart(time),
+        };
+      }
+
+      // Check the partner's waking window and active days in their timezone
+      const minuteStart = Math.floor(time.getTime() / MINUTE_MS) * MINUTE_MS;
+      if (this.getPartnerOffHours(minuteStart, minuteStart + MINUTE_MS).length > 0) {
+        return {
+          isValid: false,
+          reason: 'outside_partner_window',
+          suggestedTime: this.getNextJointWindowStart(time),
         };
       }
 
@@ -441,20 +1232,44 @@ export class CallScheduler {
         }
       }
 
+      // Check the daily limit on the call's local day; the counter only knows its own day
+      const nextDay = this.getUserInstant(addDaysToDateKey(localTime.dateKey, 1), '00:00');
+      const callsThatDay = this.getCallsToday(scheduleHelper, time);
+      if (callsThatDay >= this.dailyLimit) {
+        return {
+          isValid: false,
+          reason: 'daily_limit_reached',
+          suggestedTime: this.getNextWindowStart(new Date(nextDay.getTime() - 1)),
+        };
+      }
+
+      // Check the weekly cadence: not before the days it points to, nor more calls a day than it allows
+      const today = this.getUserLocalTime(this.now()).dateKey;
+      const cadence = this.getCadence(today, this.callsThisWeek, this.getLastCallDay(scheduleHelper));
+      if (cadence && (localTime.dateKey < cadence.start
+        || (cadence.callsPerDay !== null && callsThatDay >= cadence.callsPerDay))) {
+        const from = localTime.dateKey < cadence.start ? this.getUserInstant(cadence.start, '00:00') : nextDay;
+        return {
+          isValid: false,
+          reason: cadence.reason,
+          suggestedTime: this.getNextWindowStart(new Date(from.getTime() - 1)),
+        };
+      }
+
       // Check against blocked times
       for (const block of blockedTimes.filter(b => b.is_active)) {
         if (await this.isTimeInBlockedPeriod(time, block)) {
-          const suggestedTime = await this.findNextAvailableTimeAfterBlock(time, block);
+          const suggestedTime = this.findNextAvailableTimeAfterBlock(time, block);
           return {
             isValid: false,
-            reason: `blocked_${block.block_name.toLowerCase().replace(/\s+/g, '_')}`,
+            reason: this.getBlockReason(block),
             suggestedTime,
           };
         }
       }
 
       // Check if time is too far in the past
-      const now = new Date();
+      const now = this.now();
       if (time <= now) {
         return {
           isValid: false,
@@ -465,7 +1280,7 @@ export class CallScheduler {
 
       return { isValid: true };
     } catch (error) {
-      logger.error('Error validating call time', {
+      this.logger.error('Error validating call time', {
         userId: this.user.id,
         component: 'CallScheduler',
         action: 'validateError',
@@ -483,64 +1298,99 @@ export class CallScheduler {
    * Check if time falls within a blocked period
    */
   private async isTimeInBlockedPeriod(time: Date, block: BlockedTime): Promise<boolean> {
-    const localTime = this.getUserLocalTime(time);
+    return this.getBlockStartDate(time, block) !== null;
+  }
 
-    // Check if day matches block schedule (using Local Time)
-    switch (block.repeat_type) {
-      case BlockRepeatType.DAILY:
-        break; // Always applies
-      case BlockRepeatType.WEEKDAYS:
-        if (['Sat', 'Sun'].includes(localTime.day)) return false;
-        break;
-      case BlockRepeatType.WEEKENDS:
-        if (!['Sat', 'Sun'].includes(localTime.day)) return false;
-        break;
-      case BlockRepeatType.CUSTOM:
-        if (!block.days_of_week?.includes(localTime.day)) return false;
-        break;
-      case BlockRepeatType.ONCE:
-        // For one-time blocks, we'd need to check specific dates
-        // This would require storing the actual date in the block
-        break;
+  /**
+   * Local date on which the occurrence of a block covering `time` started, or null if none does.
+   * Blocks with start_time > end_time wrap past midnight, so their early-morning part
+   * belongs to the occurrence that started the previous day.
+   */
+  private getBlockStartDate(time: Date, block: BlockedTime): string | null {
+    const localTime = this.getUserLocalTime(time);
+    const localMinutes = parseTimeOfDay(localTime.timeStr);
+    const start = parseTimeOfDay(block.start_time);
+    const end = parseTimeOfDay(block.end_time);
+
+    // The end is exclusive so the block's end_time is the first free minute
+    let startDate: string | null = null;
+    if (start < end) {
+      if (localMinutes >= start && localMinutes < end) startDate = localTime.dateKey;
+    } else if (localMinutes >= start) {
+      startDate = localTime.dateKey;
+    } else if (localMinutes < end) {
+      startDate = addDaysToDateKey(localTime.dateKey, -1);
     }
 
-    // Check if time is within blocked period (using Local Time)
-    return localTime.timeStr >= block.start_time && localTime.timeStr <= block.end_time;
+    return startDate && blockAppliesOnDate(block, startDate) ? startDate : null;
   }
 
   /**
-   * Get preferred time slots based on user patterns and optimal calling times
+   * Exact interval covered by a block's occurrence starting on a local date
    */
-  private getPreferredTimeSlots(): { hour: number; minute: number }[] {
-    const slots: { hour: number; minute: number }[] = [];
+  private getBlockOccurrence(block: BlockedTime, dateKey: string): TimeInterval {
+    const wrapsMidnight = parseTimeOfDay(block.start_time) > parseTimeOfDay(block.end_time);
 
-    // Parse user's preferred time window
-    const [startHour, startMinute] = this.user.morning_start.split(':').map(Number);
-    const [endHour, endMinute] = this.user.evening_end.split(':').map(Number);
+    return {
+      start: this.getUserInstant(dateKey, block.start_time).getTime(),
+      end: this.getUserInstant(wrapsMidnight ? addDaysToDateKey(dateKey, 1) : dateKey, block.end_time).getTime(),
+    };
+  }
 
-    // Generate optimal time slots (research-based optimal calling times)
-    const optimalHours = [10, 11, 14, 16, 19, 20]; // 10am, 11am, 2pm, 4pm, 7pm, 8pm
+  /**
+   * Constraint reason reported for a block
+   */
+  private getBlockReason(block: BlockedTime): string {
+    return `blocked_${block.block_name.toLowerCase().replace(/\s+/g, '_')}`;
+  }
 
-    for (const hour of optimalHours) {
-      if (hour >= startHour && hour <= endHour) {
-        // Add some randomness to minutes
-        const minute = Math.floor(Math.random() * 60);
-        slots.push({ hour, minute });
+  /**
+   * Get preferred time slots, ranked by learned call history once there is any
+   */
+  private getPreferredTimeSlots(): { hour: number; minute: number }[] {
+    const slots: { hour: number; minute: number }[] = [];
+
+    // Hours touched by any availability window on any weekday or override
+    const availability = getWeeklyAvailability(this.user);
+    const overrideWindows = [...this.dateOverrides.values()].map(override => override.windows);
+    const windowHours = new Set<number>();
+    for (const windows of [...Object.values(availability), ...overrideWindows]) {
+      for (const window of windows ?? []) {
+        const startHour = Math.floor(parseTimeOfDay(window.start) / 60);
+        const endHour = Math.floor(parseTimeOfDay(window.end) / 60);
+        for (let hour = startHour; hour <= endHour; hour++) windowHours.add(hour);
       }
     }
 
-    // Sort by preference (mid-day and early evening are typically best)
-    return slots.sort((a, b) => {
-      const aScore = this.getTimeSlotScore(a);
-      const bScore = this.getTimeSlotScore(b);
-      return bScore - aScore;
-    });
+    // Every hour in the windows is a candidate once history exists; until then
+    // fall back to research-based calling hours
+    const candidateHours = this.hasLearnedPreferences()
+      ? [...windowHours].sort((a, b) => a - b)
+      : DEFAULT_PREFERRED_HOURS.filter(hour => windowHours.has(hour));
+
+    // Random minutes on the spontaneity level's grid (snapMinutes divides 60)
+    const snap = this.spontaneity.snapMinutes;
+    for (const hour of candidateHours) {
+      const minute = Math.floor(this.random() * (60 / snap)) * snap;
+      slots.push({ hour, minute });
+    }
+
+    return slots
+      .map(slot => ({ slot, score: this.getTimeSlotScore(slot) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, PREFERRED_SLOT_COUNT)
+      .map(({ slot }) => slot);
   }
 
   /**
-   * Score time slots based on research and user preferences
+   * Score a time slot from learned preferences, or from calling research when there is no history
    */
   private getTimeSlotScore(slot: { hour: number; minute: number }): number {
+    if (this.hasLearnedPreferences()) {
+      const weekday = this.getUserLocalTime(this.getSlotBaseTime(slot)).weekday;
+      return getPreferenceScore(this.preferences!, weekday, slot.hour);
+    }
+
     let score = 0;
 
     // Prefer mid-day times (research shows higher answer rates)
@@ -549,8 +1399,8 @@ export class CallScheduler {
     // Prefer early evening (good for personal calls)
     if (slot.hour >= 19 && slot.hour <= 21) score += 4;
 
-    // Slight preference for hour/half-hour times
-    if (slot.minute === 0 || slot.minute === 30) score += 1;
+    // Hour/half-hour times, favoured or avoided by the spontaneity level
+    if (slot.minute % 30 === 0) score += this.spontaneity.roundTimeBonus;
 
     // Avoid very early morning or late night
     if (slot.hour < 9 || slot.hour > 22) score -= 2;
@@ -562,109 +1412,49 @@ export class CallScheduler {
    * Get next occurrence of a specific time slot
    */
   private getNextOccurrenceOfTimeSlot(slot: { hour: number; minute: number }): Date {
-    const now = new Date();
-    // Use UTC for base calculation, then adjust to user timezone
-    // This is a simplification; robust handling requires more complex date math
-    // For now, we'll generate a candidate and let validateCallTime check it
+    const proposedTime = this.getSlotBaseTime(slot);
 
-    const proposedTime = new Date(now);
-    proposedTime.setHours(slot.hour, slot.minute, 0, 0);
-
-    // If the time has passed today, schedule for tomorrow
-    if (proposedTime <= now) {
-      proposedTime.setDate(proposedTime.getDate() + 1);
-    }
-
-    // Add some randomness (±15 minutes) to avoid predictability
-    const randomOffset = (Math.random() - 0.5) * 30; // -15 to +15 minutes
-    proposedTime.setMinutes(proposedTime.getMinutes() + randomOffset);
-
-    return proposedTime;
+    // Jitter by up to the spontaneity level's minutes either way to avoid predictability
+    const randomOffset = Math.round((this.random() - 0.5) * 2 * this.spontaneity.jitterMinutes);
+    return new Date(proposedTime.getTime() + randomOffset * 60000);
   }
 
   /**
-   * Adjust time to fit within user's daily window
+   * Next instant the slot's wall-clock time occurs: today if still ahead, otherwise tomorrow
    */
-  private adjustToTimeWindow(time: Date): Date {
-    const adjusted = new Date(time);
-    const localTime = this.getUserLocalTime(time);
+  private getSlotBaseTime(slot: { hour: number; minute: number }): Date {
+    const now = this.now();
+    const today = this.getUserLocalTime(now).dateKey;
+    const slotTime = formatTimeOfDay(slot.hour * 60 + slot.minute);
 
-    if (localTime.timeStr < this.user.morning_start) {
-      // Set to morning start
-      const [hour, minute] = this.user.morning_start.split(':').map(Number);
-      // Note: This sets LOCAL hours, but Date.setHours uses Local system time
-      // We need to be careful here. For MVP, we assume system time ~ user time
-      // or rely on the loop to find a valid time.
-      // A proper fix requires a library like Luxon or date-fns-tz, but we are avoiding deps.
+    let proposedTime = this.getUserInstant(today, slotTime);
 
-      // Approximate fix: Set UTC hours based on timezone offset
-      // This is complex without a library. 
-      // Strategy: Keep adding 15 mins until valid.
-      adjusted.setMinutes(adjusted.getMinutes() + 15);
-    } else if (localTime.timeStr > this.user.evening_end) {
-      // Move to next day's morning
-      adjusted.setDate(adjusted.getDate() + 1);
-      const [hour, minute] = this.user.morning_start.split(':').map(Number);
-      adjusted.setHours(hour, minute, 0, 0);
+    // If the time has passed today, schedule for tomorrow
+    if (proposedTime <= now) {
+      proposedTime = this.getUserInstant(addDaysToDateKey(today, 1), slotTime);
     }
 
-    return adjusted;
+    return proposedTime;
   }
 
   /**
-   * Get next active day if current day is inactive
+   * Start of the next availability window after `time`, looking up to a week ahead
    */
-  private getNextActiveDay(time: Date): Date {
-    const adjusted = new Date(time);
-    const activeDays = this.user.active_days.split(',');
-
-    // Limit lookahead to 7 days
-    for (let i = 1; i <= 7; i++) {
-      adjusted.setDate(adjusted.getDate() + 1);
-      const localTime = this.getUserLocalTime(adjusted);
-
-      if (activeDays.includes(localTime.day)) {
-        // Found an active day
-        return adjusted;
-      }
-    }
+  private getNextWindowStart(time: Date): Date {
+    const today = this.getUserLocalTime(time).dateKey;
+    const next = this.getDailyWindows(today, addDaysToDateKey(today, 7))
+      .find(window => window.start > time.getTime());
 
     // Fallback
-    return new Date(time.getTime() + 24 * 60 * 60 * 1000);
+    return next ? new Date(next.start) : new Date(time.getTime() + 24 * 60 * 60 * 1000);
   }
 
   /**
    * Find next available time after a blocked period
    */
-  private async findNextAvailableTimeAfterBlock(
-    time: Date,
-    block: BlockedTime
-  ): Promise<Date> {
-    const blockEnd = new Date(time);
-    // We need to parse block.end_time (HH:mm) and apply it to the current date
-    // respecting the user's timezone.
-
-    // Simplified approach: Add 30 mins and let validation loop handle it
-    blockEnd.setMinutes(blockEnd.getMinutes() + 30);
-
-    return blockEnd;
-  }
-
-  /**
-   * Get first call time for the next day
-   */
-  private async getNextDayFirstCall(): Promise<Date> {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // Set to a reasonable morning time (e.g., 10 AM)
-    tomorrow.setHours(10, 0, 0, 0);
-
-    // Add some randomness
-    const randomMinutes = Math.floor(Math.random() * 60);
-    tomorrow.setMinutes(tomorrow.getMinutes() + randomMinutes);
-
-    return tomorrow;
+  private findNextAvailableTimeAfterBlock(time: Date, block: BlockedTime): Date {
+    const startDate = this.getBlockStartDate(time, block) ?? this.getUserLocalTime(time).dateKey;
+    return new Date(this.getBlockOccurrence(block, startDate).end);
   }
 }
 
@@ -682,8 +1472,7 @@ export const ScheduleUtils = {
   /**
    * Calculate time until next call
    */
-  getTimeUntilCall(nextCallTime: Date): string {
-    const now = new Date();
+  getTimeUntilCall(nextCallTime: Date, now: Date = new Date()): string {
     const diff = nextCallTime.getTime() - now.getTime();
 
     if (diff <= 0) return 'Time to call!';
@@ -708,10 +1497,10 @@ export const ScheduleUtils = {
   },
 
   /**
-   * Get friendly time description
+   * Get friendly time description: a rough window such as "later this evening" or
+   * "tomorrow morning" that never gives away the exact time
    */
-  getFriendlyTimeDescription(nextCallTime: Date): string {
-    const now = new Date();
+  getFriendlyTimeDescription(nextCallTime: Date, timezone: string, now: Date = new Date()): string {
     const diff = nextCallTime.getTime() - now.getTime();
     const hours = diff / (1000 * 60 * 60);
 
@@ -719,12 +1508,67 @@ export const ScheduleUtils = {
       return 'very soon';
     } else if (hours < 3) {
       return 'in a bit';
-    } else if (hours < 6) {
-      return 'later today';
-    } else if (hours < 24) {
-      return 'this evening';
+    }
+
+    const today = getZonedDateTime(now, timezone).dateKey;
+    const callDay = getZonedDateTime(nextCallTime, timezone).dateKey;
+    const partOfDay = getPartOfDay(nextCallTime, timezone);
+
+    if (callDay === today) {
+      return partOfDay === 'night' ? 'later tonight' : `later this ${partOfDay}`;
+    } else if (callDay === addDaysToDateKey(today, 1)) {
+      return `tomorrow ${partOfDay}`;
     } else {
-      return 'tomorrow';
+      const weekday = nextCallTime.toLocaleDateString('en-US', { weekday: 'long', timeZone: timezone });
+      return `${weekday} ${partOfDay}`;
+    }
+  },
+
+  /**
+   * Describe a scheduling constraint or relaxation reason for display
+   */
+  describeConstraint(constraint: string, label?: string): string {
+    if (constraint.startsWith('blocked_')) {
+      return `Blocked: ${label || constraint.slice('blocked_'.length).replace(/_/g, ' ')}`;
     }
+
+    if (constraint === 'date_override' && label) {
+      return `Day off: ${label}`;
+    }
+
+    const descriptions: Record<string, string> = {
+      min_gap_violation: 'Too soon after your last call',
+      daily_limit_reached: 'Daily call limit reached',
+      inactive_day: 'Not one of your active days',
+      date_override: 'A date you marked as unavailable',
+      scheduling_paused: 'Scheduling is paused',
+      weekly_target: 'Spacing calls out across your weekly target',
+      max_silence: 'Keeping the days between calls within your limit',
+      outside_partner_window: "Outside your partner's waking hours",
+      outside_daily_window: 'Outside your calling hours',
+      past_time: 'Already in the past',
+      reduced_min_gap: 'Allowed calls a little closer together',
+      minimal_gap: 'Allowed calls much closer together',
+      ignore_low_priority_blocks: 'Ignored low-priority blocks',
+      extended_daily_window: 'Called outside your usual hours',
+      used_inactive_day: 'Called on a day you usually keep free',
+      exceeded_daily_limit: 'Allowed one more call than your daily limit',
+    };
+
+    return descriptions[constraint] || constraint.replace(/_/g, ' ');
+  },
+
+  /**
+   * Describe the strategy that picked a call time
+   */
+  describeStrategy(strategy: SchedulingStrategy): string {
+    const descriptions: Record<SchedulingStrategy, string> = {
+      interval_sampling: 'Picked at random from your free time',
+      pattern_optimization: 'Picked from your best calling hours',
+      constraint_relaxation: 'Picked after loosening some rules',
+      week_plan: 'Taken from your week plan',
+    };
+
+    return descriptions[strategy];
   },
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SNOOZES_PER_CALL, getSnoozeEntry, getSnoozeState } from './snooze';
+import { CallStatus } from '@/types';
+
+describe('snooze policy', () => {
+    it('should count down the snoozes left for a call', () => {
+        expect(getSnoozeState(null)).toEqual({ count: 0, remaining: MAX_SNOOZES_PER_CALL, canSnooze: true });
+        expect(getSnoozeState({ snooze_count: 1 }).remaining).toBe(MAX_SNOOZES_PER_CALL - 1);
+        expect(getSnoozeState({ snooze_count: MAX_SNOOZES_PER_CALL })).toEqual({
+            count: MAX_SNOOZES_PER_CALL,
+            remaining: 0,
+            canSnooze: false,
+        });
+    });
+
+    it('should log a snooze as a later entry with its delay', () => {
+        const now = new Date('2023-10-24T18:02:00Z');
+        const entry = getSnoozeEntry('user-1', new Date('2023-10-24T18:00:00Z'), new Date('2023-10-24T18:17:00Z'), 2, now);
+
+        expect(entry).toEqual({
+            user_id: 'user-1',
+            scheduled_time: '2023-10-24T18:00:00.000Z',
+            actual_time: '2023-10-24T18:02:00.000Z',
+            status: CallStatus.LATER,
+            metadata: { delay_minutes: 15, snoozed_to: '2023-10-24T18:17:00.000Z', snooze_number: 2 },
+        });
+    });
+});
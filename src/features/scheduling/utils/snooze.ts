@@ -0,0 +1,50 @@
+/**
+ * Snooze Policy
+ * A due call can be pushed back by one of a few durations, a limited number of times.
+ * Once its snoozes are used up the call has to be taken, skipped or moved to another day.
+ */
+
+import { CallHistory, CallStatus, ScheduleHelper } from '@/types';
+
+export const SNOOZE_DURATIONS_MINUTES = [5, 15, 30, 60];
+
+export const MAX_SNOOZES_PER_CALL = 3;
+
+export interface SnoozeState {
+  /** Times the pending call has been snoozed */
+  count: number;
+  remaining: number;
+  canSnooze: boolean;
+}
+
+/**
+ * How many snoozes the pending call has left
+ */
+export function getSnoozeState(scheduleHelper: Pick<ScheduleHelper, 'snooze_count'> | null): SnoozeState {
+  const count = scheduleHelper?.snooze_count ?? 0;
+  const remaining = Math.max(0, MAX_SNOOZES_PER_CALL - count);
+  return { count, remaining, canSnooze: remaining > 0 };
+}
+
+/**
+ * `later` history entry for pushing the call due at `scheduledTime` back to `snoozedTo`
+ */
+export function getSnoozeEntry(
+  userId: string,
+  scheduledTime: Date,
+  snoozedTo: Date,
+  snoozeNumber: number,
+  now: Date = new Date()
+): Omit<CallHistory, 'id' | 'created_at'> {
+  return {
+    user_id: userId,
+    scheduled_time: scheduledTime.toISOString(),
+    actual_time: now.toISOString(),
+    status: CallStatus.LATER,
+    metadata: {
+      delay_minutes: Math.round((snoozedTo.getTime() - now.getTime()) / (60 * 1000)),
+      snoozed_to: snoozedTo.toISOString(),
+      snooze_number: snoozeNumber
+    }
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Spontaneity Levels
+ * How much randomness goes into call times, from "predictable" to "wild"
+ */
+
+import { SpontaneityLevel, User } from '@/types';
+
+export interface SpontaneityProfile {
+  /** Share of the configured min-to-max gap spread the next call is drawn from */
+  gapScale: number;
+  /** Pattern-based slots move up to this many minutes either way */
+  jitterMinutes: number;
+  /** Picked times land on multiples of this many minutes past the hour */
+  snapMinutes: number;
+  /** Score bonus for :00/:30 slots when ranking research-based hours; negative avoids them */
+  roundTimeBonus: number;
+  /** A call on the day after another stays at least this many minutes from its time of day */
+  repeatAvoidMinutes: number;
+}
+
+export const SPONTANEITY_PROFILES: Record<SpontaneityLevel, SpontaneityProfile> = {
+  predictable: { gapScale: 0.25, jitterMinutes: 0, snapMinutes: 30, roundTimeBonus: 2, repeatAvoidMinutes: 0 },
+  balanced: { gapScale: 1, jitterMinutes: 15, snapMinutes: 1, roundTimeBonus: 1, repeatAvoidMinutes: 60 },
+  spontaneous: { gapScale: 1.5, jitterMinutes: 30, snapMinutes: 1, roundTimeBonus: 0, repeatAvoidMinutes: 90 },
+  wild: { gapScale: 2.5, jitterMinutes: 60, snapMinutes: 1, roundTimeBonus: -1, repeatAvoidMinutes: 120 },
+};
+
+export const SPONTANEITY_OPTIONS: { level: SpontaneityLevel; label: string; description: string }[] = [
+  { level: SpontaneityLevel.PREDICTABLE, label: 'Predictable', description: 'Regular gaps at round times like 7:00 or 7:30' },
+  { level: SpontaneityLevel.BALANCED, label: 'Balanced', description: 'Some surprise, never the same hour two days running' },
+  { level: SpontaneityLevel.SPONTANEOUS, label: 'Spontaneous', description: 'Wider gaps and odd minutes' },
+  { level: SpontaneityLevel.WILD, label: 'Wild', description: 'Anything goes within your windows' },
+];
+
+/**
+ * The user's spontaneity profile, balanced when they haven't chosen one
+ */
+export function getSpontaneityProfile(user: Pick<User, 'spontaneity_level'>): SpontaneityProfile {
+  return SPONTANEITY_PROFILES[user.spontaneity_level ?? SpontaneityLevel.BALANCED];
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { SURPRISE_REVEAL_MINUTES, getCallTimeDisplay, isCallTimeRevealed } from './surprise';
+
+describe('surprise mode', () => {
+    // Tuesday 09:00 in New York
+    const now = new Date('2023-10-24T13:00:00Z');
+    const user = { surprise_mode: true, timezone: 'America/New_York' };
+
+    it('should always reveal the time outside surprise mode', () => {
+        const callTime = new Date('2023-10-24T22:15:00Z');
+
+        expect(isCallTimeRevealed({ surprise_mode: false }, callTime, now)).toBe(true);
+        expect(getCallTimeDisplay({ ...user, surprise_mode: false }, callTime, now)).toEqual({ isRevealed: true, label: '9h 15m' });
+    });
+
+    it('should only describe a rough window before the reveal', () => {
+        expect(getCallTimeDisplay(user, new Date('2023-10-24T22:15:00Z'), now)).toEqual({ isRevealed: false, label: 'later this evening' });
+        expect(getCallTimeDisplay(user, new Date('2023-10-25T13:40:00Z'), now).label).toBe('tomorrow morning');
+        expect(getCallTimeDisplay(user, new Date('2023-10-27T02:00:00Z'), now).label).toBe('Thursday night');
+        expect(getCallTimeDisplay(user, new Date('2023-10-24T13:40:00Z'), now).label).toBe('very soon');
+    });
+
+    it('should reveal the exact time shortly before the call', () => {
+        const callTime = new Date(now.getTime() + SURPRISE_REVEAL_MINUTES * 60 * 1000);
+
+        expect(isCallTimeRevealed(user, new Date(callTime.getTime() + 60 * 1000), now)).toBe(false);
+        expect(getCallTimeDisplay(user, callTime, now)).toEqual({ isRevealed: true, label: `${SURPRISE_REVEAL_MINUTES}m` });
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * Surprise Mode
+ * Shows only a rough window for the next call until shortly before it, then reveals the exact time.
+ */
+
+import { User } from '@/types';
+import { ScheduleUtils } from './scheduler';
+
+/** How long before the call its exact time is revealed */
+export const SURPRISE_REVEAL_MINUTES = 15;
+
+export interface CallTimeDisplay {
+  /** Whether the exact time may be shown */
+  isRevealed: boolean;
+  /** Countdown once revealed, otherwise a rough window like "tomorrow morning" */
+  label: string;
+}
+
+/**
+ * Whether the exact time of a call can be shown at `now`; always true outside surprise mode
+ */
+export function isCallTimeRevealed(
+  user: Pick<User, 'surprise_mode'>,
+  nextCallTime: Date,
+  now: Date = new Date()
+): boolean {
+  return !user.surprise_mode || nextCallTime.getTime() - now.getTime() <= SURPRISE_REVEAL_MINUTES * 60 * 1000;
+}
+
+/**
+ * What to show for the next call at `now`
+ */
+export function getCallTimeDisplay(
+  user: Pick<User, 'surprise_mode' | 'timezone'>,
+  nextCallTime: Date,
+  now: Date = new Date()
+): CallTimeDisplay {
+  if (isCallTimeRevealed(user, nextCallTime, now)) {
+    return { isRevealed: true, label: ScheduleUtils.getTimeUntilCall(nextCallTime, now) };
+  }
+
+  return { isRevealed: false, label: ScheduleUtils.getFriendlyTimeDescription(nextCallTime, user.timezone, now) };
+}
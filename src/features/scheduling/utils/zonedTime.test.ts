@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getZonedDateTime,
+    zonedTimeToInstant,
+    addDaysToDateKey,
+    getWeekdayOfDateKey,
+    getTimeZoneOffsetMinutes,
+} from './zonedTime';
+
+describe('zonedTime', () => {
+    it('should read wall-clock components in the target timezone', () => {
+        // 15:00 UTC is 00:00 the next day in Tokyo
+        const local = getZonedDateTime(new Date('2023-10-25T15:00:00Z'), 'Asia/Tokyo');
+        expect(local.dateKey).toBe('2023-10-26');
+        expect(local.timeStr).toBe('00:00');
+        expect(local.weekday).toBe('Thu');
+    });
+
+    it('should convert local wall time to an exact instant', () => {
+        expect(zonedTimeToInstant('2023-10-25', '09:00', 'Asia/Tokyo').toISOString())
+            .toBe('2023-10-25T00:00:00.000Z');
+        expect(zonedTimeToInstant('2023-07-01', '09:00', 'America/New_York').toISOString())
+            .toBe('2023-07-01T13:00:00.000Z');
+        expect(zonedTimeToInstant('2023-01-01', '09:00', 'America/New_York').toISOString())
+            .toBe('2023-01-01T14:00:00.000Z');
+    });
+
+    it('should move times in a DST gap forward by the gap length', () => {
+        // 2023-03-12 02:30 does not exist in New York (clocks jump 02:00 -> 03:00)
+        const instant = zonedTimeToInstant('2023-03-12', '02:30', 'America/New_York');
+        expect(instant.toISOString()).toBe('2023-03-12T07:30:00.000Z');
+        expect(getZonedDateTime(instant, 'America/New_York').timeStr).toBe('03:30');
+    });
+
+    it('should pick the earlier instant for times in a DST overlap', () => {
+        // 2023-11-05 01:30 happens twice in New York (EDT then EST)
+        const instant = zonedTimeToInstant('2023-11-05', '01:30', 'America/New_York');
+        expect(instant.toISOString()).toBe('2023-11-05T05:30:00.000Z');
+        expect(getTimeZoneOffsetMinutes(instant, 'America/New_York')).toBe(-240);
+    });
+
+    it('should do calendar arithmetic on date keys', () => {
+        expect(addDaysToDateKey('2023-12-31', 1)).toBe('2024-01-01');
+        expect(addDaysToDateKey('2024-03-01', -1)).toBe('2024-02-29');
+        expect(getWeekdayOfDateKey('2023-10-25')).toBe('Wed');
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * Zoned Wall-Clock Utilities
+ * Converts between exact instants and wall-clock times in an IANA timezone using Intl only
+ */
+
+/**
+ * Wall-clock components of an instant as seen in a specific timezone
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** Short English weekday, matching the `active_days` format (e.g. "Mon") */
+  weekday: string;
+  /** Local calendar date as `YYYY-MM-DD` */
+  dateKey: string;
+  /** Local time as zero-padded `HH:mm` */
+  timeStr: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Get wall-clock components of an instant in the given timezone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(p => p.type === type)?.value || '0');
+
+  const year = get('year');
+  const month = get('month');
+  const day = get('day');
+  // Some engines still report midnight as "24" even with h23
+  const hour = get('hour') % 24;
+  const minute = get('minute');
+  const second = get('second');
+  const weekday = parts.find(p => p.type === 'weekday')?.value || '';
+
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    weekday,
+    dateKey: `${year}-${pad(month)}-${pad(day)}`,
+    timeStr: `${pad(hour)}:${pad(minute)}`,
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in minutes (east positive)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const local = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  const truncated = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / MINUTE_MS);
+}
+
+/**
+ * Parse "HH:mm" (or "HH:mm:ss" as returned by Postgres TIME columns) into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return (hour || 0) * 60 + (minute || 0);
+}
+
+/**
+ * Format minutes since midnight as "HH:mm"
+ */
+export function formatTimeOfDay(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Shift a `YYYY-MM-DD` calendar date by a number of days
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year!, month! - 1, day! + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+/**
+ * Short English weekday ("Mon") of a `YYYY-MM-DD` calendar date
+ */
+export function getWeekdayOfDateKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return WEEKDAYS[new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay()]!;
+}
+
+/**
+ * Start of the local day after the one `date` falls on
+ */
+export function getNextLocalMidnight(date: Date, timeZone: string): Date {
+  const tomorrow = addDaysToDateKey(getZonedDateTime(date, timeZone).dateKey, 1);
+  return zonedTimeToInstant(tomorrow, '00:00', timeZone);
+}
+
+/**
+ * Part of the local day an instant falls in: "morning", "afternoon", "evening" or "night"
+ */
+export function getPartOfDay(date: Date, timeZone: string): string {
+  const { hour } = getZonedDateTime(date, timeZone);
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+/**
+ * Convert "HH:mm on local day `dateKey` in `timeZone`" to an exact instant.
+ *
+ * Nonexistent times inside a DST gap resolve forward by the length of the gap
+ * (02:30 on a spring-forward night becomes 03:30). Ambiguous times inside a DST
+ * overlap resolve to the earlier of the two instants.
+ */
+export function zonedTimeToInstant(dateKey: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const minutes = parseTimeOfDay(time);
+  const wallAsUtc = Date.UTC(year!, month! - 1, day!, 0, minutes);
+
+  // At most one transition happens around a given day, so the offsets a day
+  // either side cover every offset that can apply to this wall time
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(wallAsUtc - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(new Date(wallAsUtc + DAY_MS), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => wallAsUtc - offset * MINUTE_MS)
+    .filter(instant => {
+      const local = getZonedDateTime(new Date(instant), timeZone);
+      return local.dateKey === dateKey && parseTimeOfDay(local.timeStr) === minutes;
+    })
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    return new Date(candidates[0]!);
+  }
+
+  // Wall time falls in a DST gap: keep the pre-transition offset, which lands
+  // the same distance past the gap as the requested time was into it
+  return new Date(wallAsUtc - offsetBefore * MINUTE_MS);
+}
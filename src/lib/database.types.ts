@@ -17,12 +17,25 @@ export interface Database {
                     partner_name: string
                     partner_phone: string | null
                     daily_call_limit: number
+                    weekly_call_target: number | null
+                    max_silence_days: number | null
+                    spontaneity_level: 'predictable' | 'balanced' | 'spontaneous' | 'wild'
+                    surprise_mode: boolean
+                    missed_call_grace_minutes: number
+                    missed_call_follow_up: 'regenerate' | 'nudge' | 'tomorrow'
                     active_days: string
                     morning_start: string
                     evening_end: string
+                    weekly_availability: Json | null
                     preferred_platforms: string
                     timezone: string
+                    partner_timezone: string | null
+                    partner_morning_start: string
+                    partner_evening_end: string
+                    partner_active_days: string
                     is_active: boolean
+                    paused_at: string | null
+                    paused_until: string | null
                     created_at: string
                     updated_at: string
                     version: number
@@ -34,12 +47,25 @@ export interface Database {
                     partner_name: string
                     partner_phone?: string | null
                     daily_call_limit?: number
+                    weekly_call_target?: number | null
+                    max_silence_days?: number | null
+                    spontaneity_level?: 'predictable' | 'balanced' | 'spontaneous' | 'wild'
+                    surprise_mode?: boolean
+                    missed_call_grace_minutes?: number
+                    missed_call_follow_up?: 'regenerate' | 'nudge' | 'tomorrow'
                     active_days?: string
                     morning_start?: string
                     evening_end?: string
+                    weekly_availability?: Json | null
                     preferred_platforms?: string
                     timezone?: string
+                    partner_timezone?: string | null
+                    partner_morning_start?: string
+                    partner_evening_end?: string
+                    partner_active_days?: string
                     is_active?: boolean
+                    paused_at?: string | null
+                    paused_until?: string | null
                     created_at?: string
                     updated_at?: string
                     version?: number
@@ -51,10 +77,23 @@ export interface Database {
                     partner_name?: string
                     partner_phone?: string | null
                     daily_call_limit?: number
+                    weekly_call_target?: number | null
+                    max_silence_days?: number | null
+                    spontaneity_level?: 'predictable' | 'balanced' | 'spontaneous' | 'wild'
+                    surprise_mode?: boolean
+                    missed_call_grace_minutes?: number
+                    missed_call_follow_up?: 'regenerate' | 'nudge' | 'tomorrow'
                     active_days?: string
                     morning_start?: string
                     evening_end?: string
+                    weekly_availability?: Json | null
                     preferred_platforms?: string
+                    partner_timezone?: string | null
+                    partner_morning_start?: string
+                    partner_evening_end?: string
+                    partner_active_days?: string
+                    paused_at?: string | null
+                    paused_until?: string | null
                     status: 'suggested' | 'called' | 'skipped' | 'later' | 'failed'
                     success_rating: number | null
                     notes: string | null
@@ -95,6 +134,8 @@ export interface Database {
                     end_time: string
                     repeat_type: 'daily' | 'weekdays' | 'weekends' | 'custom' | 'once'
                     days_of_week: string | null
+                    start_date: string | null
+                    end_date: string | null
                     is_active: boolean
                     priority: number
                     created_at: string
@@ -107,6 +148,8 @@ export interface Database {
                     end_time: string
                     repeat_type: 'daily' | 'weekdays' | 'weekends' | 'custom' | 'once'
                     days_of_week?: string | null
+                    start_date?: string | null
+                    end_date?: string | null
                     is_active?: boolean
                     priority?: number
                     created_at?: string
@@ -119,11 +162,45 @@ export interface Database {
                     end_time?: string
                     repeat_type?: 'daily' | 'weekdays' | 'weekends' | 'custom' | 'once'
                     days_of_week?: string | null
+                    start_date?: string | null
+                    end_date?: string | null
                     is_active?: boolean
                     priority?: number
                     created_at?: string
                 }
             },
+            date_overrides: {
+                Row: {
+                    id: string
+                    user_id: string
+                    date: string
+                    override_type: 'unavailable' | 'available'
+                    windows: Json | null
+                    label: string | null
+                    holiday_country: string | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    date: string
+                    override_type: 'unavailable' | 'available'
+                    windows?: Json | null
+                    label?: string | null
+                    holiday_country?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    user_id?: string
+                    date?: string
+                    override_type?: 'unavailable' | 'available'
+                    windows?: Json | null
+                    label?: string | null
+                    holiday_country?: string | null
+                    created_at?: string
+                }
+            },
             schedule_helper: {
                 Row: {
                     id: string
@@ -135,6 +212,8 @@ export interface Database {
                     last_generated: string
                     updated_at: string
                     lock_version: number
+                    week_plan: Json | null
+                    snooze_count: number
                 }
                 Insert: {
                     id?: string
@@ -146,6 +225,8 @@ export interface Database {
                     last_generated?: string
                     updated_at?: string
                     lock_version?: number
+                    week_plan?: Json | null
+                    snooze_count?: number
                 }
                 Update: {
                     id?: string
@@ -157,6 +238,8 @@ export interface Database {
                     last_generated?: string
                     updated_at?: string
                     lock_version?: number
+                    week_plan?: Json | null
+                    snooze_count?: number
                 }
             },
             push_subscriptions: {
@@ -102,6 +102,23 @@ class NotificationManager {
         }
     }
 
+    public async showLocalNotification(title: string, body: string): Promise<void> {
+        if (!('Notification' in window) || Notification.permission !== 'granted') return;
+        if (!('serviceWorker' in navigator)) return;
+
+        try {
+            const registration = await navigator.serviceWorker.ready;
+            await registration.showNotification(title, {
+                body,
+                icon: '/pwa-192x192.png',
+                badge: '/pwa-192x192.png',
+                data: { url: '/' },
+            });
+        } catch (error) {
+            logger.error('Failed to show notification', { metadata: { error } });
+        }
+    }
+
     private urlBase64ToUint8Array(base64String: string): Uint8Array {
         const padding = '='.repeat((4 - base64String.length % 4) % 4);
         const base64 = (base64String + padding)
@@ -8,6 +8,9 @@ import {
   User,
   CallHistory,
   BlockedTime,
+  BlockRepeatType,
+  DateOverride,
+  DateOverrideType,
   ScheduleHelper,
   ApiResponse,
   ApiError,
@@ -315,10 +318,11 @@ export class DatabaseService {
 
   @withPerformanceLogging
   @withErrorLogging
-  userId: string,
-  updates: Partial<User>,
-  expectedVersion?: number
-): Promise<User> {
+  public async updateUserProfile(
+    userId: string,
+    updates: Partial<User>,
+    expectedVersion?: number
+  ): Promise<User> {
     return this.withRetry(async () => {
       let query = this.client
         .from('users')
@@ -448,41 +452,109 @@ export class DatabaseService {
   // BLOCKED TIMES OPERATIONS
   // ====================
 
+  /**
+   * Validate a blocked time before it is written.
+   * A start_time later than end_time is an overnight block that wraps past midnight.
+   */
+  private validateBlockedTime(blockedTime: Partial<BlockedTime>): void {
+    const timePattern = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+    if (blockedTime.start_time !== undefined && !timePattern.test(blockedTime.start_time)) {
+      throw new ValidationError('Start time must be in HH:mm format', 'start_time');
+    }
+
+    if (blockedTime.end_time !== undefined && !timePattern.test(blockedTime.end_time)) {
+      throw new ValidationError('End time must be in HH:mm format', 'end_time');
+    }
+
+    if (
+      blockedTime.start_time !== undefined &&
+      blockedTime.end_time !== undefined &&
+      blockedTime.start_time.slice(0, 5) === blockedTime.end_time.slice(0, 5)
+    ) {
+      throw new ValidationError('Blocked time must not start and end at the same time', 'end_time');
+    }
+
+    if (
+      blockedTime.repeat_type === BlockRepeatType.CUSTOM &&
+      !blockedTime.days_of_week?.split(',').some(day => day.trim())
+    ) {
+      throw new ValidationError('Custom blocks require at least one day of the week', 'days_of_week');
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (blockedTime.start_date && !datePattern.test(blockedTime.start_date)) {
+      throw new ValidationError('Start date must be in YYYY-MM-DD format', 'start_date');
+    }
+
+    if (blockedTime.end_date && !datePattern.test(blockedTime.end_date)) {
+      throw new ValidationError('End date must be in YYYY-MM-DD format', 'end_date');
+    }
+
+    if (blockedTime.repeat_type === BlockRepeatType.ONCE && !blockedTime.start_date) {
+      throw new ValidationError('One-time blocks require a date', 'start_date');
+    }
+
+    if (blockedTime.start_date && blockedTime.end_date && blockedTime.end_date < blockedTime.start_date) {
+      throw new ValidationError('End date must not be before start date', 'end_date');
+    }
+  }
+
   @withPerformanceLogging
   @withErrorLogging
-  public async getBlockedTimes(userId: string): Promise<BlockedTime[]> {
+  public async getBlockedTimes(
+    userId: string,
+    options: { includeInactive?: boolean } = {}
+  ): Promise<BlockedTime[]> {
+    // Paused blocks are cached too, for the blocks screen, and left out for everyone else
+    const filter = (blocks: BlockedTime[]) =>
+      options.includeInactive ? blocks : blocks.filter(block => block.is_active);
+
     const cacheKey = this.getCacheKey('blocked_times', { userId });
     const cached = this.getFromCache<BlockedTime[]>(cacheKey);
-    if (cached) return cached;
+    if (cached) return filter(cached);
+
+    // Exclude blocks whose date range has ended. Dates are in the user's local
+    // calendar, so keep a day of slack to cover timezones ahead of UTC.
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('blocked_times')
         .select('*')
         .eq('user_id', userId)
-        .eq('is_active', true)
-        .order('priority', { ascending: false });
+        .or(`end_date.is.null,end_date.gte.${yesterday}`)
+        .order('priority', { ascending: false })
+        .order('start_time', { ascending: true });
 
       if (error) throw this.transformError(error, 'getBlockedTimes');
 
       this.setCache(cacheKey, data || []);
-      return data || [];
+      return filter(data || []);
     }, 'getBlockedTimes');
   }
 
   @withPerformanceLogging
   @withErrorLogging
   public async addBlockedTime(blockedTime: Omit<BlockedTime, 'id' | 'created_at'>): Promise<BlockedTime> {
+    this.validateBlockedTime(blockedTime);
+
+    // A one-time block without an explicit range covers just its start date
+    const row = blockedTime.repeat_type === BlockRepeatType.ONCE && !blockedTime.end_date
+      ? { ...blockedTime, end_date: blockedTime.start_date }
+      : blockedTime;
+
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('blocked_times')
-        .insert(blockedTime)
+        .insert(row)
         .select()
         .single();
 
       if (error) throw this.transformError(error, 'addBlockedTime');
 
-      this.invalidateCache(`blocked_times_${blockedTime.user_id}`);
+      this.invalidateCache(this.getCacheKey('blocked_times', { userId: blockedTime.user_id }));
 
       logger.info('Blocked time added', {
         userId: blockedTime.user_id,
@@ -505,6 +577,20 @@ export class DatabaseService {
     blockId: string,
     updates: Partial<BlockedTime>
   ): Promise<BlockedTime> {
+    // Check the row as it will be saved, so rules across fields also hold for partial updates
+    const current = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('blocked_times')
+        .select()
+        .eq('id', blockId)
+        .single();
+
+      if (error) throw this.transformError(error, 'updateBlockedTime');
+      return data;
+    }, 'updateBlockedTime');
+
+    this.validateBlockedTime({ ...current, ...updates });
+
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('blocked_times')
@@ -515,7 +601,7 @@ export class DatabaseService {
 
       if (error) throw this.transformError(error, 'updateBlockedTime');
 
-      this.invalidateCache(`blocked_times_${data.user_id}`);
+      this.invalidateCache(this.getCacheKey('blocked_times', { userId: data.user_id }));
 
       logger.info('Blocked time updated', {
         userId: data.user_id,
@@ -540,7 +626,7 @@ export class DatabaseService {
 
       if (error) throw this.transformError(error, 'deleteBlockedTime');
 
-      this.invalidateCache(`blocked_times_${userId}`);
+      this.invalidateCache(this.getCacheKey('blocked_times', { userId }));
 
       logger.info('Blocked time deleted', {
         userId,
@@ -551,6 +637,182 @@ export class DatabaseService {
     }, 'deleteBlockedTime');
   }
 
+  // ====================
+  // DATE OVERRIDE OPERATIONS
+  // ====================
+
+  /**
+   * Validate a date override before it is written
+   */
+  private validateDateOverride(override: Partial<DateOverride>): void {
+    if (override.date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(override.date)) {
+      throw new ValidationError('Date must be in YYYY-MM-DD format', 'date');
+    }
+
+    if (
+      override.override_type !== undefined &&
+      !Object.values(DateOverrideType).includes(override.override_type)
+    ) {
+      throw new ValidationError('Unknown override type', 'override_type');
+    }
+
+    if (override.override_type === DateOverrideType.UNAVAILABLE && override.windows?.length) {
+      throw new ValidationError('Unavailable dates cannot have availability windows', 'windows');
+    }
+
+    for (const window of override.windows || []) {
+      if (window.start.slice(0, 5) >= window.end.slice(0, 5)) {
+        throw new ValidationError('Each window must start before it ends', 'windows');
+      }
+    }
+  }
+
+  @withPerformanceLogging
+  @withErrorLogging
+  public async getDateOverrides(userId: string): Promise<DateOverride[]> {
+    const cacheKey = this.getCacheKey('date_overrides', { userId });
+    const cached = this.getFromCache<DateOverride[]>(cacheKey);
+    if (cached) return cached;
+
+    // Same day of slack as blocked times for timezones ahead of UTC
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('date_overrides')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('date', yesterday)
+        .order('date', { ascending: true });
+
+      if (error) throw this.transformError(error, 'getDateOverrides');
+
+      this.setCache(cacheKey, data || []);
+      return data || [];
+    }, 'getDateOverrides');
+  }
+
+  /**
+   * Add an override, replacing any existing override on the same date
+   */
+  @withPerformanceLogging
+  @withErrorLogging
+  public async addDateOverride(override: Omit<DateOverride, 'id' | 'created_at'>): Promise<DateOverride> {
+    this.validateDateOverride(override);
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('date_overrides')
+        .upsert(override, { onConflict: 'user_id,date' })
+        .select()
+        .single();
+
+      if (error) throw this.transformError(error, 'addDateOverride');
+
+      this.invalidateCache(this.getCacheKey('date_overrides', { userId: override.user_id }));
+
+      logger.info('Date override added', {
+        userId: override.user_id,
+        component: 'DatabaseService',
+        action: 'addDateOverride',
+        metadata: { date: override.date, overrideType: override.override_type }
+      });
+
+      return data;
+    }, 'addDateOverride');
+  }
+
+  /**
+   * Add many overrides at once (e.g. a holiday import). Dates that already have an
+   * override are left alone so manual choices win; returns only the inserted rows.
+   */
+  @withPerformanceLogging
+  @withErrorLogging
+  public async addDateOverrides(
+    userId: string,
+    overrides: Omit<DateOverride, 'id' | 'created_at' | 'user_id'>[]
+  ): Promise<DateOverride[]> {
+    overrides.forEach(override => this.validateDateOverride(override));
+    if (overrides.length === 0) return [];
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('date_overrides')
+        .upsert(
+          overrides.map(override => ({ ...override, user_id: userId })),
+          { onConflict: 'user_id,date', ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) throw this.transformError(error, 'addDateOverrides');
+
+      this.invalidateCache(this.getCacheKey('date_overrides', { userId }));
+
+      logger.info('Date overrides imported', {
+        userId,
+        component: 'DatabaseService',
+        action: 'addDateOverrides',
+        metadata: { requested: overrides.length, inserted: data?.length ?? 0 }
+      });
+
+      return data || [];
+    }, 'addDateOverrides');
+  }
+
+  @withPerformanceLogging
+  @withErrorLogging
+  public async updateDateOverride(
+    overrideId: string,
+    updates: Partial<DateOverride>
+  ): Promise<DateOverride> {
+    this.validateDateOverride(updates);
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('date_overrides')
+        .update(updates)
+        .eq('id', overrideId)
+        .select()
+        .single();
+
+      if (error) throw this.transformError(error, 'updateDateOverride');
+
+      this.invalidateCache(this.getCacheKey('date_overrides', { userId: data.user_id }));
+
+      logger.info('Date override updated', {
+        userId: data.user_id,
+        component: 'DatabaseService',
+        action: 'updateDateOverride',
+        metadata: { overrideId, updatedFields: Object.keys(updates) }
+      });
+
+      return data;
+    }, 'updateDateOverride');
+  }
+
+  @withPerformanceLogging
+  @withErrorLogging
+  public async deleteDateOverride(overrideId: string, userId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('date_overrides')
+        .delete()
+        .eq('id', overrideId)
+        .eq('user_id', userId); // Security: ensure user owns the override
+
+      if (error) throw this.transformError(error, 'deleteDateOverride');
+
+      this.invalidateCache(this.getCacheKey('date_overrides', { userId }));
+
+      logger.info('Date override deleted', {
+        userId,
+        component: 'DatabaseService',
+        action: 'deleteDateOverride',
+        metadata: { overrideId }
+      });
+    }, 'deleteDateOverride');
+  }
+
   // ====================
   // SCHEDULE HELPER OPERATIONS
   // ====================
@@ -25,48 +25,51 @@ global.IntersectionObserver = class IntersectionObserver {
   disconnect() {}
 };
 
-// Mock matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: vitest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: vitest.fn(), // Deprecated
-    removeListener: vitest.fn(), // Deprecated
-    addEventListener: vitest.fn(),
-    removeEventListener: vitest.fn(),
-    dispatchEvent: vitest.fn(),
-  })),
-});
+// Browser APIs, for tests in the jsdom environment
+if (typeof window !== 'undefined') {
+  // Mock matchMedia
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vitest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vitest.fn(), // Deprecated
+      removeListener: vitest.fn(), // Deprecated
+      addEventListener: vitest.fn(),
+      removeEventListener: vitest.fn(),
+      dispatchEvent: vitest.fn(),
+    })),
+  });
 
-// Mock window.open
-Object.defineProperty(window, 'open', {
-  writable: true,
-  value: vitest.fn(),
-});
+  // Mock window.open
+  Object.defineProperty(window, 'open', {
+    writable: true,
+    value: vitest.fn(),
+  });
 
-// Mock localStorage
-const localStorageMock = (() => {
-  let store: Record<string, string> = {};
+  // Mock localStorage
+  const localStorageMock = (() => {
+    let store: Record<string, string> = {};
 
-  return {
-    getItem: (key: string) => store[key] || null,
-    setItem: (key: string, value: string) => {
-      store[key] = value.toString();
-    },
-    removeItem: (key: string) => {
-      delete store[key];
-    },
-    clear: () => {
-      store = {};
-    },
-  };
-})();
+    return {
+      getItem: (key: string) => store[key] || null,
+      setItem: (key: string, value: string) => {
+        store[key] = value.toString();
+      },
+      removeItem: (key: string) => {
+        delete store[key];
+      },
+      clear: () => {
+        store = {};
+      },
+    };
+  })();
 
-Object.defineProperty(window, 'localStorage', {
-  value: localStorageMock,
-});
+  Object.defineProperty(window, 'localStorage', {
+    value: localStorageMock,
+  });
+}
 
 // Suppress console.error in tests unless explicitly needed
 const originalError = console.error;
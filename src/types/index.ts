@@ -6,17 +6,57 @@ export interface User {
   partner_name: string;
   partner_phone?: string;
   daily_call_limit: number;
+  /** Calls to aim for per local week (Mon–Sun); null when there's no target */
+  weekly_call_target?: number | null;
+  /** Most local days in a row allowed without a call; null when there's no limit */
+  max_silence_days?: number | null;
+  /** How random call times are; balanced when unset */
+  spontaneity_level?: SpontaneityLevel | null;
+  /** Hide the exact call time until shortly before the call */
+  surprise_mode?: boolean | null;
+  /** Minutes past a due call before it counts as missed; 30 when unset */
+  missed_call_grace_minutes?: number | null;
+  /** What happens after a missed call; regenerate when unset */
+  missed_call_follow_up?: MissedCallFollowUp | null;
   active_days: string;
   morning_start: string;
   evening_end: string;
+  /**
+   * Call windows per weekday. Takes precedence over active_days/morning_start/evening_end,
+   * which are kept as a summary of it; profiles without one fall back to those fields.
+   */
+  weekly_availability?: WeeklyAvailability | null;
   preferred_platforms: string;
   timezone: string;
+  /** Partner's IANA timezone; partner availability is not enforced when unset */
+  partner_timezone?: string | null;
+  /** Partner's waking window, "HH:mm" in partner_timezone */
+  partner_morning_start?: string;
+  partner_evening_end?: string;
+  /** Partner's active days in their own timezone, e.g. "Mon,Tue,Wed" */
+  partner_active_days?: string;
+  /** Account switch; for a temporary break from calls use the pause fields below */
   is_active: boolean;
+  /** When scheduling was paused; null when it isn't */
+  paused_at?: string | null;
+  /** When a pause ends on its own; null with paused_at set means paused until resumed */
+  paused_until?: string | null;
   readonly created_at: string;
   readonly updated_at: string;
   readonly version: number;
 }
 
+/**
+ * A window of local time when calls are welcome. `end` is the last allowed minute, like evening_end.
+ */
+export interface AvailabilityWindow {
+  start: string;
+  end: string;
+}
+
+/** Availability windows keyed by short weekday ("Mon"); a missing or empty day is inactive */
+export type WeeklyAvailability = Partial<Record<string, AvailabilityWindow[]>>;
+
 export interface CallHistory {
   readonly id: string;
   readonly user_id: string;
@@ -34,15 +74,38 @@ export interface BlockedTime {
   readonly id: string;
   readonly user_id: string;
   block_name: string;
+  /** Local "HH:mm"; a start_time later than end_time wraps past midnight */
   start_time: string;
   end_time: string;
   repeat_type: BlockRepeatType;
   days_of_week?: string;
+  /** Local "YYYY-MM-DD" the block first applies on; required for ONCE blocks */
+  start_date?: string | null;
+  /** Local "YYYY-MM-DD" the block last applies on (inclusive); open-ended when unset */
+  end_date?: string | null;
   is_active: boolean;
   priority: number;
   readonly created_at: string;
 }
 
+/**
+ * An exception to the weekly availability on one local calendar date. It replaces that
+ * day's windows; blocked times still apply on top of an AVAILABLE override.
+ */
+export interface DateOverride {
+  readonly id: string;
+  readonly user_id: string;
+  /** Local "YYYY-MM-DD" */
+  date: string;
+  override_type: DateOverrideType;
+  /** Windows for AVAILABLE overrides; the whole day when empty */
+  windows?: AvailabilityWindow[] | null;
+  label?: string | null;
+  /** Country code of the bundled holiday calendar this was imported from */
+  holiday_country?: string | null;
+  readonly created_at: string;
+}
+
 export interface ScheduleHelper {
   readonly id: string;
   readonly user_id: string;
@@ -51,6 +114,10 @@ export interface ScheduleHelper {
   calls_today: number;
   daily_reset_date: string;
   last_generated: string;
+  /** Upcoming planned calls; next_call_due is always the first remaining slot */
+  week_plan?: WeekPlan | null;
+  /** Times the pending call has been snoozed; starts over with each new call */
+  snooze_count?: number;
   readonly updated_at: string;
   readonly lock_version: number;
 }
@@ -76,6 +143,30 @@ export const BlockRepeatType = {
 
 export type BlockRepeatType = typeof BlockRepeatType[keyof typeof BlockRepeatType];
 
+export const DateOverrideType = {
+  UNAVAILABLE: 'unavailable',
+  AVAILABLE: 'available',
+} as const;
+
+export type DateOverrideType = typeof DateOverrideType[keyof typeof DateOverrideType];
+
+export const SpontaneityLevel = {
+  PREDICTABLE: 'predictable',
+  BALANCED: 'balanced',
+  SPONTANEOUS: 'spontaneous',
+  WILD: 'wild',
+} as const;
+
+export type SpontaneityLevel = typeof SpontaneityLevel[keyof typeof SpontaneityLevel];
+
+export const MissedCallFollowUp = {
+  REGENERATE: 'regenerate',
+  NUDGE: 'nudge',
+  TOMORROW: 'tomorrow',
+} as const;
+
+export type MissedCallFollowUp = typeof MissedCallFollowUp[keyof typeof MissedCallFollowUp];
+
 export const Platform = {
   PHONE: 'phone',
   WHATSAPP: 'whatsapp',
@@ -121,11 +212,17 @@ export interface UserSetupForm {
   partner_name: string;
   partner_phone?: string;
   daily_call_limit: number;
-  active_days: string[];
-  morning_start: string;
-  evening_end: string;
+  weekly_call_target: number | null;
+  max_silence_days: number | null;
+  spontaneity_level: SpontaneityLevel;
+  surprise_mode: boolean;
+  weekly_availability: WeeklyAvailability;
   preferred_platforms: Platform[];
   timezone: string;
+  partner_timezone: string;
+  partner_morning_start: string;
+  partner_evening_end: string;
+  partner_active_days: string[];
 }
 
 export interface UserPreferencesForm {
@@ -133,23 +230,42 @@ export interface UserPreferencesForm {
   partner_name: string;
   partner_phone?: string;
   daily_call_limit: number;
-  active_days: string[];
-  morning_start: string;
-  evening_end: string;
+  weekly_call_target: number | null;
+  max_silence_days: number | null;
+  spontaneity_level: SpontaneityLevel;
+  surprise_mode: boolean;
+  missed_call_grace_minutes: number;
+  missed_call_follow_up: MissedCallFollowUp;
+  weekly_availability: WeeklyAvailability;
   preferred_platforms: Platform[];
   timezone: string;
+  partner_timezone: string;
+  partner_morning_start: string;
+  partner_evening_end: string;
+  partner_active_days: string[];
 }
 
 export interface BlockedTimeForm {
   block_name: string;
+  /** Local "HH:mm"; a start_time later than end_time wraps past midnight */
   start_time: string;
   end_time: string;
   repeat_type: BlockRepeatType;
   days_of_week?: string[];
+  /** Single date for ONCE blocks, or the first day of a from/until range */
+  start_date?: string;
+  end_date?: string;
   is_active: boolean;
   priority: number;
 }
 
+export interface DateOverrideForm {
+  date: string;
+  override_type: DateOverrideType;
+  windows?: AvailabilityWindow[];
+  label?: string;
+}
+
 export interface CallRatingForm {
   call_id: string;
   success_rating: number;
@@ -157,6 +273,32 @@ export interface CallRatingForm {
 }
 
 // Business Logic Types
+/** Returns a number in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+export interface Clock {
+  now(): Date;
+}
+
+/** Context attached to a scheduling log line; a subset of the app logger's context */
+export interface SchedulingLogContext {
+  userId?: string;
+  component?: string;
+  action?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Where the scheduling core writes its logs, so it runs outside the browser too.
+ * The app passes its logger; server runtimes pass their own.
+ */
+export interface SchedulingLogger {
+  debug(message: string, context?: SchedulingLogContext): void;
+  info(message: string, context?: SchedulingLogContext): void;
+  warn(message: string, context?: SchedulingLogContext): void;
+  error(message: string, context?: SchedulingLogContext): void;
+}
+
 export interface CallGenerationOptions {
   user: User;
   blockedTimes: BlockedTime[];
@@ -164,6 +306,148 @@ export interface CallGenerationOptions {
   minGapMinutes?: number;
   maxGapMinutes?: number;
   maxAttempts?: number;
+  /** How many days ahead the availability engine searches for free time */
+  horizonDays?: number;
+  /** Seed for the scheduler's PRNG; when omitted a fresh seed is drawn per generation */
+  seed?: number;
+  /** Time source; defaults to the device clock */
+  clock?: Clock;
+  /** Learned weekday/hour preferences used to weight slot selection */
+  preferences?: TimePreferenceModel;
+  /** Date-specific exceptions to the weekly availability */
+  dateOverrides?: DateOverride[];
+  /** Completed calls in the user's current local week, for the weekly target */
+  callsThisWeek?: number;
+  /** Back-off or pick-up learned from recent skips and ratings */
+  adaptation?: CadenceAdaptation;
+  /** Which rules the relaxation strategy may bend and at what cost; unset rules keep their defaults */
+  constraints?: Partial<ConstraintModel>;
+  /** Log sink; the scheduler stays silent without one */
+  logger?: SchedulingLogger;
+}
+
+export interface TimePreferenceBucket {
+  day: string;
+  hour: number;
+  offered: number;
+  answered: number;
+  averageRating: number | null;
+  /** Combined pickup and rating score in [0, 1] */
+  score: number;
+}
+
+export interface TimePreferenceModel {
+  /** Keyed by "<weekday>-<hour>" in the user's timezone, e.g. "Mon-19" */
+  buckets: Record<string, TimePreferenceBucket>;
+  sampleSize: number;
+  /** Share of sampling weight every slot keeps regardless of history, in [0, 1] */
+  explorationRate: number;
+}
+
+export interface CadenceAdaptation {
+  /** Positive backs off after skips or poor ratings, negative picks up after well-rated calls, 0 changes nothing */
+  level: number;
+  /** Applied to the minimum gap when backing off, or to the spread above it when picking up */
+  gapFactor: number;
+  /** Calls a day after adapting; never above the user's daily_call_limit */
+  dailyLimit: number;
+  /** What drove it: 'consecutive_skips', 'low_ratings', 'well_rated_streak' or 'none' */
+  reason: string;
+}
+
+/**
+ * A scheduling rule: hard rules are never broken, soft rules may be bent at a cost
+ */
+export interface ConstraintRule {
+  hard: boolean;
+  /** Penalty for each call time that bends the rule; ignored while it is hard */
+  weight: number;
+}
+
+export interface MinGapConstraintRule extends ConstraintRule {
+  /** Share of the min gap that always holds, e.g. 0.5 lets calls come at most twice as often */
+  floor: number;
+}
+
+export interface BlockConstraintRule {
+  /** Blocks at this priority or above are hard */
+  hardFromPriority: number;
+  /** Penalty for overlapping a soft block, multiplied by its priority + 1 */
+  weight: number;
+}
+
+/**
+ * The rules the relaxation strategy scores call times against
+ */
+export interface ConstraintModel {
+  /** Calling hours on the user's active days */
+  dailyWindow: ConstraintRule;
+  /** Days with no calling hours; date overrides always hold */
+  activeDays: ConstraintRule;
+  minGap: MinGapConstraintRule;
+  dailyLimit: ConstraintRule;
+  blocks: BlockConstraintRule;
+}
+
+export interface PlannedCall {
+  /** ISO instant of the call */
+  time: string;
+  /** Local "YYYY-MM-DD" the call falls on in the user's timezone */
+  date: string;
+}
+
+export interface WeekPlan {
+  slots: PlannedCall[];
+  /** Seed and clock of the most recent (re)plan */
+  seed: number;
+  generatedAt: string;
+  constraints: string[];
+}
+
+export const SchedulingStrategy = {
+  INTERVAL_SAMPLING: 'interval_sampling',
+  PATTERN_OPTIMIZATION: 'pattern_optimization',
+  CONSTRAINT_RELAXATION: 'constraint_relaxation',
+  WEEK_PLAN: 'week_plan',
+} as const;
+
+export type SchedulingStrategy = typeof SchedulingStrategy[keyof typeof SchedulingStrategy];
+
+/** A span of time (ISO instants, end exclusive) considered or ruled out while scheduling */
+export interface TraceWindow {
+  start: string;
+  end: string;
+}
+
+export interface TraceRejection {
+  /** Reason string, e.g. "blocked_gym" or "min_gap_violation" */
+  constraint: string;
+  /** Human-readable source of the constraint, e.g. the block name */
+  label?: string;
+  /** Start of the span ruled out, or the proposed time that failed validation */
+  start: string;
+  /** End of the span ruled out; absent for a single proposed time */
+  end?: string;
+}
+
+export interface StrategyTrace {
+  strategy: SchedulingStrategy;
+  success: boolean;
+  attempts: number;
+}
+
+/**
+ * Structured explanation of how a call time was chosen
+ */
+export interface SchedulingTrace {
+  /** Strategy that produced the time, if any */
+  strategy?: SchedulingStrategy;
+  strategies: StrategyTrace[];
+  /** Free windows the time was picked from */
+  windows: TraceWindow[];
+  rejections: TraceRejection[];
+  /** Relaxations applied to find the time, e.g. "reduced_min_gap" */
+  relaxations: string[];
 }
 
 export interface CallValidationResult {
@@ -177,9 +461,16 @@ export interface SchedulingResult {
   nextCallTime?: Date;
   error?: string;
   metadata?: {
+    /** Availability passes evaluated: one per strategy run or relaxation level tried */
     attempts: number;
     constraints: string[];
     alternatives?: Date[];
+    /** PRNG seed used for this generation; replay with the same seed and a clock fixed at generatedAt */
+    seed?: number;
+    generatedAt?: string;
+    trace?: SchedulingTrace;
+    /** Adjustment to the gap and daily limit this generation ran with */
+    adaptation?: CadenceAdaptation;
   };
 }
 
@@ -297,7 +588,7 @@ export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
 
 export type OptionalFields<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
 
-export type ApiEndpoint = 'users' | 'call_history' | 'blocked_times' | 'schedule_helper';
+export type ApiEndpoint = 'users' | 'call_history' | 'blocked_times' | 'date_overrides' | 'schedule_helper';
 
 export type DatabaseFunction = 'generate_next_call' | 'reset_daily_counts' | 'cleanup_old_data';
 
@@ -399,7 +690,10 @@ export const APP_CONFIG = {
   MAX_CALL_HISTORY_DAYS: 90,
   MIN_CALL_GAP_MINUTES: 45,
   MAX_CALL_GAP_MINUTES: 360,
+  SCHEDULING_HORIZON_DAYS: 7,
+  WEEK_PLAN_DAYS: 7,
   DEFAULT_DAILY_LIMIT: 3,
+  WEEKDAYS: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
   SUPPORTED_TIMEZONES: [
     'UTC',
     'America/New_York',